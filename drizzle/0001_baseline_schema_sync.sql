@@ -0,0 +1,11 @@
+ALTER TYPE "public"."order_status" ADD VALUE 'package_picked_up' BEFORE 'delivered';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'in_transit' BEFORE 'delivered';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'arrived_at_location' BEFORE 'delivered';--> statement-breakpoint
+ALTER TABLE "orders" RENAME COLUMN "delivery_start_at" TO "delivery_started_at";--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_picked_up_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "arrived_at_location_at" timestamp;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "address" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "fcm_token" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "organizations" DROP COLUMN "stripe_customer_id";
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "proof_of_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"rider_id" uuid,
+	"photo_url" text,
+	"photo_public_id" text,
+	"signature_url" text,
+	"signature_public_id" text,
+	"recipient_name" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "proof_of_deliveries_order_id_unique" UNIQUE("order_id")
+);
+--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "settings" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "proof_of_deliveries" ADD CONSTRAINT "proof_of_deliveries_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "proof_of_deliveries" ADD CONSTRAINT "proof_of_deliveries_rider_id_users_id_fk" FOREIGN KEY ("rider_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "dispatch_decisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"org_id" uuid NOT NULL,
+	"rider_id" uuid,
+	"attempt" integer NOT NULL,
+	"outcome" text NOT NULL,
+	"score" double precision,
+	"distance_km" double precision,
+	"active_orders" integer,
+	"candidates" jsonb,
+	"expires_at" timestamp,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "auto_assign" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "coordinates" text;--> statement-breakpoint
+ALTER TABLE "dispatch_decisions" ADD CONSTRAINT "dispatch_decisions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dispatch_decisions" ADD CONSTRAINT "dispatch_decisions_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dispatch_decisions" ADD CONSTRAINT "dispatch_decisions_rider_id_users_id_fk" FOREIGN KEY ("rider_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,123 @@
+-- Convert free-text location columns to structured GeoPoint jsonb
+-- ({ lat, lng, accuracy, heading, speed, recordedAt }).
+-- Values are parsed from "lat,lng" strings or the JSON objects written by the
+-- WebSocket handler; anything that cannot be parsed becomes NULL. Columns that
+-- are already jsonb are left alone, so this is safe to re-run.
+CREATE OR REPLACE FUNCTION "parse_geo_point"(value text, recorded_at timestamp)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+	trimmed text := btrim(value);
+	parsed jsonb;
+	parts text[];
+	lat double precision;
+	lng double precision;
+	accuracy double precision;
+	heading double precision;
+	speed double precision;
+BEGIN
+	IF trimmed IS NULL OR trimmed = '' THEN
+		RETURN NULL;
+	END IF;
+
+	IF left(trimmed, 1) = '{' THEN
+		BEGIN
+			parsed := trimmed::jsonb;
+			IF parsed ? 'coords' THEN
+				parsed := parsed -> 'coords';
+			END IF;
+			lat := COALESCE(parsed ->> 'lat', parsed ->> 'latitude')::double precision;
+			lng := COALESCE(parsed ->> 'lng', parsed ->> 'longitude')::double precision;
+			accuracy := (parsed ->> 'accuracy')::double precision;
+			heading := (parsed ->> 'heading')::double precision;
+			speed := (parsed ->> 'speed')::double precision;
+		EXCEPTION WHEN others THEN
+			RETURN NULL;
+		END;
+	ELSE
+		parts := regexp_match(trimmed, '^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$');
+		IF parts IS NULL THEN
+			RETURN NULL;
+		END IF;
+		lat := parts[1]::double precision;
+		lng := parts[2]::double precision;
+	END IF;
+
+	IF lat IS NULL OR lng IS NULL OR abs(lat) > 90 OR abs(lng) > 180 THEN
+		RETURN NULL;
+	END IF;
+
+	RETURN jsonb_build_object(
+		'lat', lat,
+		'lng', lng,
+		-- Devices report -1 for readings they could not take
+		'accuracy', CASE WHEN accuracy >= 0 THEN accuracy END,
+		'heading', CASE WHEN heading >= 0 THEN heading END,
+		'speed', CASE WHEN speed >= 0 THEN speed END,
+		'recordedAt', to_char(COALESCE(recorded_at, now()::timestamp), 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+	);
+END;
+$$;
+--> statement-breakpoint
+DO $$
+DECLARE
+	target record;
+BEGIN
+	FOR target IN
+		SELECT * FROM (VALUES
+			('users', 'current_location', 'updated_at'),
+			('organizations', 'coordinates', 'updated_at'),
+			('orders', 'rider_current_location', 'updated_at'),
+			('orders', 'customer_location_precise', 'customer_location_set_at'),
+			('order_events', 'rider_location', 'created_at')
+		) AS t(table_name, column_name, recorded_at_column)
+	LOOP
+		IF EXISTS (
+			SELECT 1 FROM information_schema.columns c
+			WHERE c.table_schema = 'public'
+				AND c.table_name = target.table_name
+				AND c.column_name = target.column_name
+				AND c.data_type = 'text'
+		) THEN
+			EXECUTE format(
+				'ALTER TABLE %I ALTER COLUMN %I SET DATA TYPE jsonb USING "parse_geo_point"(%I, %I)',
+				target.table_name,
+				target.column_name,
+				target.column_name,
+				target.recorded_at_column
+			);
+		END IF;
+	END LOOP;
+END;
+$$;
+--> statement-breakpoint
+-- Saved customer locations: parse each entry's preciseLocation and keep the
+-- original text as "address" when it was not a coordinate
+UPDATE "users"
+SET "locations" = (
+	SELECT COALESCE(jsonb_agg(
+		CASE
+			WHEN jsonb_typeof(entry -> 'preciseLocation') = 'string' THEN
+				entry || jsonb_build_object(
+					'preciseLocation', "parse_geo_point"(entry ->> 'preciseLocation', "users"."updated_at"),
+					'address', CASE
+						WHEN "parse_geo_point"(entry ->> 'preciseLocation', "users"."updated_at") IS NULL
+						THEN entry -> 'preciseLocation'
+						ELSE 'null'::jsonb
+					END
+				)
+			ELSE entry
+		END
+		ORDER BY ordinality
+	), '[]'::jsonb)
+	FROM jsonb_array_elements("users"."locations") WITH ORDINALITY AS entries(entry, ordinality)
+)
+WHERE jsonb_typeof("locations") = 'array'
+	AND EXISTS (
+		SELECT 1 FROM jsonb_array_elements("users"."locations") AS entries(entry)
+		WHERE jsonb_typeof(entry -> 'preciseLocation') = 'string'
+	);
+--> statement-breakpoint
+DROP FUNCTION "parse_geo_point"(text, timestamp);
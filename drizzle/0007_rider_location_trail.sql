@@ -0,0 +1,15 @@
+CREATE TABLE "rider_location_points" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"rider_id" uuid,
+	"lat" double precision NOT NULL,
+	"lng" double precision NOT NULL,
+	"accuracy" double precision,
+	"heading" double precision,
+	"speed" double precision,
+	"recorded_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rider_location_points" ADD CONSTRAINT "rider_location_points_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rider_location_points" ADD CONSTRAINT "rider_location_points_rider_id_users_id_fk" FOREIGN KEY ("rider_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
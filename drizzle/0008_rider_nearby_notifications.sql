@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "rider_nearby_notified_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TYPE "public"."order_status" ADD VALUE 'scheduled' BEFORE 'pending';--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "scheduled_for" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "window_start" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "window_end" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "release_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "released_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "delivery_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"org_id" uuid NOT NULL,
+	"rider_id" uuid,
+	"status" text DEFAULT 'planned' NOT NULL,
+	"created_by" uuid,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "stop_sequence" integer;--> statement-breakpoint
+ALTER TABLE "delivery_batches" ADD CONSTRAINT "delivery_batches_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "delivery_batches" ADD CONSTRAINT "delivery_batches_rider_id_users_id_fk" FOREIGN KEY ("rider_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "delivery_batches" ADD CONSTRAINT "delivery_batches_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_batch_id_delivery_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."delivery_batches"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
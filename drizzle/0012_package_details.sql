@@ -0,0 +1,23 @@
+CREATE TABLE "package_categories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"org_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_category_id" uuid;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_length_cm" double precision;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_width_cm" double precision;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_height_cm" double precision;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_weight_kg" double precision;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "declared_value" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "is_fragile" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "is_perishable" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "item_count" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "package_photos" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "vehicle" jsonb;--> statement-breakpoint
+ALTER TABLE "package_categories" ADD CONSTRAINT "package_categories_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_package_category_id_package_categories_id_fk" FOREIGN KEY ("package_category_id") REFERENCES "public"."package_categories"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- The trigram indexes behind the ILIKE search need pg_trgm
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";--> statement-breakpoint
+CREATE INDEX "orders_org_id_created_at_idx" ON "orders" USING btree ("org_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "orders_customer_id_created_at_idx" ON "orders" USING btree ("customer_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "orders_rider_id_created_at_idx" ON "orders" USING btree ("rider_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "orders_org_id_status_idx" ON "orders" USING btree ("org_id","status");--> statement-breakpoint
+CREATE INDEX "orders_org_id_delivered_at_idx" ON "orders" USING btree ("org_id","delivered_at");--> statement-breakpoint
+CREATE INDEX "orders_order_number_trgm_idx" ON "orders" USING gin ("order_number" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "orders_package_description_trgm_idx" ON "orders" USING gin ("package_description" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "orders" DROP CONSTRAINT "orders_order_number_unique";--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "last_order_number" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_org_id_order_number_unique" UNIQUE("org_id","order_number");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TYPE "public"."delivery_failure_reason" AS ENUM('customer_not_home', 'wrong_address', 'customer_refused', 'location_inaccessible', 'package_damaged', 'other');--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'delivery_failed';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'reattempt_scheduled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'returning_to_sender';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'returned';--> statement-breakpoint
+CREATE TABLE "delivery_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"org_id" uuid NOT NULL,
+	"rider_id" uuid,
+	"attempt_number" integer NOT NULL,
+	"reason" "delivery_failure_reason" NOT NULL,
+	"note" text,
+	"photo_url" text,
+	"photo_public_id" text,
+	"location" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "delivery_attempts_order_id_attempt_number_unique" UNIQUE("order_id","attempt_number")
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "delivery_attempt_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "delivery_failed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "returned_at" timestamp;--> statement-breakpoint
+ALTER TABLE "delivery_attempts" ADD CONSTRAINT "delivery_attempts_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "delivery_attempts" ADD CONSTRAINT "delivery_attempts_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "delivery_attempts" ADD CONSTRAINT "delivery_attempts_rider_id_users_id_fk" FOREIGN KEY ("rider_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "used_websocket_tickets" (
+	"jti" uuid PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "used_websocket_tickets" ADD CONSTRAINT "used_websocket_tickets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "delivery_batches_open_rider_id_unique" ON "delivery_batches" USING btree ("rider_id") WHERE "delivery_batches"."status" in ('planned', 'in_progress');
\ No newline at end of file
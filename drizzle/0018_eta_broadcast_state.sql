@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "eta_broadcast_seconds" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "geofence_prompted_at" timestamp;
\ No newline at end of file
@@ -23,6 +23,7 @@ import {
   acceptCustomerInvitation,
   cancelCustomerInvitation,
   resendCustomerInvitation,
+  issueWebSocketTicket,
 } from "../services/auth.service.js";
 
 // Helper functions
@@ -295,6 +296,28 @@ export const logoutController = async (req: Request, res: Response) => {
   }
 };
 
+export const createWebSocketTicketController = async (
+  req: Request,
+  res: Response,
+) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user?.userId) {
+      return res.status(400).json({
+        success: false,
+        message: "User ID not found in request",
+      });
+    }
+
+    const result = await issueWebSocketTicket(user);
+
+    return successResponse(res, result, "WebSocket ticket issued");
+  } catch (error) {
+    return handleError(res, error);
+  }
+};
+
 export const getProfileController = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.userId;
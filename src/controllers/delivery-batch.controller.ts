@@ -0,0 +1,139 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth.middleware.js";
+import {
+  CreateDeliveryBatchDTO,
+  deliveryBatchService,
+} from "../services/delivery-batch.service.js";
+
+export class DeliveryBatchController {
+  async createBatch(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const dto: CreateDeliveryBatchDTO = req.body;
+
+      const batch = await deliveryBatchService.createBatch(
+        user!.orgId!,
+        user!.userId,
+        dto,
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: "Batch created successfully",
+        data: batch,
+      });
+    } catch (error: any) {
+      console.error("Error creating batch:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async getCurrentBatch(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const batch = await deliveryBatchService.getCurrentBatch(
+        user!.userId,
+        user!.orgId!,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error: any) {
+      console.error("Error fetching current batch:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async getBatch(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { batchId } = req.params;
+
+      const batchIdString = Array.isArray(batchId) ? batchId[0] : batchId;
+
+      const batch = await deliveryBatchService.getBatch(
+        batchIdString,
+        user!.orgId!,
+        user!.userId,
+        user!.role || "",
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error: any) {
+      console.error("Error fetching batch:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async optimizeBatch(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { batchId } = req.params;
+
+      const batchIdString = Array.isArray(batchId) ? batchId[0] : batchId;
+
+      const batch = await deliveryBatchService.optimizeBatch(
+        batchIdString,
+        user!.orgId!,
+        user!.userId,
+        user!.role || "",
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Stop order updated",
+        data: batch,
+      });
+    } catch (error: any) {
+      console.error("Error optimizing batch:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async advanceBatch(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { batchId } = req.params;
+
+      const batchIdString = Array.isArray(batchId) ? batchId[0] : batchId;
+
+      const batch = await deliveryBatchService.advanceBatch(
+        batchIdString,
+        user!.orgId!,
+        user!.userId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Batch advanced",
+        data: batch,
+      });
+    } catch (error: any) {
+      console.error("Error advancing batch:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+}
+
+export const deliveryBatchController = new DeliveryBatchController();
@@ -3,8 +3,15 @@ import {
   orderService,
   CreateOrderDTO,
   AssignLocationDTO,
+  ConfirmDeliveryDTO,
+  ReassignOrderDTO,
+  ReturnToSenderDTO,
+  ScheduleReattemptDTO,
 } from "../services/order.service.js";
+import { FailedDeliveryDTO } from "../services/delivery-attempt.service.js";
 import { AuthRequest } from "../middleware/auth.middleware.js";
+import { deliveryCodeService } from "../services/delivery-code.service.js";
+import { dispatchService } from "../services/dispatch.service.js";
 
 export class OrderController {
   async createOrder(req: AuthRequest, res: Response) {
@@ -32,6 +39,44 @@ export class OrderController {
     }
   }
 
+  async importOrders(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      // A CSV file can be posted as is, with the options in the query string
+      const input =
+        typeof req.body === "string"
+          ? {
+              csv: req.body,
+              dryRun: req.query.dryRun === "true",
+              mode: req.query.mode,
+            }
+          : req.body;
+
+      const result = await orderService.importOrders(
+        user!.orgId!,
+        user!.userId,
+        input,
+      );
+
+      return res.status(result.created > 0 ? 201 : 200).json({
+        success: true,
+        message: result.dryRun
+          ? "Dry run complete; no orders were created"
+          : result.committed
+            ? `${result.created} of ${result.total} orders created`
+            : "No orders were created because some rows are invalid",
+        data: result,
+      });
+    } catch (error: any) {
+      console.error("Error importing orders:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
   async getOrder(req: AuthRequest, res: Response) {
     try {
       const { user } = req;
@@ -66,15 +111,20 @@ export class OrderController {
 
       const orgId = user?.orgId || undefined;
 
-      const orders = await orderService.getOrders(
+      const result = await orderService.getOrders(
         user!.userId,
         user!.role || "",
         orgId,
+        req.query,
       );
 
       return res.status(200).json({
         success: true,
-        data: orders,
+        data: result.orders,
+        pagination: {
+          totalCount: result.totalCount,
+          ...result.pageInfo,
+        },
       });
     } catch (error: any) {
       console.error("Error fetching orders:", error);
@@ -85,6 +135,179 @@ export class OrderController {
     }
   }
 
+  async getOrderByNumber(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderNumber } = req.params;
+
+      const orderNumberString = Array.isArray(orderNumber)
+        ? orderNumber[0]
+        : orderNumber;
+      const orgId = user?.orgId || undefined;
+
+      const order = await orderService.getOrderByNumber(
+        orderNumberString,
+        user!.userId,
+        user!.role || "",
+        orgId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error fetching order by number:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async getOrderTimeline(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+      const orgId = user?.orgId || undefined;
+
+      const timeline = await orderService.getOrderTimeline(
+        orderIdString,
+        user!.userId,
+        user!.role || "",
+        orgId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: timeline,
+      });
+    } catch (error: any) {
+      console.error("Error fetching order timeline:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async getOrderRoute(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+      const orgId = user?.orgId || undefined;
+
+      const route = await orderService.getOrderRoute(
+        orderIdString,
+        user!.userId,
+        user!.role || "",
+        orgId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: route,
+      });
+    } catch (error: any) {
+      console.error("Error fetching order route:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async getAvailableOrders(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const orgId = user?.orgId || undefined;
+
+      const orders = await orderService.getAvailableOrders(
+        user!.userId,
+        orgId,
+        { fitsVehicle: req.query.fitsVehicle === "true" },
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: orders,
+      });
+    } catch (error: any) {
+      console.error("Error fetching available orders:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async claimOrder(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+      const { currentLocation } = req.body;
+
+      if (!currentLocation) {
+        return res.status(400).json({
+          success: false,
+          message: "Current location is required",
+        });
+      }
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+      const orgId = user?.orgId || undefined;
+
+      const order = await orderService.claimOrder(
+        orderIdString,
+        user!.userId,
+        orgId,
+        currentLocation,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Order claimed successfully",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error claiming order:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async getDispatchLog(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const decisions = await dispatchService.getDecisionLog(
+        orderIdString,
+        user!.orgId!,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: decisions,
+      });
+    } catch (error: any) {
+      console.error("Error fetching dispatch log:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
   async riderAcceptOrder(req: AuthRequest, res: Response) {
     try {
       const { user } = req;
@@ -120,6 +343,32 @@ export class OrderController {
     }
   }
 
+  async declineOrder(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const order = await orderService.declineOrder(
+        orderIdString,
+        user!.userId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Order declined successfully",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error declining order:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
   async setCustomerLocation(req: AuthRequest, res: Response) {
     try {
       const { user } = req;
@@ -246,16 +495,63 @@ export class OrderController {
     }
   }
 
+  async reassignOrder(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+      const dto: ReassignOrderDTO = req.body;
+
+      if (!dto.riderId) {
+        return res.status(400).json({
+          success: false,
+          message: "Rider ID is required",
+        });
+      }
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const order = await orderService.reassignOrder(
+        orderIdString,
+        user!.userId,
+        user!.orgId!,
+        dto,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Order reassigned successfully",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error reassigning order:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
   async confirmDelivery(req: AuthRequest, res: Response) {
     try {
       const { user } = req;
       const { orderId } = req.params;
 
+      const { deliveryCode, photo, signature, recipientName, note } =
+        req.body || {};
+      const dto: ConfirmDeliveryDTO = {
+        deliveryCode,
+        photo,
+        signature,
+        recipientName,
+        note,
+      };
+
       const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
 
       const order = await orderService.confirmDelivery(
         orderIdString,
         user!.userId,
+        dto,
       );
 
       return res.status(200).json({
@@ -350,30 +646,153 @@ export class OrderController {
     }
   }
 
+  async recordFailedDelivery(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+      const dto: FailedDeliveryDTO = req.body;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const order = await orderService.recordFailedDelivery(
+        orderIdString,
+        user!.userId,
+        dto,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message:
+          order.status === "returning_to_sender"
+            ? "Failed delivery recorded. No attempts are left, please return the package to the sender"
+            : "Failed delivery recorded successfully",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error recording failed delivery:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async scheduleReattempt(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+      const dto: ScheduleReattemptDTO = req.body || {};
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const order = await orderService.scheduleReattempt(
+        orderIdString,
+        user!.userId,
+        user!.orgId!,
+        dto,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Reattempt scheduled successfully",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error scheduling reattempt:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async returnToSender(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+      const dto: ReturnToSenderDTO = req.body || {};
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const order = await orderService.returnToSender(
+        orderIdString,
+        user!.userId,
+        user!.orgId!,
+        dto,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Order is being returned to the sender",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error returning order to sender:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async markReturned(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const order = await orderService.markReturned(
+        orderIdString,
+        user!.userId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Order marked as returned successfully",
+        data: order,
+      });
+    } catch (error: any) {
+      console.error("Error marking order as returned:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
   async updateRiderLocation(req: AuthRequest, res: Response) {
     try {
       const { user } = req;
       const { orderId } = req.params;
-      const { currentLocation } = req.body;
+      const { currentLocation, locations } = req.body;
 
-      if (!currentLocation) {
+      if (!currentLocation && !locations) {
         return res.status(400).json({
           success: false,
-          message: "Current location is required",
+          message: "Current location or locations are required",
+        });
+      }
+
+      if (locations !== undefined && !Array.isArray(locations)) {
+        return res.status(400).json({
+          success: false,
+          message: "Locations must be an array",
         });
       }
 
       const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
 
-      await orderService.updateRiderLocation(
+      const result = await orderService.updateRiderLocation(
         orderIdString,
         user!.userId,
-        currentLocation,
+        locations ?? currentLocation,
       );
 
       return res.status(200).json({
         success: true,
         message: "Location updated successfully",
+        data: result,
       });
     } catch (error: any) {
       console.error("Error updating rider location:", error);
@@ -383,6 +802,31 @@ export class OrderController {
       });
     }
   }
+
+  async getDeliveryCode(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { orderId } = req.params;
+
+      const orderIdString = Array.isArray(orderId) ? orderId[0] : orderId;
+
+      const deliveryCode = await deliveryCodeService.getCodeForCustomer(
+        orderIdString,
+        user!.userId,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: deliveryCode,
+      });
+    } catch (error: any) {
+      console.error("Error fetching delivery code:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
 }
 
 export const orderController = new OrderController();
@@ -2,6 +2,9 @@ import { Request, Response } from "express";
 import { db } from "../config/database.js";
 import { organizations } from "../models/schema.js";
 import { eq } from "drizzle-orm";
+import { AuthRequest } from "../middleware/auth.middleware.js";
+import { organizationService } from "../services/organization.service.js";
+import { packageService } from "../services/package.service.js";
 
 export class OrganizationController {
   /**
@@ -47,4 +50,305 @@ export class OrganizationController {
       });
     }
   }
+
+  /**
+   * Get settings for the organization in context
+   */
+  async getSettings(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const settings = await organizationService.getSettings(user!.orgId!);
+
+      return res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error: any) {
+      console.error("Error fetching organization settings:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update address and pickup coordinates of the organization in context
+   */
+  async updateLocation(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { address, coordinates } = req.body;
+
+      const organization = await organizationService.updateLocation(
+        user!.orgId!,
+        user!.userId,
+        { address, coordinates },
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Organization location updated successfully",
+        data: organization,
+      });
+    } catch (error: any) {
+      console.error("Error updating organization location:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update settings for the organization in context
+   */
+  async updateSettings(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const settings = await organizationService.updateSettings(
+        user!.orgId!,
+        user!.userId,
+        req.body,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Organization settings updated successfully",
+        data: settings,
+      });
+    } catch (error: any) {
+      console.error("Error updating organization settings:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * List the pickup locations of the organization in context
+   */
+  async listPickupLocations(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const pickupLocations = await organizationService.listPickupLocations(
+        user!.orgId!,
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: pickupLocations,
+      });
+    } catch (error: any) {
+      console.error("Error fetching pickup locations:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Add a pickup location to the organization in context
+   */
+  async createPickupLocation(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const pickupLocation = await organizationService.createPickupLocation(
+        user!.orgId!,
+        user!.userId,
+        req.body,
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: "Pickup location created successfully",
+        data: pickupLocation,
+      });
+    } catch (error: any) {
+      console.error("Error creating pickup location:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update a pickup location of the organization in context
+   */
+  async updatePickupLocation(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { pickupLocationId } = req.params;
+      const pickupLocationIdString = Array.isArray(pickupLocationId)
+        ? pickupLocationId[0]
+        : pickupLocationId;
+
+      const pickupLocation = await organizationService.updatePickupLocation(
+        user!.orgId!,
+        user!.userId,
+        pickupLocationIdString,
+        req.body,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Pickup location updated successfully",
+        data: pickupLocation,
+      });
+    } catch (error: any) {
+      console.error("Error updating pickup location:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Remove a pickup location of the organization in context
+   */
+  async deletePickupLocation(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { pickupLocationId } = req.params;
+      const pickupLocationIdString = Array.isArray(pickupLocationId)
+        ? pickupLocationId[0]
+        : pickupLocationId;
+
+      await organizationService.deletePickupLocation(
+        user!.orgId!,
+        user!.userId,
+        pickupLocationIdString,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Pickup location removed successfully",
+      });
+    } catch (error: any) {
+      console.error("Error removing pickup location:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * List the package categories of the organization in context
+   */
+  async listPackageCategories(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const categories = await packageService.listCategories(user!.orgId!);
+
+      return res.status(200).json({
+        success: true,
+        data: categories,
+      });
+    } catch (error: any) {
+      console.error("Error fetching package categories:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Add a package category to the organization in context
+   */
+  async createPackageCategory(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+
+      const category = await packageService.createCategory(
+        user!.orgId!,
+        user!.userId,
+        req.body,
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: "Package category created successfully",
+        data: category,
+      });
+    } catch (error: any) {
+      console.error("Error creating package category:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update a package category of the organization in context
+   */
+  async updatePackageCategory(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { categoryId } = req.params;
+      const categoryIdString = Array.isArray(categoryId)
+        ? categoryId[0]
+        : categoryId;
+
+      const category = await packageService.updateCategory(
+        user!.orgId!,
+        user!.userId,
+        categoryIdString,
+        req.body,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Package category updated successfully",
+        data: category,
+      });
+    } catch (error: any) {
+      console.error("Error updating package category:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  /**
+   * Remove a package category of the organization in context
+   */
+  async deletePackageCategory(req: AuthRequest, res: Response) {
+    try {
+      const { user } = req;
+      const { categoryId } = req.params;
+      const categoryIdString = Array.isArray(categoryId)
+        ? categoryId[0]
+        : categoryId;
+
+      await packageService.deleteCategory(
+        user!.orgId!,
+        user!.userId,
+        categoryIdString,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Package category removed successfully",
+      });
+    } catch (error: any) {
+      console.error("Error removing package category:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
 }
@@ -4,6 +4,7 @@ import {
   riderService,
   UpdateRiderStatusInput,
 } from "../services/rider.service.js";
+import { fleetService } from "../services/fleet.service.js";
 
 export class RiderController {
   /**
@@ -47,6 +48,44 @@ export class RiderController {
     }
   }
 
+  /**
+   * Get the live position and current order of the organization's riders
+   */
+  async getLiveRiders(req: AuthRequest, res: Response) {
+    try {
+      const user = req.user;
+      if (!user || !user.orgId) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized: Organization context required",
+        });
+      }
+
+      const filter = req.query.filter ?? "active";
+      if (filter !== "active" && filter !== "on_order") {
+        return res.status(400).json({
+          success: false,
+          message: 'filter must be "active" or "on_order"',
+        });
+      }
+
+      const riders = await fleetService.getLiveRiders(user.orgId, filter);
+
+      return res.status(200).json({
+        success: true,
+        data: riders,
+        count: riders.length,
+        online: riders.filter((rider) => rider.online).length,
+      });
+    } catch (error: any) {
+      console.error("Error in getLiveRiders:", error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || "Failed to fetch live riders",
+      });
+    }
+  }
+
   /**
    * Get a single rider by ID
    */
@@ -499,6 +538,50 @@ export class RiderController {
       });
     }
   }
+
+  /**
+   * Get the rider's own vehicle
+   */
+  async getVehicle(req: AuthRequest, res: Response) {
+    try {
+      const vehicle = await riderService.getVehicle(req.user!.userId);
+
+      return res.status(200).json({
+        success: true,
+        data: vehicle,
+      });
+    } catch (error: any) {
+      console.error("Error in getVehicle:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message || "Failed to fetch vehicle",
+      });
+    }
+  }
+
+  /**
+   * Describe the rider's own vehicle and its capacity
+   */
+  async updateVehicle(req: AuthRequest, res: Response) {
+    try {
+      const vehicle = await riderService.updateVehicle(
+        req.user!.userId,
+        req.body,
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: "Vehicle updated successfully",
+        data: vehicle,
+      });
+    } catch (error: any) {
+      console.error("Error in updateVehicle:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message || "Failed to update vehicle",
+      });
+    }
+  }
 }
 
 export const riderController = new RiderController();
@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import { trackingService } from "../services/tracking.service.js";
+import { getLocationWebSocketServer } from "../websocket/location.server.js";
+import { TrackingStream } from "../websocket/tracking.stream.js";
+
+export class TrackingController {
+  async getTracking(req: Request, res: Response) {
+    try {
+      const { token } = req.params;
+      const tokenString = Array.isArray(token) ? token[0] : token;
+
+      const orderId = trackingService.verifyToken(tokenString);
+      const view = await trackingService.getTrackingView(orderId);
+
+      return res.status(200).json({
+        success: true,
+        data: view,
+      });
+    } catch (error: any) {
+      console.error("Error fetching tracking view:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  async streamTracking(req: Request, res: Response) {
+    let orderId: string;
+    let view;
+
+    try {
+      const { token } = req.params;
+      const tokenString = Array.isArray(token) ? token[0] : token;
+
+      orderId = trackingService.verifyToken(tokenString);
+      view = await trackingService.getTrackingView(orderId);
+    } catch (error: any) {
+      console.error("Error opening tracking stream:", error);
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Stop nginx from buffering the events
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const stream = new TrackingStream(res, orderId);
+    // Watch before the snapshot so no update in between is missed
+    const unwatch = getLocationWebSocketServer()?.watchOrder(orderId, stream);
+
+    res.on("close", () => {
+      unwatch?.();
+      stream.close();
+    });
+
+    stream.sendSnapshot(view);
+  }
+}
+
+export const trackingController = new TrackingController();
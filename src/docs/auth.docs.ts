@@ -204,6 +204,8 @@
  *                 type: string
  *                 example: "Home"
  *               preciseLocation:
+ *                 $ref: '#/components/schemas/GeoPointInput'
+ *               address:
  *                 type: string
  *                 example: "123 Main St, City, Country"
  *         addLocation:
@@ -214,6 +216,8 @@
  *               type: string
  *               example: "Office"
  *             preciseLocation:
+ *               $ref: '#/components/schemas/GeoPointInput'
+ *             address:
  *               type: string
  *               example: "456 Work Ave, City, Country"
  *         removeLocation:
@@ -231,8 +235,78 @@
  *               type: string
  *               example: "Updated Home"
  *             preciseLocation:
- *               type: string
- *               example: "789 New St, City, Country"
+ *               $ref: '#/components/schemas/GeoPointInput'
+ *
+ *     GeoPoint:
+ *       type: object
+ *       properties:
+ *         lat:
+ *           type: number
+ *           example: 40.7128
+ *         lng:
+ *           type: number
+ *           example: -74.006
+ *         accuracy:
+ *           type: number
+ *           nullable: true
+ *           description: Accuracy radius in metres
+ *           example: 12
+ *         heading:
+ *           type: number
+ *           nullable: true
+ *           description: Degrees clockwise from true north
+ *           example: 90
+ *         speed:
+ *           type: number
+ *           nullable: true
+ *           description: Metres per second
+ *           example: 6.5
+ *         recordedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     GeoPointInput:
+ *       description: |
+ *         A location in any of these forms; all are stored as a GeoPoint.
+ *         `recordedAt` defaults to the time the server receives it.
+ *       oneOf:
+ *         - $ref: '#/components/schemas/GeoPoint'
+ *         - type: object
+ *           description: Position from the device location API
+ *           properties:
+ *             coords:
+ *               type: object
+ *               properties:
+ *                 latitude:
+ *                   type: number
+ *                 longitude:
+ *                   type: number
+ *                 accuracy:
+ *                   type: number
+ *                 heading:
+ *                   type: number
+ *                 speed:
+ *                   type: number
+ *             timestamp:
+ *               type: number
+ *               description: Milliseconds since epoch
+ *         - type: string
+ *           description: Legacy "lat,lng" string
+ *           example: "40.7128,-74.0060"
+ *
+ *     SavedLocation:
+ *       type: object
+ *       properties:
+ *         label:
+ *           type: string
+ *           example: "Home"
+ *         preciseLocation:
+ *           allOf:
+ *             - $ref: '#/components/schemas/GeoPoint'
+ *           nullable: true
+ *         address:
+ *           type: string
+ *           nullable: true
  *
  *     # Invitation Management Schemas
  *     ResendRiderInvitation:
@@ -375,14 +449,10 @@
  *           type: array
  *           description: Customer saved locations (only for customers)
  *           items:
- *             type: object
- *             properties:
- *               label:
- *                 type: string
- *               preciseLocation:
- *                 type: string
+ *             $ref: '#/components/schemas/SavedLocation'
  *         currentLocation:
- *           type: string
+ *           allOf:
+ *             - $ref: '#/components/schemas/GeoPoint'
  *           nullable: true
  *           description: For riders only - real-time location
  *         createdAt:
@@ -461,14 +531,10 @@
  *                   type: array
  *                   description: Customer saved locations (only for customers)
  *                   items:
- *                     type: object
- *                     properties:
- *                       label:
- *                         type: string
- *                       preciseLocation:
- *                         type: string
+ *                     $ref: '#/components/schemas/SavedLocation'
  *                 currentLocation:
- *                   type: string
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/GeoPoint'
  *                   nullable: true
  *                   description: Rider current location (only for riders)
  *                 organizations:
@@ -1079,6 +1145,65 @@
  *         $ref: '#/components/responses/UnauthorizedError'
  */
 
+/**
+ * @swagger
+ * /api/auth/ws-ticket:
+ *   post:
+ *     summary: Get a WebSocket ticket
+ *     tags: [Auth]
+ *     description: |
+ *       Protected endpoint - Issues a single-use ticket, valid for 60 seconds, for opening the
+ *       live location WebSocket: `ws(s)://<host>/?orderId=<orderId>&ticket=<ticket>`.
+ *       The user and role are taken from the ticket; `userId` and `role` query parameters are ignored.
+ *       Sockets are closed when the user logs out or changes or resets their password.
+ *
+ *       Each order is a room that any number of sockets may join, so several owner tabs or
+ *       dashboards can follow the same order. Every status change of the order (release of a scheduled
+ *       order, accept, location set, pickup, start, arrival, delivery, cancellation, reassignment) is sent as
+ *       `{ type: "status_update", orderId, status, timestamp }`. Only riders may publish locations and only riders
+ *       receive `geofence_prompt` messages. Owners can watch every order of the ticket's
+ *       organization on one socket with `ws(s)://<host>/?scope=org&ticket=<ticket>`; each message
+ *       carries its `orderId`.
+ *       `?scope=fleet&ticket=<ticket>` streams the organization's live rider map instead
+ *       (see GET /api/riders/live).
+ *
+ *       Riders publish a location as a GeoPointInput, or a buffered batch as an array or
+ *       `{ points: [...] }`, under the same rules as POST /api/orders/{orderId}/update-location.
+ *       The rider is answered with `{ type: "location_ack", orderId, accepted, stored, rejected, currentLocation }`.
+ *
+ *       The server pings every 30 seconds and drops sockets that did not answer the previous ping.
+ *
+ *       Clients may connect to any API instance. When several instances run, set `WS_PUBSUB=postgres`
+ *       so updates reach sockets held by the other instances through Postgres LISTEN/NOTIFY.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: WebSocket ticket issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "WebSocket ticket issued"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     ticket:
+ *                       type: string
+ *                     expiresIn:
+ *                       type: integer
+ *                       description: Seconds until the ticket expires
+ *                       example: 60
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -1188,14 +1313,10 @@
  *                     locations:
  *                       type: array
  *                       items:
- *                         type: object
- *                         properties:
- *                           label:
- *                             type: string
- *                           preciseLocation:
- *                             type: string
+ *                         $ref: '#/components/schemas/SavedLocation'
  *                     currentLocation:
- *                       type: string
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/GeoPoint'
  *                       nullable: true
  *                     role:
  *                       type: string
@@ -0,0 +1,246 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Batches
+ *   description: Multi-stop runs grouping several orders for one rider
+ *
+ * @swagger
+ * components:
+ *   parameters:
+ *     batchIdPath:
+ *       in: path
+ *       name: batchId
+ *       required: true
+ *       schema:
+ *         type: string
+ *         format: uuid
+ *   schemas:
+ *     BatchStop:
+ *       type: object
+ *       properties:
+ *         stopNumber:
+ *           type: integer
+ *           example: 3
+ *         orderId:
+ *           type: string
+ *           format: uuid
+ *         orderNumber:
+ *           type: string
+ *         status:
+ *           type: string
+ *           example: package_picked_up
+ *         customerLocationLabel:
+ *           type: string
+ *           nullable: true
+ *         customerLocationPrecise:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/GeoPoint'
+ *         customerName:
+ *           type: string
+ *           nullable: true
+ *         customerPhone:
+ *           type: string
+ *           nullable: true
+ *     DeliveryBatch:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         orgId:
+ *           type: string
+ *           format: uuid
+ *         riderId:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [planned, in_progress, completed]
+ *         totalStops:
+ *           type: integer
+ *           example: 5
+ *         currentStop:
+ *           type: integer
+ *           nullable: true
+ *           description: Number of the first stop not yet delivered or cancelled
+ *         pickup:
+ *           $ref: '#/components/schemas/PickupPoint'
+ *         stops:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BatchStop'
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/batches:
+ *   post:
+ *     tags: [Batches]
+ *     summary: Create a multi-stop batch
+ *     description: |
+ *       Groups 2 to 20 orders already assigned to one rider into a batch. The orders must not be
+ *       scheduled, delivered, cancelled or in another batch, and must share the same pickup
+ *       location. The rider may only have one batch that is planned or in progress. Stops are
+ *       ordered by nearest neighbour from the pickup; stops without a precise location go last.
+ *
+ *       Every order in a batch reports `batchStop` (`stopNumber`, `totalStops` and `stopsAhead`)
+ *       in `GET /orders` and `GET /orders/{orderId}`, so customers can see "stop 3 of 5".
+ *       An order reassigned to another rider leaves its batch, and the batch is completed once
+ *       every stop is delivered or cancelled.
+ *       **Only organization owners can create batches.**
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - riderId
+ *               - orderIds
+ *             properties:
+ *               riderId:
+ *                 type: string
+ *                 format: uuid
+ *               orderIds:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       201:
+ *         description: Batch created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeliveryBatch'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /api/batches/current:
+ *   get:
+ *     tags: [Batches]
+ *     summary: Get the rider's current batch
+ *     description: Returns the rider's planned or in-progress batch, or null when there is none.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current batch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeliveryBatch'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /api/batches/{batchId}:
+ *   get:
+ *     tags: [Batches]
+ *     summary: Get a batch
+ *     description: Owners can view any batch of the organization; riders only their own.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/batchIdPath'
+ *     responses:
+ *       200:
+ *         description: Batch with its stops in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeliveryBatch'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+
+/**
+ * @swagger
+ * /api/batches/{batchId}/optimize:
+ *   post:
+ *     tags: [Batches]
+ *     summary: Re-plan the stop order
+ *     description: |
+ *       Re-orders the stops still ahead with nearest neighbour. Delivered and cancelled stops, and
+ *       stops the rider is already driving to or standing at, keep their place. The plan starts at
+ *       the pickup while any package is still there and at the rider's current position otherwise.
+ *       Ties go to the lower order ID, so the same positions always give the same order.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/batchIdPath'
+ *     responses:
+ *       200:
+ *         description: Batch with the new stop order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeliveryBatch'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+
+/**
+ * @swagger
+ * /api/batches/{batchId}/advance:
+ *   post:
+ *     tags: [Batches]
+ *     summary: Move on at the current stop
+ *     description: |
+ *       Advances the first stop that is not delivered or cancelled, through the same transitions
+ *       (and notifications) as the single-order endpoints:
+ *       - "confirmed": every confirmed order of the batch is marked picked up
+ *       - "package_picked_up": delivery to the stop is started
+ *       - "in_transit": the rider is marked arrived at the stop
+ *       - "arrived_at_location": rejected; confirm delivery of the order with the customer's code,
+ *         which moves the batch on to the next stop
+ *
+ *       Orders that are not confirmed yet block the batch at their stop.
+ *       **Only the batch's rider can advance it.**
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/batchIdPath'
+ *     responses:
+ *       200:
+ *         description: Batch after the step
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeliveryBatch'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
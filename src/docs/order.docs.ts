@@ -1,3 +1,234 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrderEta:
+ *       type: object
+ *       nullable: true
+ *       description: |
+ *         Estimated arrival of the rider at the customer, returned as `eta` on every order in
+ *         `GET /orders` and `GET /orders/{orderId}`. It is null until both the rider's position and
+ *         the customer's precise location are known, and outside the "confirmed" to "in_transit" steps.
+ *         While the package has not been picked up the distance runs through the organization's
+ *         pickup coordinates.
+ *
+ *         The estimate is the straight-line distance at the organization's `averageSpeedKmh`,
+ *         blended with the rider's speed over the last five minutes of their trail.
+ *         Connected WebSocket clients receive `{ type: "eta_update", eta, timestamp }` whenever
+ *         it moves by a minute or more, and the customer gets a single
+ *         "🛵 Rider Almost There" push once the rider is five minutes away.
+ *       properties:
+ *         distanceKm:
+ *           type: number
+ *           example: 3.214
+ *         speedKmh:
+ *           type: number
+ *           example: 22.5
+ *         etaSeconds:
+ *           type: integer
+ *           example: 514
+ *         estimatedArrivalAt:
+ *           type: string
+ *           format: date-time
+ *         viaPickup:
+ *           type: boolean
+ *           description: True while the estimate still includes the pickup leg
+ *
+ *     DeliveryAttempt:
+ *       type: object
+ *       description: |
+ *         A failed delivery attempt, listed oldest first as `deliveryAttempts` in
+ *         `GET /orders/{orderId}`
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         attemptNumber:
+ *           type: integer
+ *           example: 1
+ *         reason:
+ *           type: string
+ *           enum: [customer_not_home, wrong_address, customer_refused, location_inaccessible, package_damaged, other]
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         photoUrl:
+ *           type: string
+ *           nullable: true
+ *         location:
+ *           $ref: '#/components/schemas/GeoPoint'
+ *         riderId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreateOrderDTO:
+ *       type: object
+ *       required:
+ *         - packageDescription
+ *         - customerId
+ *       properties:
+ *         packageDescription:
+ *           type: string
+ *           example: "Documents envelope"
+ *         customerId:
+ *           type: string
+ *           format: uuid
+ *         riderId:
+ *           type: string
+ *           format: uuid
+ *           description: Leave out to put the order in the open pool
+ *         autoAssign:
+ *           type: boolean
+ *           description: Let the dispatcher pick the rider (cannot be combined with `riderId`)
+ *         scheduledFor:
+ *           type: string
+ *           format: date-time
+ *           description: Booked delivery time; defaults to `windowStart`
+ *         windowStart:
+ *           type: string
+ *           format: date-time
+ *           description: Start of the delivery window; requires `windowEnd`
+ *           example: "2026-10-20T10:00:00Z"
+ *         windowEnd:
+ *           type: string
+ *           format: date-time
+ *           description: End of the delivery window; requires `windowStart`
+ *           example: "2026-10-20T12:00:00Z"
+ *         pickupLocationId:
+ *           type: string
+ *           format: uuid
+ *           description: |
+ *             One of the organization's active pickup locations. Leave out to collect from the
+ *             organization's own address. Orders report the resolved place as `pickup`.
+ *         packageDetails:
+ *           $ref: '#/components/schemas/PackageDetails'
+ *         locationLabel:
+ *           type: string
+ *           description: |
+ *             Label of one of the customer's saved locations to deliver to. The order then starts in
+ *             "customer_location_set". Leave out to let the customer set the location in the app.
+ *           example: "Home"
+ *     OrderImportRow:
+ *       type: object
+ *       required:
+ *         - customer
+ *         - packageDescription
+ *       properties:
+ *         customer:
+ *           type: string
+ *           description: Email or user ID of a verified customer
+ *           example: "ada@example.com"
+ *         rider:
+ *           type: string
+ *           description: |
+ *             Email or user ID of a rider of the organization, "auto" to let the dispatcher pick one,
+ *             or left out for the open pool
+ *           example: "auto"
+ *         packageDescription:
+ *           type: string
+ *           example: "Shoe box"
+ *         locationLabel:
+ *           type: string
+ *           description: Label of one of the customer's saved locations
+ *           example: "Home"
+ *     OrderImportResult:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         mode:
+ *           type: string
+ *           enum: [atomic, partial]
+ *         committed:
+ *           type: boolean
+ *           description: Whether the created rows were saved
+ *         total:
+ *           type: integer
+ *           example: 120
+ *         created:
+ *           type: integer
+ *           example: 118
+ *         failed:
+ *           type: integer
+ *           example: 2
+ *         rows:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               row:
+ *                 type: integer
+ *                 description: 1-based; the first row after the CSV header is row 1
+ *               status:
+ *                 type: string
+ *                 enum: [created, valid, failed]
+ *                 description: |
+ *                   "valid" rows passed every check but were not created, because the import was a
+ *                   dry run or an atomic import with failed rows
+ *               orderId:
+ *                 type: string
+ *                 format: uuid
+ *               orderNumber:
+ *                 type: string
+ *               error:
+ *                 type: string
+ *                 example: "Customer not found or not verified"
+ *     PackageDetails:
+ *       type: object
+ *       description: |
+ *         Structured package attributes, all optional. Orders report them as `packageCategoryId`,
+ *         `packageLengthCm`, `packageWidthCm`, `packageHeightCm`, `packageWeightKg`, `declaredValue`,
+ *         `isFragile`, `isPerishable`, `itemCount` and `packagePhotos` (uploaded `url` and `publicId`).
+ *       properties:
+ *         categoryId:
+ *           type: string
+ *           format: uuid
+ *           description: One of the organization's active package categories
+ *         lengthCm:
+ *           type: number
+ *           maximum: 1000
+ *           description: Give length, width and height together
+ *           example: 40
+ *         widthCm:
+ *           type: number
+ *           maximum: 1000
+ *           example: 30
+ *         heightCm:
+ *           type: number
+ *           maximum: 1000
+ *           example: 20
+ *         weightKg:
+ *           type: number
+ *           maximum: 10000
+ *           example: 4.5
+ *         declaredValue:
+ *           type: number
+ *           minimum: 0
+ *           description: Value of the contents in the organization's currency
+ *           example: 25000
+ *         isFragile:
+ *           type: boolean
+ *           default: false
+ *         isPerishable:
+ *           type: boolean
+ *           default: false
+ *         itemCount:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *           default: 1
+ *         photos:
+ *           type: array
+ *           maxItems: 5
+ *           items:
+ *             type: string
+ *             description: Base64 encoded data:image/ string
+ */
+
 /**
  * @swagger
  * /orders:
@@ -8,9 +239,29 @@
  *       Create a new delivery order. **Only organization owners can create orders.**
  *       Requires organization context (orgId in user session).
  *
+ *       `riderId` is optional. Orders created without a rider go into the organization's
+ *       open pool, where active riders can list them and claim them.
+ *
+ *       Set `autoAssign: true` (without `riderId`) to let the dispatcher pick a rider. Riders are
+ *       ranked by distance to the organization's pickup coordinates plus a penalty for each order
+ *       they are already carrying. If the offered rider does not accept within the organization's
+ *       `dispatchAcceptWindowSeconds`, the order is offered to the next rider; when no rider is
+ *       left it falls back to the open pool.
+ *
+ *       Set `scheduledFor` and/or `windowStart` + `windowEnd` to book a later delivery. The order is
+ *       held in "scheduled" status, hidden from riders, until the organization's
+ *       `scheduledReleaseLeadMinutes` before the window starts. It is then moved to "pending" (or
+ *       "customer_location_set" if the customer already set a location), dispatched or opened to
+ *       the pool as above, and the customer and rider are sent a reminder. Customers and owners can
+ *       set the location and owners can reassign the rider while it is scheduled. Orders list and
+ *       detail responses include `deliveredOutsideWindow`, true when a delivered order missed its window.
+ *
  *       **Push Notifications Sent:**
  *       - Customer receives: "📦 New Package Assigned - Order {orderNumber}: {packageDescription}"
  *       - Rider receives: "🚴 New Delivery Assignment - Order {orderNumber}: {packageDescription}"
+ *       - Without a rider, all active riders receive: "📦 New Order Available - Order {orderNumber} is open for pickup: {packageDescription}"
+ *       - Scheduled: only the customer receives "📅 Delivery Scheduled - Order {orderNumber} is booked for delivery between {start} and {end}";
+ *         on release the customer receives "⏰ Delivery Coming Up" and the rider "⏰ Scheduled Delivery Released"
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -32,6 +283,130 @@
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
+ *   get:
+ *     tags: [Orders]
+ *     summary: List orders
+ *     description: |
+ *       Lists one page of the orders the user can see: owners every order of the organization,
+ *       riders the released orders assigned to them and customers their own orders. Newest first
+ *       by default.
+ *
+ *       Pages are cursor based. When `pagination.hasMore` is true, pass `pagination.nextCursor`
+ *       back as `cursor`, with the same filters and sort, to get the next page. `totalCount` is
+ *       the number of orders matching the filters across all pages.
+ *
+ *       Any lifecycle timestamp can be filtered with `{field}From` and `{field}To` (inclusive,
+ *       ISO 8601; a bare date means midnight UTC), where `{field}` is one of `createdAt`, `scheduledFor`, `assignedAt`, `riderAcceptedAt`, `customerLocationSetAt`,
+ *       `packagePickedUpAt`, `deliveryStartedAt`, `arrivedAtLocationAt`, `deliveredAt`, `cancelledAt`,
+ *       `deliveryFailedAt`, `returnedAt`, e.g. `deliveredAtFrom=2026-10-01`.
+ *       Orders without the timestamp never match its range.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: false
+ *         description: Comma-separated statuses, e.g. "pending,confirmed"
+ *       - in: query
+ *         name: riderId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *           maxLength: 100
+ *         description: Case-insensitive match anywhere in orderNumber or packageDescription
+ *       - in: query
+ *         name: createdAtFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: createdAtTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: deliveredAtFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: deliveredAtTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, orderNumber, status]
+ *           default: createdAt
+ *         description: Status sorts in lifecycle order
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 25
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: pagination.nextCursor of the previous page
+ *     responses:
+ *       200:
+ *         description: One page of orders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     totalCount:
+ *                       type: integer
+ *                       example: 1342
+ *                     limit:
+ *                       type: integer
+ *                       example: 25
+ *                     hasMore:
+ *                       type: boolean
+ *                       example: true
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
  */
 
 /**
@@ -60,8 +435,7 @@
  *               - currentLocation
  *             properties:
  *               currentLocation:
- *                 type: string
- *                 example: "40.7128,-74.0060"
+ *                 $ref: '#/components/schemas/GeoPointInput'
  *     responses:
  *       200:
  *         description: Order accepted successfully
@@ -85,7 +459,8 @@
  *     summary: Customer set delivery location
  *     description: |
  *       Customer sets their delivery location.
- *       Order must be in "pending" or "rider_accepted" status.
+ *       Order must be in "scheduled", "pending" or "rider_accepted" status; a scheduled order
+ *       stays scheduled and the rider is not notified until it is released.
  *
  *       **Push Notification Sent:**
  *       - Rider receives: "📍 Delivery Location Set - Customer set location to: {locationLabel} ({orderNumber})"
@@ -123,6 +498,8 @@
  *     description: |
  *       Rider marks package as picked up from organization address.
  *       Order must be in "confirmed" status.
+ *       Depending on the organization's `geofenceMode`, this can also happen automatically
+ *       when the rider enters the pickup geofence.
  *
  *       **Push Notification Sent:**
  *       - Customer receives: "📦 Package Picked Up - {riderName} has picked up your package ({orderNumber})"
@@ -153,7 +530,8 @@
  *     summary: Rider start delivery trip
  *     description: |
  *       Rider starts delivery trip to customer location.
- *       Order must be in "package_picked_up" status.
+ *       Order must be in "package_picked_up" status, or "reattempt_scheduled" to set out again
+ *       after a failed attempt.
  *
  *       **Real-time tracking begins from this point.**
  *       Connect via WebSocket to receive location updates.
@@ -194,10 +572,16 @@
  *     description: |
  *       Rider marks arrival at customer delivery address.
  *       Order must be in "in_transit" status.
+ *       Depending on the organization's `geofenceMode`, this can also happen automatically
+ *       when the rider enters the geofence around the customer's precise location.
  *       Real-time tracking stops after this.
  *
- *       **Push Notification Sent:**
+ *       A delivery code is generated for the order and sent to the customer.
+ *       The rider must submit it to confirm the delivery.
+ *
+ *       **Push Notifications Sent:**
  *       - Customer receives: "🎯 Rider Arrived - {riderName} has arrived at your location ({orderNumber})"
+ *       - Customer receives: "🔐 Your Delivery Code - Share code {code} with your rider to receive your package ({orderNumber})"
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -227,12 +611,48 @@
  *       Rider confirms package has been delivered.
  *       Order must be in "arrived_at_location" status.
  *
+ *       The delivery code the customer received when the rider arrived is required.
+ *       Codes expire after 30 minutes and allow 5 attempts. The customer can get a
+ *       fresh code from `GET /orders/{orderId}/delivery-code`.
+ *
+ *       Proof of delivery (photo, signature, recipient name, note) can be attached.
+ *       Photo and signature are base64 encoded images and are uploaded to Cloudinary.
+ *       If the organization has `requireProofOfDelivery` enabled, a photo or signature is mandatory.
+ *
  *       **Push Notification Sent:**
  *       - Customer receives: "✅ Delivery Completed - Your package has been delivered ({orderNumber})"
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - deliveryCode
+ *             properties:
+ *               deliveryCode:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *                 description: 6-digit code shown to the customer in their app
+ *                 example: "482913"
+ *               photo:
+ *                 type: string
+ *                 description: Base64 encoded photo of the delivered package
+ *                 example: "data:image/jpeg;base64,/9j/4AAQSkZJRg..."
+ *               signature:
+ *                 type: string
+ *                 description: Base64 encoded image of the recipient's drawn signature
+ *                 example: "data:image/png;base64,iVBORw0KGgo..."
+ *               recipientName:
+ *                 type: string
+ *                 example: "Jane Doe"
+ *               note:
+ *                 type: string
+ *                 example: "Left with the receptionist"
  *     responses:
  *       200:
  *         description: Delivery confirmed successfully
@@ -248,6 +668,185 @@
  *         $ref: '#/components/responses/ForbiddenError'
  */
 
+/**
+ * @swagger
+ * /orders/{orderId}/failed-attempt:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Rider record a failed delivery attempt
+ *     description: |
+ *       Rider records that the package could not be handed over, e.g. nobody was home or the
+ *       address was wrong. Order must be in "in_transit" or "arrived_at_location" status.
+ *       A note is required when the reason is "other". The photo is a base64 encoded image
+ *       uploaded to Cloudinary.
+ *
+ *       The order moves to "delivery_failed" and waits for an owner to schedule a reattempt or
+ *       return it to the sender. If this was the last attempt the organization allows
+ *       (`maxDeliveryAttempts`, 3 by default), it goes straight on to "returning_to_sender" and
+ *       the rider brings the package back to its pickup point. The delivery code is revoked; a new
+ *       one is sent when the rider arrives again. A batched order leaves its batch.
+ *
+ *       **Notifications Sent:**
+ *       - Customer and organization owners receive a push and an email with the reason
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *               - location
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [customer_not_home, wrong_address, customer_refused, location_inaccessible, package_damaged, other]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Rang twice, no answer"
+ *               photo:
+ *                 type: string
+ *                 description: Base64 encoded photo, e.g. of the door or the address
+ *                 example: "data:image/jpeg;base64,/9j/4AAQSkZJRg..."
+ *               location:
+ *                 $ref: '#/components/schemas/GeoPointInput'
+ *     responses:
+ *       200:
+ *         description: Failed attempt recorded; `data.deliveryAttempt` is the new DeliveryAttempt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/reattempt:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Schedule another delivery attempt
+ *     description: |
+ *       Sends the rider out again with an order in "delivery_failed" status. The order moves to
+ *       "reattempt_scheduled" and the rider sets out with `POST /orders/{orderId}/start-delivery`.
+ *       Pass `locationLabel` to deliver to another of the customer's saved locations, e.g. after a
+ *       wrong address. Rejected once the order has used all of its attempts.
+ *       **Only organization owners can schedule reattempts.**
+ *
+ *       **Notifications Sent:**
+ *       - Customer and the other owners receive a push and an email
+ *       - Rider receives a push
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               locationLabel:
+ *                 type: string
+ *                 example: "Office"
+ *     responses:
+ *       200:
+ *         description: Reattempt scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/return-to-sender:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Return an order to the sender
+ *     description: |
+ *       Gives up on an order in "delivery_failed" or "reattempt_scheduled" status before its
+ *       attempts run out. The order moves to "returning_to_sender" and the rider brings the package
+ *       back to its pickup point. **Only organization owners can return orders.**
+ *
+ *       **Notifications Sent:**
+ *       - Customer and the other owners receive a push and an email
+ *       - Rider receives a push
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Customer unreachable by phone"
+ *     responses:
+ *       200:
+ *         description: Order is being returned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/mark-returned:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Rider mark package returned
+ *     description: |
+ *       Rider marks that the package is back at its pickup point.
+ *       Order must be in "returning_to_sender" status. "returned" is final.
+ *
+ *       **Notifications Sent:**
+ *       - Customer and organization owners receive a push and an email
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     responses:
+ *       200:
+ *         description: Order marked as returned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
 /**
  * @swagger
  * /orders/{orderId}/cancel:
@@ -256,7 +855,9 @@
  *     summary: Cancel an order
  *     description: |
  *       Cancel an order with role-based permissions.
- *       Orders can be cancelled from any state except "delivered".
+ *       Orders can be cancelled from any state except "delivered", "returning_to_sender" and "returned".
+ *       Orders in "delivery_failed" or "reattempt_scheduled" status still have the package with the
+ *       rider and must be returned to sender instead.
  *
  *       **Push Notification Sent:**
  *       - All parties (customer, rider, owner) receive: "❌ Order Cancelled - Order {orderNumber} has been cancelled by {role}"
@@ -278,3 +879,577 @@
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  */
+
+/**
+ * @swagger
+ * /orders/import:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Bulk import orders
+ *     description: |
+ *       Creates up to 500 orders at once. **Only organization owners can import orders.**
+ *
+ *       Send JSON with either `rows` (see OrderImportRow) or `csv`, or post a CSV file as is with
+ *       `Content-Type: text/csv` and the options in the query string. CSV files need a header row
+ *       naming the columns `customer`, `rider`, `packageDescription` and `locationLabel` (case,
+ *       spaces and underscores are ignored, so "Package Description" works too). Empty cells count
+ *       as left out.
+ *
+ *       Every row is checked against the same rules as `POST /orders`. With `dryRun` nothing is
+ *       created and each row reports whether it is valid. In "atomic" mode (the default) nothing
+ *       is created unless every row is valid; in "partial" mode the valid rows are created and the
+ *       others are reported with their error.
+ *
+ *       Notifications for the created orders are sent after the response, grouped per recipient:
+ *       each customer and rider gets one email and one push listing all of their orders, and each
+ *       open pool rider one push for all of the orders left unassigned.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: CSV uploads only; JSON bodies set `dryRun` in the body
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [atomic, partial]
+ *         description: CSV uploads only; JSON bodies set `mode` in the body
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rows:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   $ref: '#/components/schemas/OrderImportRow'
+ *               csv:
+ *                 type: string
+ *                 example: "customer,rider,packageDescription,locationLabel\nada@example.com,auto,Shoe box,Home"
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *               mode:
+ *                 type: string
+ *                 enum: [atomic, partial]
+ *                 default: atomic
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       201:
+ *         description: Orders created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderImportResult'
+ *       200:
+ *         description: Dry run, or nothing was created; see the row results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/OrderImportResult'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/delivery-code:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Customer get delivery code
+ *     description: |
+ *       Returns the code the customer must hand to the rider to confirm delivery.
+ *       Order must be in "arrived_at_location" status.
+ *       A new code is issued if the current one has expired or its attempts are used up.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     responses:
+ *       200:
+ *         description: Delivery code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     code:
+ *                       type: string
+ *                       example: "482913"
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     attemptsRemaining:
+ *                       type: integer
+ *                       example: 5
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/timeline:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get order timeline
+ *     description: |
+ *       Returns every recorded lifecycle event of an order, oldest first.
+ *       Each event records the acting role, the status change, the rider location at that moment and metadata.
+ *
+ *       **Redaction by role:**
+ *       - Owners see everything, including the acting user's ID
+ *       - Riders see everything except the acting user's ID
+ *       - Customers see event types, statuses and times, plus reasons, location labels and attempt numbers only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     responses:
+ *       200:
+ *         description: Order timeline
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     orderId:
+ *                       type: string
+ *                       format: uuid
+ *                     orderNumber:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           eventType:
+ *                             type: string
+ *                             enum: [order_created, status_changed, customer_location_set, order_cancelled, delivery_failed, reattempt_scheduled, returning_to_sender]
+ *                           actorRole:
+ *                             type: string
+ *                             enum: [owner, rider, customer, system]
+ *                           actorId:
+ *                             type: string
+ *                             format: uuid
+ *                             description: Owners only
+ *                           fromStatus:
+ *                             type: string
+ *                             nullable: true
+ *                           toStatus:
+ *                             type: string
+ *                             nullable: true
+ *                           riderLocation:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Owners and riders only
+ *                           metadata:
+ *                             type: object
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/reassign:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Owner reassign order to another rider
+ *     description: |
+ *       Moves an in-flight order to another rider without cancelling it, so the order number is kept.
+ *       **Only organization owners can reassign orders.**
+ *
+ *       Orders can only be reassigned until the rider picks the package up. From "package_picked_up"
+ *       onwards, and for delivered, cancelled or returned orders, the request is rejected.
+ *
+ *       The new rider must be an active, non-suspended rider of the organization.
+ *       The order goes back to "customer_location_set" if the customer has set a location, otherwise to "pending".
+ *       The new rider must then accept it again.
+ *       Any live WebSocket session of the previous rider for this order is closed.
+ *
+ *       **Push Notifications Sent:**
+ *       - Previous rider receives: "🔄 Delivery Reassigned - Order {orderNumber} has been reassigned to another rider"
+ *       - New rider receives: "🚴 New Delivery Assignment - Order {orderNumber} has been reassigned to you"
+ *       - Customer receives: "🔄 New Rider Assigned - {riderName} is now handling your delivery ({orderNumber})"
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - riderId
+ *             properties:
+ *               riderId:
+ *                 type: string
+ *                 format: uuid
+ *               reason:
+ *                 type: string
+ *                 example: "Original rider is not responding"
+ *     responses:
+ *       200:
+ *         description: Order reassigned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/by-number/{orderNumber}:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get order by order number
+ *     description: |
+ *       Looks an order up by the number on its labels and receipts, e.g. "ACME-000123", and
+ *       returns the same details as `GET /orders/{orderId}`. Matching ignores case. Owners find
+ *       the orders of their organization, riders the released orders assigned to them and
+ *       customers their own orders.
+ *
+ *       Order numbers are unique within an organization: each one counts up from 1 with the
+ *       prefix set in the organization's `orderNumberPrefix` setting. A customer whose orders
+ *       from two organizations share a number gets a 400 and must open the order by ID.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderNumber
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "ACME-000123"
+ *     responses:
+ *       200:
+ *         description: Order details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/available:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Rider list open orders
+ *     description: |
+ *       Lists the orders in the rider's organization that have no rider yet, oldest first,
+ *       each with the `pickup` point (see PickupPoint) the package is collected from.
+ *       Only active, non-suspended riders can see the open pool.
+ *
+ *       Each order lists the limits of the rider's vehicle it breaks in `exceedsVehicleCapacity`
+ *       ("weight" and/or "size"; empty when it fits). See `PUT /api/riders/vehicle`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: fitsVehicle
+ *         schema:
+ *           type: boolean
+ *         description: Leave out orders that exceed the rider's vehicle capacity
+ *     responses:
+ *       200:
+ *         description: Open orders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/claim:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Rider claim open order
+ *     description: |
+ *       Rider claims an order from the open pool and accepts it in the same step.
+ *       Order must have no rider and be in "pending" or "customer_location_set" status.
+ *       Only one rider can win a claim; the others get "Order has already been claimed by another rider".
+ *       Orders that exceed the rider's vehicle capacity cannot be claimed.
+ *
+ *       **Push Notification Sent:**
+ *       - Customer receives: "✅ Rider Accepted Order - {riderName} has accepted your delivery ({orderNumber})"
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentLocation
+ *             properties:
+ *               currentLocation:
+ *                 $ref: '#/components/schemas/GeoPointInput'
+ *     responses:
+ *       200:
+ *         description: Order claimed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/decline:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Rider decline an order their vehicle cannot carry
+ *     description: |
+ *       Hands back an order assigned to the rider that is not accepted yet ("pending" or
+ *       "customer_location_set") and exceeds the rider's vehicle capacity. Other orders cannot
+ *       be declined. The decline is recorded on the order timeline as "rider_declined".
+ *
+ *       Auto-assigned orders are offered to the next rider whose vehicle fits; other orders go
+ *       back to the open pool and the organization's riders are notified.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     responses:
+ *       200:
+ *         description: Order declined successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/dispatch-log:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Owner get dispatch decisions of an order
+ *     description: |
+ *       Returns every automatic dispatch decision made for the order, oldest first: the rider offered,
+ *       their score, distance and workload, the ranked candidate list at that moment, and how the
+ *       offer ended (`offered`, `accepted`, `declined`, `timed_out`, `superseded` or `exhausted`).
+ *       Riders whose vehicle cannot carry the package are skipped and marked in `exceedsVehicleCapacity`.
+ *       **Only organization owners can view the dispatch log.**
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     responses:
+ *       200:
+ *         description: Dispatch decisions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/route:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the rider's recorded route for an order
+ *     description: |
+ *       Returns the rider's location trail for the order, oldest point first, as a list of points
+ *       and as a GeoJSON `Feature` with a `LineString` geometry (positions are `[lng, lat]`).
+ *       `totalDistanceKm` is the length of the trail.
+ *
+ *       Pings closer than 10 m to the previous point are dropped unless a minute has passed,
+ *       and trails of delivered or cancelled orders are deleted after the retention period
+ *       (`LOCATION_HISTORY_RETENTION_DAYS`, 90 days by default).
+ *
+ *       **Owners** can view the route at any time; **customers** only once the order is delivered.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     responses:
+ *       200:
+ *         description: Order route
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+
+/**
+ * @swagger
+ * /orders/{orderId}/update-location:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Rider report location
+ *     description: |
+ *       Rider reports their position while the order is confirmed, picked up, in transit or
+ *       arrived. Send one point as `currentLocation`, or points buffered while offline as
+ *       `locations` (at most 100).
+ *
+ *       Points are deduplicated and sorted by their `recordedAt`. Points recorded before the order
+ *       was confirmed, more than 2 minutes in the future, or further from the previous point than
+ *       180 km/h allows are rejected and listed with a reason. Accepted points are added to the
+ *       route; only the newest one becomes the rider's current location, and only when it is newer
+ *       than the position already stored.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/orderIdPath'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currentLocation:
+ *                 $ref: '#/components/schemas/GeoPointInput'
+ *               locations:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   $ref: '#/components/schemas/GeoPointInput'
+ *     responses:
+ *       200:
+ *         description: Location processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accepted:
+ *                       type: integer
+ *                     stored:
+ *                       type: integer
+ *                       description: Accepted points added to the route
+ *                     rejected:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           recordedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           reason:
+ *                             type: string
+ *                             enum: [duplicate, before_confirmed, in_future, implausible_speed]
+ *                     currentLocation:
+ *                       nullable: true
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/GeoPoint'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
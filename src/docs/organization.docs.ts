@@ -0,0 +1,579 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Organizations
+ *   description: Organization profile and settings
+ *
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrganizationSettings:
+ *       type: object
+ *       properties:
+ *         requireProofOfDelivery:
+ *           type: boolean
+ *           description: Riders must attach a photo or signature when confirming delivery
+ *           example: false
+ *         dispatchAcceptWindowSeconds:
+ *           type: integer
+ *           minimum: 30
+ *           maximum: 3600
+ *           description: How long an auto-dispatched rider has to accept before the order moves to the next rider
+ *           example: 120
+ *         averageSpeedKmh:
+ *           type: number
+ *           minimum: 5
+ *           maximum: 120
+ *           description: Typical rider speed used to estimate delivery ETAs
+ *           example: 25
+ *         geofenceMode:
+ *           type: string
+ *           enum: [off, prompt, auto]
+ *           description: |
+ *             What happens when a rider enters the pickup geofence while "confirmed" or the
+ *             customer's geofence while "in_transit": nothing (`off`), a `geofence_prompt`
+ *             WebSocket message and push asking the rider to tap (`prompt`), or an automatic
+ *             move to "package_picked_up" / "arrived_at_location" (`auto`). Automatic moves are
+ *             recorded on the order timeline with `metadata.source` set to "geofence".
+ *           example: prompt
+ *         geofenceRadiusMeters:
+ *           type: integer
+ *           minimum: 20
+ *           maximum: 2000
+ *           description: Radius of the pickup and drop-off geofences
+ *           example: 100
+ *         scheduledReleaseLeadMinutes:
+ *           type: integer
+ *           minimum: 5
+ *           maximum: 1440
+ *           description: |
+ *             How long before a scheduled delivery's window opens the order leaves "scheduled" and
+ *             is released to its rider (or dispatched, or put in the open pool)
+ *           example: 60
+ *         orderNumberPrefix:
+ *           type: string
+ *           pattern: '^[A-Za-z0-9]{1,10}$'
+ *           description: |
+ *             Start of the organization's order numbers, stored in upper case. Numbers count up
+ *             from 1 per organization, e.g. "ACME-000123". Changing it only affects new orders.
+ *           example: ACME
+ *         maxDeliveryAttempts:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           description: |
+ *             Failed delivery attempts an order may have. The attempt that reaches this number
+ *             sends the order back to the sender instead of waiting for a reattempt.
+ *           example: 3
+ *     PickupLocationInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Ikeja warehouse"
+ *         address:
+ *           type: string
+ *           nullable: true
+ *           example: "4 Allen Avenue, Ikeja"
+ *         coordinates:
+ *           $ref: '#/components/schemas/GeoPointInput'
+ *         contactName:
+ *           type: string
+ *           nullable: true
+ *           example: "Tunde"
+ *         contactPhone:
+ *           type: string
+ *           nullable: true
+ *           example: "+2348012345678"
+ *     PickupLocation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         orgId:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         address:
+ *           type: string
+ *           nullable: true
+ *         coordinates:
+ *           $ref: '#/components/schemas/GeoPoint'
+ *         contactName:
+ *           type: string
+ *           nullable: true
+ *         contactPhone:
+ *           type: string
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     PickupPoint:
+ *       type: object
+ *       description: |
+ *         Where the rider collects an order: its pickup location, or the organization's own
+ *         name, address and coordinates when the order has none (`pickupLocationId` is then null)
+ *       properties:
+ *         pickupLocationId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         name:
+ *           type: string
+ *         address:
+ *           type: string
+ *           nullable: true
+ *         coordinates:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/GeoPoint'
+ *         contactName:
+ *           type: string
+ *           nullable: true
+ *         contactPhone:
+ *           type: string
+ *           nullable: true
+ *     PackageCategory:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         orgId:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           example: "Groceries"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /organizations/settings:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: Get organization settings
+ *     description: |
+ *       Returns the settings of the organization in the current token context,
+ *       with defaults applied for any setting that has not been configured.
+ *       **Only organization owners can view settings.**
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organization settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/OrganizationSettings'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ *   patch:
+ *     tags: [Organizations]
+ *     summary: Update organization settings
+ *     description: |
+ *       Partially updates the settings of the organization in the current token context.
+ *       Unknown settings are rejected. **Only organization owners can update settings.**
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrganizationSettings'
+ *     responses:
+ *       200:
+ *         description: Organization settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Organization settings updated successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/OrganizationSettings'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ */
+
+/**
+ * @swagger
+ * /organizations/location:
+ *   put:
+ *     tags: [Organizations]
+ *     summary: Update organization address and pickup coordinates
+ *     description: |
+ *       Sets the address and the pickup coordinates used to rank riders for automatic dispatch.
+ *       **Only organization owners can update the location.**
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               address:
+ *                 type: string
+ *                 example: "12 Market Street, Lagos"
+ *               coordinates:
+ *                 $ref: '#/components/schemas/GeoPointInput'
+ *     responses:
+ *       200:
+ *         description: Organization location updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ */
+
+/**
+ * @swagger
+ * /organizations/pickup-locations:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List pickup locations
+ *     description: |
+ *       Returns the active pickup locations of the organization in the current token context,
+ *       sorted by name. **Only organization owners can view pickup locations.**
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pickup locations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PickupLocation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Add a pickup location
+ *     description: |
+ *       Adds a place riders collect packages from, such as a warehouse or a branch. Orders
+ *       created with its `pickupLocationId` use it for dispatch ranking, ETAs, the pickup
+ *       geofence and batch planning instead of the organization's coordinates.
+ *       **Only organization owners can add pickup locations.**
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/PickupLocationInput'
+ *               - required: [name, coordinates]
+ *     responses:
+ *       201:
+ *         description: Pickup location created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Pickup location created successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/PickupLocation'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ */
+
+/**
+ * @swagger
+ * /organizations/pickup-locations/{pickupLocationId}:
+ *   patch:
+ *     tags: [Organizations]
+ *     summary: Update a pickup location
+ *     description: |
+ *       Partially updates a pickup location. Orders already using it follow the change.
+ *       **Only organization owners can update pickup locations.**
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pickupLocationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PickupLocationInput'
+ *     responses:
+ *       200:
+ *         description: Pickup location updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Pickup location updated successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/PickupLocation'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ *   delete:
+ *     tags: [Organizations]
+ *     summary: Remove a pickup location
+ *     description: |
+ *       Removes a pickup location from the list and from new orders. Existing orders keep
+ *       showing it. **Only organization owners can remove pickup locations.**
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pickupLocationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pickup location removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ */
+
+/**
+ * @swagger
+ * /organizations/package-categories:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List package categories
+ *     description: |
+ *       Returns the active package categories of the organization in the current token context,
+ *       sorted by name. **Only organization owners can view package categories.**
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Package categories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PackageCategory'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Add a package category
+ *     description: |
+ *       Adds a category orders can be filed under with `packageDetails.categoryId`. Names are
+ *       unique within the organization, ignoring case.
+ *       **Only organization owners can add package categories.**
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Groceries"
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Package category created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Package category created successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/PackageCategory'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ */
+
+/**
+ * @swagger
+ * /organizations/package-categories/{categoryId}:
+ *   patch:
+ *     tags: [Organizations]
+ *     summary: Update a package category
+ *     description: |
+ *       Renames a package category or changes its description.
+ *       **Only organization owners can update package categories.**
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Package category updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Package category updated successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/PackageCategory'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ *   delete:
+ *     tags: [Organizations]
+ *     summary: Remove a package category
+ *     description: |
+ *       Removes a package category from the list and from new orders. Existing orders keep it.
+ *       **Only organization owners can remove package categories.**
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Package category removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/NotOrgOwnerError'
+ */
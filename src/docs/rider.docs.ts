@@ -83,6 +83,51 @@
  *               type: string
  *               format: date-time
  *
+ *     LiveRider:
+ *       type: object
+ *       properties:
+ *         riderId:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           nullable: true
+ *           example: "John Doe"
+ *         phoneNumber:
+ *           type: string
+ *           nullable: true
+ *         profileImage:
+ *           type: string
+ *           nullable: true
+ *         isActive:
+ *           type: boolean
+ *           description: Whether the rider is on duty (see toggle-activity)
+ *         online:
+ *           type: boolean
+ *           description: On duty and reported a position in the last 5 minutes
+ *         location:
+ *           allOf:
+ *             - $ref: '#/components/schemas/GeoPoint'
+ *           nullable: true
+ *         lastSeenAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         activeOrder:
+ *           type: object
+ *           nullable: true
+ *           description: The rider's most recently updated accepted, undelivered order
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             orderNumber:
+ *               type: string
+ *               example: "ORD-000123"
+ *             status:
+ *               type: string
+ *               example: "in_transit"
+ *
  *     RiderSuspensionInput:
  *       type: object
  *       properties:
@@ -340,6 +385,71 @@
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 
+/**
+ * @swagger
+ * /api/riders/live:
+ *   get:
+ *     summary: Get the live fleet map
+ *     tags: [Riders]
+ *     description: |
+ *       Returns the latest position, current order and online state of the organization's riders.
+ *       Suspended and deactivated riders are left out.
+ *       **REQUIRES OWNER ROLE**
+ *
+ *       For live updates open the WebSocket with `?scope=fleet&ticket=<ticket>`. It sends a
+ *       `{ type: "fleet_snapshot", riders }` message with the same data right away, then
+ *       `{ type: "rider_update", rider }` whenever a rider moves, changes order status or goes on or off duty.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: filter
+ *         schema:
+ *           type: string
+ *           enum: [active, on_order]
+ *           default: active
+ *         description: "`active`: riders on duty or out on an order; `on_order`: only riders out on an order"
+ *     responses:
+ *       200:
+ *         description: Live riders retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LiveRider'
+ *                 count:
+ *                   type: integer
+ *                   example: 4
+ *                 online:
+ *                   type: integer
+ *                   example: 3
+ *       400:
+ *         description: Invalid filter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - User is not an owner of the organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+
 /**
  * @swagger
  * /api/riders/{riderId}:
@@ -905,3 +1015,119 @@
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RiderVehicle:
+ *       type: object
+ *       required:
+ *         - type
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [bicycle, motorcycle, car, van, truck]
+ *         maxWeightKg:
+ *           type: number
+ *           nullable: true
+ *           description: Heaviest package the vehicle can carry; null for no limit
+ *           example: 20
+ *         maxLengthCm:
+ *           type: number
+ *           nullable: true
+ *           description: Longest side of a package that fits; null for no limit
+ *           example: 60
+ */
+
+/**
+ * @swagger
+ * /api/riders/vehicle:
+ *   get:
+ *     summary: Get the rider's vehicle
+ *     tags: [Riders]
+ *     description: Returns the vehicle the rider has described, or null. **RIDER SELF-SERVICE ONLY**
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rider vehicle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RiderVehicle'
+ *       401:
+ *         description: Unauthorized - Invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - User is not a rider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   put:
+ *     summary: Describe the rider's vehicle
+ *     tags: [Riders]
+ *     description: |
+ *       Sets the rider's vehicle and what it can carry. **RIDER SELF-SERVICE ONLY**
+ *
+ *       Orders whose package is heavier than `maxWeightKg`, or whose longest side is longer than
+ *       `maxLengthCm`, exceed the vehicle's capacity. Such orders:
+ *       - are flagged with `exceedsVehicleCapacity` in `GET /orders/available`, and left out with `?fitsVehicle=true`
+ *       - cannot be claimed from the open pool
+ *       - can be handed back with `POST /orders/{orderId}/decline` while not yet accepted
+ *       - are never offered to the rider by automatic dispatch
+ *
+ *       Packages without a weight or dimensions always fit.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RiderVehicle'
+ *     responses:
+ *       200:
+ *         description: Vehicle updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Vehicle updated successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/RiderVehicle'
+ *       400:
+ *         description: Invalid vehicle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized - Invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - User is not a rider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
@@ -0,0 +1,160 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Tracking
+ *   description: Public tracking links for recipients without an account or the app
+ *
+ * @swagger
+ * components:
+ *   parameters:
+ *     trackingTokenPath:
+ *       in: path
+ *       name: token
+ *       required: true
+ *       description: Signed token from the order's tracking link. Expires after 30 days.
+ *       schema:
+ *         type: string
+ *   schemas:
+ *     TrackingLocation:
+ *       type: object
+ *       properties:
+ *         lat:
+ *           type: number
+ *           example: 6.5244
+ *         lng:
+ *           type: number
+ *           example: 3.3792
+ *         recordedAt:
+ *           type: string
+ *           format: date-time
+ *     TrackingView:
+ *       type: object
+ *       description: |
+ *         What anyone holding the link may see. The customer, the delivery location and the
+ *         rider's contact details are left out.
+ *       properties:
+ *         orderNumber:
+ *           type: string
+ *           example: ORD-000123
+ *         status:
+ *           type: string
+ *           example: in_transit
+ *         organizationName:
+ *           type: string
+ *         packageDescription:
+ *           type: string
+ *         scheduledFor:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         windowStart:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         windowEnd:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         rider:
+ *           type: object
+ *           nullable: true
+ *           description: Null until a rider is assigned and the order is released
+ *           properties:
+ *             firstName:
+ *               type: string
+ *               example: Ada
+ *             profileImage:
+ *               type: string
+ *               nullable: true
+ *         eta:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/OrderEta'
+ *         riderLocation:
+ *           nullable: true
+ *           description: Last known rider position, only while in_transit or arrived_at_location
+ *           allOf:
+ *             - $ref: '#/components/schemas/TrackingLocation'
+ *         timeline:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               eventType:
+ *                 type: string
+ *               fromStatus:
+ *                 type: string
+ *                 nullable: true
+ *               toStatus:
+ *                 type: string
+ *                 nullable: true
+ *               createdAt:
+ *                 type: string
+ *                 format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/track/{token}:
+ *   get:
+ *     tags: [Tracking]
+ *     summary: Get an order's public tracking view
+ *     description: |
+ *       Needs no login. The link is sent to the customer in the assignment email and can be
+ *       forwarded to whoever receives the package.
+ *     security: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/trackingTokenPath'
+ *     responses:
+ *       200:
+ *         description: Tracking view
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TrackingView'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ */
+
+/**
+ * @swagger
+ * /api/track/{token}/events:
+ *   get:
+ *     tags: [Tracking]
+ *     summary: Stream an order's tracking view
+ *     description: |
+ *       Server-sent events, read-only and without login. Events:
+ *       - `snapshot`: the full `TrackingView`, sent on connect and after every status change
+ *       - `eta`: a new `OrderEta`
+ *       - `location`: a `TrackingLocation`, only while in_transit or arrived_at_location
+ *
+ *       The stream ends after the snapshot of a delivered, cancelled or returned order.
+ *     security: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/trackingTokenPath'
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: location
+ *                 data: {"lat":6.5244,"lng":3.3792,"recordedAt":"2026-01-01T10:00:00.000Z"}
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ */
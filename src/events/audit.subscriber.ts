@@ -0,0 +1,110 @@
+import { createAuditLog } from "../services/audit.service.js";
+import { orderEvents } from "./order.events.js";
+
+const SUBSCRIBER = "audit";
+
+/**
+ * Write audit log entries for the order changes owners are accountable for
+ */
+export const registerAuditSubscriber = () => {
+  orderEvents.on("order.created", SUBSCRIBER, async ({ order, actorId }) => {
+    await createAuditLog({
+      orgId: order.orgId,
+      userId: actorId ?? undefined,
+      action: "order.created",
+      resourceType: "order",
+      resourceId: order.id,
+      details: {
+        orderNumber: order.orderNumber,
+        riderId: order.riderId,
+        autoAssign: order.autoAssign,
+      },
+      severity: "info",
+    });
+  });
+
+  // Each imported order gets its own entry, as if created one by one
+  orderEvents.on("orders.imported", SUBSCRIBER, async (event) => {
+    await Promise.all(
+      event.orders.map(({ order }) =>
+        createAuditLog({
+          orgId: order.orgId,
+          userId: event.actorId ?? undefined,
+          action: "order.created",
+          resourceType: "order",
+          resourceId: order.id,
+          details: {
+            orderNumber: order.orderNumber,
+            riderId: order.riderId,
+            autoAssign: order.autoAssign,
+            imported: true,
+          },
+          severity: "info",
+        }),
+      ),
+    );
+  });
+
+  orderEvents.on("order.cancelled", SUBSCRIBER, async (event) => {
+    await createAuditLog({
+      orgId: event.order.orgId,
+      userId: event.actorId ?? undefined,
+      action: "order.cancelled",
+      resourceType: "order",
+      resourceId: event.order.id,
+      details: {
+        previousStatus: event.fromStatus,
+        cancelledBy: event.actorRole,
+        reason: event.reason,
+      },
+      severity: "info",
+    });
+  });
+
+  orderEvents.on("order.reassigned", SUBSCRIBER, async (event) => {
+    await createAuditLog({
+      orgId: event.order.orgId,
+      userId: event.actorId ?? undefined,
+      action: "order.reassigned",
+      resourceType: "order",
+      resourceId: event.order.id,
+      details: {
+        previousRiderId: event.previousRiderId,
+        newRiderId: event.order.riderId,
+        reason: event.reason,
+      },
+      severity: "info",
+    });
+  });
+
+  orderEvents.on("order.reattempt_scheduled", SUBSCRIBER, async (event) => {
+    await createAuditLog({
+      orgId: event.order.orgId,
+      userId: event.actorId ?? undefined,
+      action: "order.reattempt_scheduled",
+      resourceType: "order",
+      resourceId: event.order.id,
+      details: {
+        attemptNumber: event.order.deliveryAttemptCount + 1,
+        locationLabel: event.locationLabel,
+      },
+      severity: "info",
+    });
+  });
+
+  orderEvents.on("order.returning_to_sender", SUBSCRIBER, async (event) => {
+    await createAuditLog({
+      orgId: event.order.orgId,
+      userId: event.actorId ?? undefined,
+      action: "order.returned_to_sender",
+      resourceType: "order",
+      resourceId: event.order.id,
+      details: {
+        previousStatus: event.fromStatus,
+        failedAttempts: event.order.deliveryAttemptCount,
+        reason: event.reason,
+      },
+      severity: "info",
+    });
+  });
+};
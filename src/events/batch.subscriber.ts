@@ -0,0 +1,43 @@
+import { deliveryBatchService } from "../services/delivery-batch.service.js";
+import { orderEvents } from "./order.events.js";
+
+const SUBSCRIBER = "batches";
+
+/**
+ * Keep multi-stop batches in step with their orders: complete a batch once
+ * its last stop is done and drop orders that move to another rider, are
+ * handed back by theirs or could not be delivered
+ */
+export const registerBatchSubscriber = () => {
+  orderEvents.on("order.delivered", SUBSCRIBER, async ({ order }) => {
+    if (order.batchId) {
+      await deliveryBatchService.syncBatch(order.batchId);
+    }
+  });
+
+  orderEvents.on("order.cancelled", SUBSCRIBER, async ({ order }) => {
+    if (order.batchId) {
+      await deliveryBatchService.syncBatch(order.batchId);
+    }
+  });
+
+  orderEvents.on("order.reassigned", SUBSCRIBER, async ({ order }) => {
+    if (order.batchId) {
+      await deliveryBatchService.removeOrder(order.id, order.batchId);
+    }
+  });
+
+  orderEvents.on("order.declined", SUBSCRIBER, async ({ order }) => {
+    if (order.batchId) {
+      await deliveryBatchService.removeOrder(order.id, order.batchId);
+    }
+  });
+
+  // The rider moves on to the next stop; a reattempt or the return trip is
+  // handled outside the batch
+  orderEvents.on("order.delivery_failed", SUBSCRIBER, async ({ order }) => {
+    if (order.batchId) {
+      await deliveryBatchService.removeOrder(order.id, order.batchId);
+    }
+  });
+};
@@ -0,0 +1,27 @@
+import { etaService } from "../services/eta.service.js";
+import { orderEvents, SingleOrderEventName } from "./order.events.js";
+
+const SUBSCRIBER = "eta";
+
+// After these the order's last pushed ETA no longer applies: the order is
+// finished, off its delivery trip or with another rider
+const ETA_RESET_EVENTS: SingleOrderEventName[] = [
+  "order.delivered",
+  "order.cancelled",
+  "order.returned",
+  "order.returning_to_sender",
+  "order.delivery_failed",
+  "order.reassigned",
+  "order.declined",
+];
+
+/**
+ * Clear the last broadcast ETA of orders that stop being tracked
+ */
+export const registerEtaSubscriber = () => {
+  for (const name of ETA_RESET_EVENTS) {
+    orderEvents.on(name, SUBSCRIBER, async ({ order }) => {
+      await etaService.forgetOrder(order.id);
+    });
+  }
+};
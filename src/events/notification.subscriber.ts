@@ -0,0 +1,578 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../config/database.js";
+import { userOrganizations, users } from "../models/schema.js";
+import { DELIVERY_FAILURE_REASON_LABELS } from "../services/delivery-attempt.service.js";
+import {
+  EmailOptions,
+  sendEmail,
+  sendEmails,
+} from "../services/email.service.js";
+import { organizationService } from "../services/organization.service.js";
+import { pushNotificationService } from "../services/push-notification.service.js";
+import { trackingService } from "../services/tracking.service.js";
+import { OrderEventMap, orderEvents, OrderRecord } from "./order.events.js";
+
+const SUBSCRIBER = "notifications";
+
+const getUser = async (userId: string | null) => {
+  if (!userId) return null;
+
+  return (
+    (await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { id: true, email: true, name: true },
+    })) ?? null
+  );
+};
+
+const getRiderName = async (riderId: string | null) =>
+  (await getUser(riderId))?.name || "Rider";
+
+const deliveryLocationNote = (order: OrderRecord) =>
+  order.customerLocationLabel
+    ? `<p>It will be delivered to your saved location "${order.customerLocationLabel}".</p>`
+    : "<p>Please go to the mobile app to set your delivery location.</p>";
+
+// The tracking page works without the app, so it can be forwarded to
+// whoever actually receives the package
+const trackingLinkNote = (order: OrderRecord) =>
+  `<p>Follow your delivery at <a href="${trackingService.getTrackingLink(order.id)}">this tracking link</a>. You can share it with whoever will receive the package.</p>`;
+
+// Scheduled orders only reach their rider once released
+const sendAssignmentEmails = async (
+  order: OrderRecord,
+  includeRider = true,
+) => {
+  const [customer, rider] = await Promise.all([
+    getUser(order.customerId),
+    includeRider ? getUser(order.riderId) : null,
+  ]);
+
+  const notifications = [];
+
+  if (customer?.email) {
+    notifications.push(
+      sendEmail({
+        to: customer.email,
+        subject: `New Package Assigned - ${order.orderNumber}`,
+        html: `
+            <h2>New Package Assigned</h2>
+            <p>Hello ${customer.name || "Customer"},</p>
+            <p>A new package has been assigned to you:</p>
+            <ul>
+              <li><strong>Order Number:</strong> ${order.orderNumber}</li>
+              <li><strong>Package:</strong> ${order.packageDescription}</li>
+              <li><strong>Assigned Rider:</strong> ${rider ? rider.name || "Rider" : "To be assigned"}</li>
+            </ul>
+            ${deliveryLocationNote(order)}
+            ${trackingLinkNote(order)}
+          `,
+      }),
+    );
+  }
+
+  if (rider?.email) {
+    const pickup = await organizationService.getPickupPoint(order);
+
+    notifications.push(
+      sendEmail({
+        to: rider.email,
+        subject: `New Delivery Assignment - ${order.orderNumber}`,
+        html: `
+            <h2>New Delivery Assignment</h2>
+            <p>Hello ${rider.name || "Rider"},</p>
+            <p>You have been assigned a new delivery:</p>
+            <ul>
+              <li><strong>Order Number:</strong> ${order.orderNumber}</li>
+              <li><strong>Package:</strong> ${order.packageDescription}</li>
+              <li><strong>Customer:</strong> ${customer?.name || "Customer"}</li>
+              <li><strong>Pickup:</strong> ${pickup.name}${pickup.address ? `, ${pickup.address}` : ""}</li>
+              ${pickup.contactName || pickup.contactPhone ? `<li><strong>Pickup Contact:</strong> ${[pickup.contactName, pickup.contactPhone].filter(Boolean).join(", ")}</li>` : ""}
+            </ul>
+            <p>Please go to the mobile app to accept this delivery.</p>
+          `,
+      }),
+    );
+  }
+
+  await Promise.all(notifications);
+};
+
+// Active owners of the order's organization, leaving out the owner who made
+// the change
+const getOrgOwners = async (orgId: string, exceptUserId: string | null) => {
+  const owners = await db
+    .select({ id: users.id, email: users.email, name: users.name })
+    .from(userOrganizations)
+    .innerJoin(users, eq(userOrganizations.userId, users.id))
+    .where(
+      and(
+        eq(userOrganizations.orgId, orgId),
+        eq(userOrganizations.role, "owner"),
+        eq(userOrganizations.isActive, true),
+      ),
+    );
+
+  return owners.filter((owner) => owner.id !== exceptUserId);
+};
+
+/**
+ * Email the customer and the organization's owners about a delivery that
+ * could not be completed. Each gets their own version of the message.
+ */
+const sendDeliveryIssueEmails = async (
+  order: OrderRecord,
+  owners: Array<{ email: string | null; name: string | null }>,
+  subject: string,
+  messages: { customer: string; owner: string },
+) => {
+  const customer = await getUser(order.customerId);
+  const emails: EmailOptions[] = [];
+
+  if (customer?.email) {
+    emails.push({
+      to: customer.email,
+      subject: `${subject} - ${order.orderNumber}`,
+      html: `
+            <h2>${subject}</h2>
+            <p>Hello ${customer.name || "Customer"},</p>
+            ${messages.customer}
+          `,
+    });
+  }
+
+  for (const owner of owners) {
+    if (!owner.email) continue;
+
+    emails.push({
+      to: owner.email,
+      subject: `${subject} - ${order.orderNumber}`,
+      html: `
+            <h2>${subject}</h2>
+            <p>Hello ${owner.name || "Owner"},</p>
+            ${messages.owner}
+          `,
+    });
+  }
+
+  await sendEmails(emails);
+};
+
+type ImportedOrders = OrderEventMap["orders.imported"]["orders"];
+
+const groupOrderNumbers = (
+  entries: Array<[userId: string | null, orderNumber: string]>,
+) => {
+  const groups = new Map<string, string[]>();
+
+  for (const [userId, orderNumber] of entries) {
+    if (!userId) continue;
+    groups.set(userId, [...(groups.get(userId) ?? []), orderNumber]);
+  }
+
+  return groups;
+};
+
+const describeOrdersHtml = (orders: OrderRecord[], withTrackingLinks = false) =>
+  orders
+    .map(
+      (order) =>
+        `<li><strong>${order.orderNumber}:</strong> ${order.packageDescription}${withTrackingLinks ? ` (<a href="${trackingService.getTrackingLink(order.id)}">track</a>)` : ""}</li>`,
+    )
+    .join("");
+
+/**
+ * Notify everyone about a bulk import at once: one email and one push per
+ * customer and rider, however many of the orders are theirs, with the
+ * emails sent in batches
+ */
+const sendImportNotifications = async (imported: ImportedOrders) => {
+  // Scheduled orders reach their rider once released, as for single orders
+  const orders = imported.map(({ order }) => order);
+  const assigned = orders.filter(
+    (order) => order.riderId && order.status !== "scheduled",
+  );
+
+  const customerOrders = groupOrderNumbers(
+    orders.map((order) => [order.customerId, order.orderNumber]),
+  );
+  const riderOrders = groupOrderNumbers(
+    assigned.map((order) => [order.riderId, order.orderNumber]),
+  );
+  const openPoolOrders = groupOrderNumbers(
+    imported.flatMap(({ order, openPoolRiderIds }) =>
+      openPoolRiderIds.map(
+        (riderId) => [riderId, order.orderNumber] as [string, string],
+      ),
+    ),
+  );
+
+  const recipients = await db.query.users.findMany({
+    where: inArray(users.id, [...customerOrders.keys(), ...riderOrders.keys()]),
+    columns: { id: true, email: true, name: true },
+  });
+  const recipientMap = new Map(recipients.map((user) => [user.id, user]));
+
+  // Imports usually share a pickup point, so resolve each one once
+  const pickups = new Map<string, string>();
+  for (const order of assigned) {
+    const key = `${order.orgId}:${order.pickupLocationId}`;
+    if (pickups.has(key)) continue;
+
+    const pickup = await organizationService.getPickupPoint(order);
+    pickups.set(
+      key,
+      `${pickup.name}${pickup.address ? `, ${pickup.address}` : ""}`,
+    );
+  }
+
+  const emails: EmailOptions[] = [];
+
+  for (const customerId of customerOrders.keys()) {
+    const customer = recipientMap.get(customerId);
+    if (!customer?.email) continue;
+
+    const customerOrderList = orders.filter(
+      (order) => order.customerId === customerId,
+    );
+
+    emails.push({
+      to: customer.email,
+      subject:
+        customerOrderList.length === 1
+          ? `New Package Assigned - ${customerOrderList[0].orderNumber}`
+          : `${customerOrderList.length} New Packages Assigned`,
+      html: `
+            <h2>New Packages Assigned</h2>
+            <p>Hello ${customer.name || "Customer"},</p>
+            <p>The following packages have been assigned to you:</p>
+            <ul>${describeOrdersHtml(customerOrderList, true)}</ul>
+            <p>Open the mobile app to follow them and set any delivery locations still missing, or use the tracking links, which work without the app.</p>
+          `,
+    });
+  }
+
+  for (const riderId of riderOrders.keys()) {
+    const rider = recipientMap.get(riderId);
+    if (!rider?.email) continue;
+
+    const riderOrderList = assigned.filter(
+      (order) => order.riderId === riderId,
+    );
+
+    const pickupNames = [
+      ...new Set(
+        riderOrderList.map((order) =>
+          pickups.get(`${order.orgId}:${order.pickupLocationId}`),
+        ),
+      ),
+    ];
+
+    emails.push({
+      to: rider.email,
+      subject:
+        riderOrderList.length === 1
+          ? `New Delivery Assignment - ${riderOrderList[0].orderNumber}`
+          : `${riderOrderList.length} New Delivery Assignments`,
+      html: `
+            <h2>New Delivery Assignments</h2>
+            <p>Hello ${rider.name || "Rider"},</p>
+            <p>You have been assigned the following deliveries:</p>
+            <ul>${describeOrdersHtml(riderOrderList)}</ul>
+            <p><strong>Pickup:</strong> ${pickupNames.join("; ")}</p>
+            <p>Please go to the mobile app to accept these deliveries.</p>
+          `,
+    });
+  }
+
+  await Promise.all([
+    sendEmails(emails),
+    pushNotificationService.notifyOrdersImported(
+      customerOrders,
+      riderOrders,
+      openPoolOrders,
+    ),
+  ]);
+};
+
+/**
+ * Send push notifications and emails for order lifecycle changes
+ */
+export const registerNotificationSubscriber = () => {
+  orderEvents.on("order.created", SUBSCRIBER, async (event) => {
+    const { order } = event;
+
+    if (order.status === "scheduled") {
+      await Promise.all([
+        sendAssignmentEmails(order, false),
+        pushNotificationService.notifyDeliveryScheduled(
+          order.customerId,
+          order.orderNumber,
+          order.windowStart ?? order.scheduledFor!,
+          order.windowEnd,
+        ),
+      ]);
+      return;
+    }
+
+    const results = await Promise.allSettled([
+      sendAssignmentEmails(order),
+      pushNotificationService.notifyOrderCreated(
+        order.customerId,
+        order.riderId,
+        order.orderNumber,
+        order.packageDescription,
+      ),
+      pushNotificationService.notifyOrderAvailable(
+        event.openPoolRiderIds,
+        order.orderNumber,
+        order.packageDescription,
+      ),
+    ]);
+
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error(
+          "Failed to send order created notifications:",
+          result.reason,
+        );
+      }
+    }
+  });
+
+  orderEvents.on("orders.imported", SUBSCRIBER, async (event) => {
+    await sendImportNotifications(event.orders);
+  });
+
+  orderEvents.on("order.released", SUBSCRIBER, async (event) => {
+    const { order } = event;
+
+    await Promise.all([
+      pushNotificationService.notifyScheduledDeliveryReminder(
+        order.customerId,
+        order.riderId,
+        order.orderNumber,
+        order.windowStart ?? order.scheduledFor!,
+        order.windowEnd,
+      ),
+      pushNotificationService.notifyOrderAvailable(
+        event.openPoolRiderIds,
+        order.orderNumber,
+        order.packageDescription,
+      ),
+    ]);
+  });
+
+  orderEvents.on("order.accepted", SUBSCRIBER, async ({ order }) => {
+    await pushNotificationService.notifyRiderAccepted(
+      order.customerId,
+      order.orderNumber,
+      await getRiderName(order.riderId),
+    );
+  });
+
+  orderEvents.on("order.location_set", SUBSCRIBER, async (event) => {
+    // Owners set the location on the customer's behalf, usually on request
+    if (event.actorRole !== "customer" || !event.order.riderId) return;
+    // The rider hears about a scheduled order when it is released
+    if (event.order.status === "scheduled") return;
+
+    await pushNotificationService.notifyLocationSet(
+      event.order.riderId,
+      event.order.orderNumber,
+      event.locationLabel,
+    );
+  });
+
+  orderEvents.on("order.picked_up", SUBSCRIBER, async ({ order }) => {
+    await pushNotificationService.notifyPackagePickedUp(
+      order.customerId,
+      order.orderNumber,
+      await getRiderName(order.riderId),
+    );
+  });
+
+  orderEvents.on("order.delivery_started", SUBSCRIBER, async ({ order }) => {
+    await pushNotificationService.notifyDeliveryStarted(
+      order.customerId,
+      order.orderNumber,
+      await getRiderName(order.riderId),
+    );
+  });
+
+  orderEvents.on("order.arrived", SUBSCRIBER, async ({ order }) => {
+    await pushNotificationService.notifyRiderArrived(
+      order.customerId,
+      order.orderNumber,
+      await getRiderName(order.riderId),
+    );
+  });
+
+  orderEvents.on("order.delivered", SUBSCRIBER, async ({ order }) => {
+    await pushNotificationService.notifyDeliveryCompleted(
+      order.customerId,
+      order.orderNumber,
+    );
+  });
+
+  orderEvents.on("order.cancelled", SUBSCRIBER, async (event) => {
+    const { order } = event;
+    const notifyUsers = [order.customerId];
+    if (order.riderId) {
+      notifyUsers.push(order.riderId);
+    }
+
+    await pushNotificationService.notifyOrderCancelled(
+      notifyUsers,
+      order.orderNumber,
+      event.actorRole,
+    );
+  });
+
+  orderEvents.on("order.reassigned", SUBSCRIBER, async (event) => {
+    const { order } = event;
+    if (order.status === "scheduled") return;
+
+    await pushNotificationService.notifyOrderReassigned(
+      event.previousRiderId,
+      order.riderId!,
+      order.customerId,
+      order.orderNumber,
+      await getRiderName(order.riderId),
+    );
+  });
+
+  orderEvents.on("order.delivery_failed", SUBSCRIBER, async (event) => {
+    const { order } = event;
+    const reason = DELIVERY_FAILURE_REASON_LABELS[event.reason];
+    const returning = order.status === "returning_to_sender";
+    const [owners, riderName] = await Promise.all([
+      getOrgOwners(order.orgId, null),
+      getRiderName(order.riderId),
+    ]);
+
+    await Promise.all([
+      sendDeliveryIssueEmails(order, owners, "Delivery Attempt Failed", {
+        customer: `
+            <p>We could not deliver order <strong>${order.orderNumber}</strong> (${order.packageDescription}): ${reason}.</p>
+            ${
+              returning
+                ? `<p>This was the last of ${event.maxAttempts} delivery attempts, so the package is being returned to the sender.</p>`
+                : `<p>This was attempt ${event.attemptNumber} of ${event.maxAttempts}. Another attempt will be arranged; if your delivery location was wrong, please update your saved locations in the mobile app.</p>
+            ${trackingLinkNote(order)}`
+            }`,
+        owner: `
+            <p>${riderName} could not deliver order <strong>${order.orderNumber}</strong> (${order.packageDescription}).</p>
+            <ul>
+              <li><strong>Reason:</strong> ${reason}</li>
+              <li><strong>Attempt:</strong> ${event.attemptNumber} of ${event.maxAttempts}</li>
+            </ul>
+            ${
+              returning
+                ? "<p>No attempts are left, so the rider is bringing the package back to its pickup point.</p>"
+                : "<p>Schedule a reattempt or return the package to the sender from the dashboard.</p>"
+            }`,
+      }),
+      pushNotificationService.notifyDeliveryFailed(
+        order.customerId,
+        owners.map((owner) => owner.id),
+        order.orderNumber,
+        reason,
+        returning,
+      ),
+    ]);
+  });
+
+  orderEvents.on("order.reattempt_scheduled", SUBSCRIBER, async (event) => {
+    const { order } = event;
+    const owners = await getOrgOwners(order.orgId, event.actorId);
+
+    await Promise.all([
+      sendDeliveryIssueEmails(order, owners, "Delivery Reattempt Scheduled", {
+        customer: `
+            <p>We will try to deliver order <strong>${order.orderNumber}</strong> (${order.packageDescription}) again${
+              event.locationLabel
+                ? `, this time to your saved location "${event.locationLabel}"`
+                : ""
+            }.</p>
+            ${trackingLinkNote(order)}`,
+        owner: `
+            <p>Delivery attempt ${order.deliveryAttemptCount + 1} of order <strong>${order.orderNumber}</strong> has been scheduled${
+              event.locationLabel
+                ? ` to the customer's saved location "${event.locationLabel}"`
+                : ""
+            }.</p>`,
+      }),
+      pushNotificationService.notifyReattemptScheduled(
+        order.customerId,
+        order.riderId,
+        owners.map((owner) => owner.id),
+        order.orderNumber,
+      ),
+    ]);
+  });
+
+  orderEvents.on("order.returning_to_sender", SUBSCRIBER, async (event) => {
+    const { order } = event;
+    const owners = await getOrgOwners(order.orgId, event.actorId);
+
+    await Promise.all([
+      sendDeliveryIssueEmails(order, owners, "Package Being Returned", {
+        customer: `
+            <p>Order <strong>${order.orderNumber}</strong> (${order.packageDescription}) will not be delivered and is being returned to the sender.</p>
+            ${event.reason ? `<p><strong>Reason:</strong> ${event.reason}</p>` : ""}`,
+        owner: `
+            <p>Order <strong>${order.orderNumber}</strong> is being returned to the sender after ${order.deliveryAttemptCount} failed attempt(s).</p>
+            ${event.reason ? `<p><strong>Reason:</strong> ${event.reason}</p>` : ""}`,
+      }),
+      pushNotificationService.notifyReturningToSender(
+        order.customerId,
+        order.riderId,
+        owners.map((owner) => owner.id),
+        order.orderNumber,
+      ),
+    ]);
+  });
+
+  orderEvents.on("order.returned", SUBSCRIBER, async ({ order }) => {
+    const [owners, riderName] = await Promise.all([
+      getOrgOwners(order.orgId, null),
+      getRiderName(order.riderId),
+    ]);
+
+    await Promise.all([
+      sendDeliveryIssueEmails(order, owners, "Package Returned", {
+        customer: `
+            <p>Order <strong>${order.orderNumber}</strong> (${order.packageDescription}) has been returned to the sender. Please contact them to arrange another delivery.</p>`,
+        owner: `
+            <p>${riderName} has brought order <strong>${order.orderNumber}</strong> (${order.packageDescription}) back to its pickup point.</p>`,
+      }),
+      pushNotificationService.notifyOrderReturned(
+        order.customerId,
+        owners.map((owner) => owner.id),
+        order.orderNumber,
+      ),
+    ]);
+  });
+
+  orderEvents.on("order.declined", SUBSCRIBER, async (event) => {
+    const { order } = event;
+
+    if (order.riderId) {
+      await pushNotificationService.notifyOrderReassigned(
+        null,
+        order.riderId,
+        order.customerId,
+        order.orderNumber,
+        await getRiderName(order.riderId),
+      );
+      return;
+    }
+
+    await pushNotificationService.notifyOrderAvailable(
+      event.openPoolRiderIds,
+      order.orderNumber,
+      order.packageDescription,
+    );
+  });
+};
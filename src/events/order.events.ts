@@ -0,0 +1,153 @@
+import { orders } from "../models/schema.js";
+import {
+  OrderEventActorRole,
+  OrderStatus,
+} from "../services/order-event.service.js";
+import { TransitionSource } from "../services/geofence.service.js";
+import { CapacityLimit } from "../services/package.service.js";
+import { DeliveryFailureReason } from "../services/delivery-attempt.service.js";
+
+export type OrderRecord = typeof orders.$inferSelect;
+
+interface OrderChange {
+  // The order as it is after the change
+  order: OrderRecord;
+  fromStatus: OrderStatus | null;
+  actorId: string | null;
+  actorRole: OrderEventActorRole;
+}
+
+export interface OrderEventMap {
+  "order.created": OrderChange & {
+    // Riders told about the order when nobody was assigned to it
+    openPoolRiderIds: string[];
+  };
+  // A scheduled order reached its release time
+  "order.released": OrderChange & { openPoolRiderIds: string[] };
+  "order.accepted": OrderChange & { claimed: boolean };
+  "order.location_set": OrderChange & { locationLabel: string };
+  "order.picked_up": OrderChange & { source: TransitionSource };
+  "order.delivery_started": OrderChange & { source: TransitionSource };
+  "order.arrived": OrderChange & { source: TransitionSource };
+  "order.delivered": OrderChange & { proofOfDelivery: boolean };
+  "order.cancelled": OrderChange & { reason: string };
+  "order.reassigned": OrderChange & {
+    previousRiderId: string | null;
+    reason?: string;
+  };
+  // The rider handed back an order their vehicle cannot carry
+  "order.declined": OrderChange & {
+    previousRiderId: string;
+    exceedsVehicleCapacity: CapacityLimit[];
+    openPoolRiderIds: string[];
+  };
+  // The rider could not hand the package over. If that was the last
+  // attempt the organization allows, the order is already returning to the
+  // sender.
+  "order.delivery_failed": OrderChange & {
+    attemptNumber: number;
+    maxAttempts: number;
+    reason: DeliveryFailureReason;
+  };
+  "order.reattempt_scheduled": OrderChange & { locationLabel: string | null };
+  // An owner sent the order back before its attempts ran out
+  "order.returning_to_sender": OrderChange & { reason: string | null };
+  "order.returned": OrderChange & { source: TransitionSource };
+  // Every order a bulk import created, published once the import commits so
+  // subscribers can handle them together instead of order by order
+  "orders.imported": {
+    orders: Array<{ order: OrderRecord; openPoolRiderIds: string[] }>;
+    actorId: string | null;
+    actorRole: OrderEventActorRole;
+  };
+}
+
+export type OrderEventName = keyof OrderEventMap;
+// Events about one order, which all carry it as `order`
+export type SingleOrderEventName = Exclude<OrderEventName, "orders.imported">;
+
+export const ORDER_EVENT_NAMES: OrderEventName[] = [
+  "order.created",
+  "order.released",
+  "order.accepted",
+  "order.location_set",
+  "order.picked_up",
+  "order.delivery_started",
+  "order.arrived",
+  "order.delivered",
+  "order.cancelled",
+  "order.reassigned",
+  "order.declined",
+  "order.delivery_failed",
+  "order.reattempt_scheduled",
+  "order.returning_to_sender",
+  "order.returned",
+  "orders.imported",
+];
+
+/**
+ * The orders an event is about: the changed order, or every order of an
+ * import
+ */
+export const ordersOfEvent = (
+  event: OrderEventMap[OrderEventName],
+): OrderRecord[] =>
+  "orders" in event ? event.orders.map(({ order }) => order) : [event.order];
+
+type OrderEventHandler<K extends OrderEventName> = (
+  event: OrderEventMap[K],
+) => Promise<void> | void;
+
+interface Subscription {
+  subscriber: string;
+  handler: OrderEventHandler<any>;
+}
+
+/**
+ * In-process bus for order lifecycle changes. OrderService publishes once a
+ * change has committed; notification channels subscribe instead of being
+ * called from each service method.
+ */
+export class OrderEventBus {
+  private subscriptions = new Map<OrderEventName, Subscription[]>();
+
+  on<K extends OrderEventName>(
+    name: K,
+    subscriber: string,
+    handler: OrderEventHandler<K>,
+  ) {
+    if (!this.subscriptions.has(name)) {
+      this.subscriptions.set(name, []);
+    }
+    this.subscriptions.get(name)!.push({ subscriber, handler });
+  }
+
+  /**
+   * Run every handler of an event. A failing handler is logged and does not
+   * stop the others or fail the change that was already committed.
+   */
+  async publish<K extends OrderEventName>(name: K, event: OrderEventMap[K]) {
+    const subscriptions = this.subscriptions.get(name) ?? [];
+
+    const results = await Promise.allSettled(
+      subscriptions.map(async ({ handler }) => handler(event)),
+    );
+
+    const orderIds = ordersOfEvent(event).map((order) => order.id);
+    const subject =
+      orderIds.length === 1
+        ? `order ${orderIds[0]}`
+        : `${orderIds.length} orders`;
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(
+          `❌ ${subscriptions[index].subscriber} failed to handle ${name} for ${subject}:`,
+          result.reason,
+        );
+      }
+    });
+  }
+}
+
+export const orderEvents = new OrderEventBus();
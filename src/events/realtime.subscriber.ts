@@ -0,0 +1,57 @@
+import { getLocationWebSocketServer } from "../websocket/location.server.js";
+import { fleetService } from "../services/fleet.service.js";
+import {
+  ORDER_EVENT_NAMES,
+  orderEvents,
+  ordersOfEvent,
+} from "./order.events.js";
+
+const SUBSCRIBER = "realtime";
+
+/**
+ * Push order status changes to connected WebSocket clients and keep the
+ * live rider map current
+ */
+export const registerRealtimeSubscriber = () => {
+  for (const name of ORDER_EVENT_NAMES) {
+    orderEvents.on(name, SUBSCRIBER, async (event) => {
+      const changed = ordersOfEvent(event);
+
+      for (const order of changed) {
+        getLocationWebSocketServer()?.sendOrderStatusUpdate(
+          order.id,
+          order.orgId,
+          order.status,
+        );
+      }
+
+      // An import may give one rider many orders; update each rider once
+      const riderIds = new Set(
+        changed.flatMap((order) => (order.riderId ? [order.riderId] : [])),
+      );
+      for (const riderId of riderIds) {
+        await fleetService.publishRiderUpdate(riderId);
+      }
+    });
+  }
+
+  orderEvents.on("order.reassigned", SUBSCRIBER, async (event) => {
+    getLocationWebSocketServer()?.closeRiderConnection(
+      event.order.id,
+      "Order reassigned to another rider",
+    );
+
+    if (event.previousRiderId) {
+      await fleetService.publishRiderUpdate(event.previousRiderId);
+    }
+  });
+
+  orderEvents.on("order.declined", SUBSCRIBER, async (event) => {
+    getLocationWebSocketServer()?.closeRiderConnection(
+      event.order.id,
+      "Order declined",
+    );
+
+    await fleetService.publishRiderUpdate(event.previousRiderId);
+  });
+};
@@ -0,0 +1,33 @@
+import { dispatchService } from "../services/dispatch.service.js";
+
+const DISPATCH_SWEEP_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Periodically hand auto-dispatched orders that were not accepted in time
+ * to the next rider in line
+ */
+export const startDispatchJob = () => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+
+    try {
+      const processed = await dispatchService.processExpiredOffers();
+      if (processed > 0) {
+        console.log(`🧭 Dispatch sweep re-dispatched ${processed} order(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Dispatch sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  }, DISPATCH_SWEEP_INTERVAL_MS);
+
+  timer.unref();
+  console.log("🧭 Dispatch job started");
+
+  return timer;
+};
@@ -0,0 +1,26 @@
+import { locationHistoryService } from "../services/location-history.service.js";
+
+const LOCATION_RETENTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Periodically delete rider location trails past the retention period
+ */
+export const startLocationRetentionJob = () => {
+  const prune = async () => {
+    try {
+      const deleted = await locationHistoryService.pruneExpired();
+      if (deleted > 0) {
+        console.log(`🧹 Pruned ${deleted} expired rider location point(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Location retention sweep failed:", error);
+    }
+  };
+
+  const timer = setInterval(prune, LOCATION_RETENTION_INTERVAL_MS);
+
+  timer.unref();
+  console.log("🧹 Location retention job started");
+
+  return timer;
+};
@@ -0,0 +1,33 @@
+import { orderService } from "../services/order.service.js";
+
+const SCHEDULED_RELEASE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Periodically release scheduled orders to their riders shortly before
+ * their delivery window
+ */
+export const startScheduledReleaseJob = () => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+
+    try {
+      const released = await orderService.releaseScheduledOrders();
+      if (released > 0) {
+        console.log(`📅 Released ${released} scheduled order(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Scheduled order release failed:", error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULED_RELEASE_INTERVAL_MS);
+
+  timer.unref();
+  console.log("📅 Scheduled release job started");
+
+  return timer;
+};
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from "express";
-import { verifyToken } from "../services/auth.service.js";
+import {
+  verifyToken,
+  isTokenVersionCurrent,
+} from "../services/auth.service.js";
 
 export interface AuthRequest extends Request {
   user?: {
@@ -44,6 +47,13 @@ export const authenticateToken = async (
       });
     }
 
+    if (!(await isTokenVersionCurrent(decoded))) {
+      return res.status(401).json({
+        success: false,
+        message: "Token has been revoked",
+      });
+    }
+
     // Attach user info to request
     (req as AuthRequest).user = {
       userId: decoded.userId,
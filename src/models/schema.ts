@@ -8,7 +8,13 @@ import {
   boolean,
   jsonb,
   varchar,
+  doublePrecision,
+  numeric,
+  index,
+  unique,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 export const registrationStatusEnum = pgEnum("registration_status", [
   "pending",
@@ -32,6 +38,7 @@ export const auditSeverityEnum = pgEnum("audit_severity", [
 ]);
 
 export const orderStatusEnum = pgEnum("order_status", [
+  "scheduled",
   "pending",
   "rider_accepted",
   "customer_location_set",
@@ -41,14 +48,77 @@ export const orderStatusEnum = pgEnum("order_status", [
   "arrived_at_location",
   "delivered",
   "cancelled",
+  "delivery_failed",
+  "reattempt_scheduled",
+  "returning_to_sender",
+  "returned",
 ]);
 
+export const deliveryFailureReasonEnum = pgEnum("delivery_failure_reason", [
+  "customer_not_home",
+  "wrong_address",
+  "customer_refused",
+  "location_inaccessible",
+  "package_damaged",
+  "other",
+]);
+
+export interface OrganizationSettings {
+  requireProofOfDelivery?: boolean;
+  dispatchAcceptWindowSeconds?: number;
+  averageSpeedKmh?: number;
+  geofenceMode?: "off" | "prompt" | "auto";
+  geofenceRadiusMeters?: number;
+  scheduledReleaseLeadMinutes?: number;
+  // Start of the organization's order numbers, e.g. ACME in ACME-000123
+  orderNumberPrefix?: string;
+  // Failed delivery attempts after which an order goes back to the sender
+  maxDeliveryAttempts?: number;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  accuracy: number | null; // metres
+  heading: number | null; // degrees from true north
+  speed: number | null; // metres per second
+  recordedAt: string; // ISO 8601
+}
+
+export interface PackagePhoto {
+  url: string;
+  publicId: string;
+}
+
+export type VehicleType = "bicycle" | "motorcycle" | "car" | "van" | "truck";
+
+// What a rider's vehicle can carry; null limits are not enforced
+export interface RiderVehicle {
+  type: VehicleType;
+  maxWeightKg: number | null;
+  maxLengthCm: number | null; // longest side of a package that fits
+}
+
+export interface SavedLocation {
+  label: string;
+  preciseLocation: GeoPoint | null;
+  // Free-text address, kept for entries whose location could not be parsed
+  address?: string | null;
+}
+
 export const organizations = pgTable("organizations", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: text("name").notNull(),
   slug: text("slug").unique(),
   ownerUserId: uuid("owner_user_id"),
   address: text("address").notNull(),
+  coordinates: jsonb("coordinates").$type<GeoPoint>(),
+  settings: jsonb("settings")
+    .$type<OrganizationSettings>()
+    .default({})
+    .notNull(),
+  // Last number handed out for the organization's orders
+  lastOrderNumber: integer("last_order_number").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -88,17 +158,11 @@ export const users = pgTable("users", {
   name: text("name"),
   profileImage: text("profile_image"),
   profileImagePublicId: text("profile_image_public_id"),
-  locations: jsonb("locations")
-    .$type<
-      Array<{
-        label: string;
-        preciseLocation: string;
-      }>
-    >()
-    .default([]),
+  locations: jsonb("locations").$type<SavedLocation[]>().default([]),
   isProfileComplete: boolean("is_profile_complete").default(false).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
-  currentLocation: text("current_location"),
+  currentLocation: jsonb("current_location").$type<GeoPoint>(),
+  vehicle: jsonb("vehicle").$type<RiderVehicle>(),
   role: userRoleEnum("role").default("customer").notNull(),
   registrationStatus: registrationStatusEnum("registration_status")
     .default("pending")
@@ -136,6 +200,17 @@ export const invitations = pgTable("invitations", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Single-use WebSocket tickets that were already spent, kept until they
+// would have expired anyway
+export const usedWebSocketTickets = pgTable("used_websocket_tickets", {
+  jti: uuid("jti").primaryKey(),
+  userId: uuid("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at").defaultNow().notNull(),
+});
+
 export const auditLogs = pgTable("audit_logs", {
   id: uuid("id").primaryKey().defaultRandom(),
   orgId: uuid("org_id").references(() => organizations.id),
@@ -150,35 +225,313 @@ export const auditLogs = pgTable("audit_logs", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
-export const orders = pgTable("orders", {
+export const orders = pgTable(
+  "orders",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // Unique within the organization, e.g. ACME-000123
+    orderNumber: text("order_number").notNull(),
+    orgId: uuid("org_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    packageDescription: text("package_description").notNull(),
+    packageCategoryId: uuid("package_category_id").references(
+      () => packageCategories.id,
+      { onDelete: "set null" },
+    ),
+    packageLengthCm: doublePrecision("package_length_cm"),
+    packageWidthCm: doublePrecision("package_width_cm"),
+    packageHeightCm: doublePrecision("package_height_cm"),
+    packageWeightKg: doublePrecision("package_weight_kg"),
+    declaredValue: numeric("declared_value", {
+      precision: 12,
+      scale: 2,
+      mode: "number",
+    }),
+    isFragile: boolean("is_fragile").default(false).notNull(),
+    isPerishable: boolean("is_perishable").default(false).notNull(),
+    itemCount: integer("item_count").default(1).notNull(),
+    packagePhotos: jsonb("package_photos")
+      .$type<PackagePhoto[]>()
+      .default([])
+      .notNull(),
+    // Where the rider collects the package; the organization's own address
+    // and coordinates when not set
+    pickupLocationId: uuid("pickup_location_id").references(
+      () => pickupLocations.id,
+      { onDelete: "set null" },
+    ),
+    customerId: uuid("customer_id")
+      .references(() => users.id, { onDelete: "set null" })
+      .notNull(),
+    riderId: uuid("rider_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    riderCurrentLocation: jsonb("rider_current_location").$type<GeoPoint>(),
+    customerLocationLabel: text("customer_location_label"),
+    customerLocationPrecise: jsonb(
+      "customer_location_precise",
+    ).$type<GeoPoint>(),
+    status: orderStatusEnum("status").default("pending").notNull(),
+    autoAssign: boolean("auto_assign").default(false).notNull(),
+    // Booked deliveries: held as "scheduled" until releaseAt, shortly before
+    // the window opens
+    scheduledFor: timestamp("scheduled_for"),
+    windowStart: timestamp("window_start"),
+    windowEnd: timestamp("window_end"),
+    releaseAt: timestamp("release_at"),
+    releasedAt: timestamp("released_at"),
+    // Multi-stop run the order belongs to and its place in it
+    batchId: uuid("batch_id").references(() => deliveryBatches.id, {
+      onDelete: "set null",
+    }),
+    stopSequence: integer("stop_sequence"),
+    assignedAt: timestamp("assigned_at"),
+    riderAcceptedAt: timestamp("rider_accepted_at"),
+    customerLocationSetAt: timestamp("customer_location_set_at"),
+    packagePickedUpAt: timestamp("package_picked_up_at"),
+    deliveryStartedAt: timestamp("delivery_started_at"),
+    arrivedAtLocationAt: timestamp("arrived_at_location_at"),
+    riderNearbyNotifiedAt: timestamp("rider_nearby_notified_at"),
+    // Last ETA pushed to clients, shared by every instance so each change
+    // is broadcast once
+    etaBroadcastSeconds: integer("eta_broadcast_seconds"),
+    // Last geofence prompt for the current status, shared by every instance
+    geofencePromptedAt: timestamp("geofence_prompted_at"),
+    deliveredAt: timestamp("delivered_at"),
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: uuid("cancelled_by").references(() => users.id),
+    cancellationReason: text("cancellation_reason"),
+    // Failed attempts so far; deliveryFailedAt is the latest one
+    deliveryAttemptCount: integer("delivery_attempt_count")
+      .default(0)
+      .notNull(),
+    deliveryFailedAt: timestamp("delivery_failed_at"),
+    returnedAt: timestamp("returned_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("orders_org_id_order_number_unique").on(
+      table.orgId,
+      table.orderNumber,
+    ),
+    // Order listing: one per role's base filter, ending in the default sort
+    // and the id tie-breaker used by the cursor
+    index("orders_org_id_created_at_idx").on(
+      table.orgId,
+      table.createdAt,
+      table.id,
+    ),
+    index("orders_customer_id_created_at_idx").on(
+      table.customerId,
+      table.createdAt,
+      table.id,
+    ),
+    index("orders_rider_id_created_at_idx").on(
+      table.riderId,
+      table.createdAt,
+      table.id,
+    ),
+    index("orders_org_id_status_idx").on(table.orgId, table.status),
+    index("orders_org_id_delivered_at_idx").on(table.orgId, table.deliveredAt),
+    // Free-text search with ILIKE '%...%' (needs pg_trgm)
+    index("orders_order_number_trgm_idx").using(
+      "gin",
+      table.orderNumber.op("gin_trgm_ops"),
+    ),
+    index("orders_package_description_trgm_idx").using(
+      "gin",
+      table.packageDescription.op("gin_trgm_ops"),
+    ),
+  ],
+);
+
+export const pickupLocations = pgTable("pickup_locations", {
   id: uuid("id").primaryKey().defaultRandom(),
-  orderNumber: text("order_number").unique().notNull(),
   orgId: uuid("org_id")
     .references(() => organizations.id, { onDelete: "cascade" })
     .notNull(),
-  packageDescription: text("package_description").notNull(),
-  customerId: uuid("customer_id")
-    .references(() => users.id, { onDelete: "set null" })
+  name: text("name").notNull(),
+  address: text("address"),
+  coordinates: jsonb("coordinates").$type<GeoPoint>().notNull(),
+  contactName: text("contact_name"),
+  contactPhone: text("contact_phone"),
+  // Removed pickup locations are kept for the orders that used them
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const packageCategories = pgTable("package_categories", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id")
+    .references(() => organizations.id, { onDelete: "cascade" })
+    .notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Removed categories are kept for the orders that used them
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const deliveryBatches = pgTable(
+  "delivery_batches",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orgId: uuid("org_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    riderId: uuid("rider_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    // "planned", "in_progress" once the rider starts, "completed" when every
+    // stop is delivered or cancelled
+    status: text("status").default("planned").notNull(),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    // A rider works through one batch at a time
+    uniqueIndex("delivery_batches_open_rider_id_unique")
+      .on(table.riderId)
+      .where(sql`${table.status} in ('planned', 'in_progress')`),
+  ],
+);
+
+export const proofOfDeliveries = pgTable("proof_of_deliveries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .unique()
     .notNull(),
   riderId: uuid("rider_id").references(() => users.id, {
     onDelete: "set null",
   }),
-  riderCurrentLocation: text("rider_current_location"),
-  customerLocationLabel: text("customer_location_label"),
-  customerLocationPrecise: text("customer_location_precise"),
-  status: orderStatusEnum("status").default("pending").notNull(),
-  assignedAt: timestamp("assigned_at"),
-  riderAcceptedAt: timestamp("rider_accepted_at"),
-  customerLocationSetAt: timestamp("customer_location_set_at"),
-  packagePickedUpAt: timestamp("package_picked_up_at"),
-  deliveryStartedAt: timestamp("delivery_started_at"),
-  arrivedAtLocationAt: timestamp("arrived_at_location_at"),
-  deliveredAt: timestamp("delivered_at"),
-  cancelledAt: timestamp("cancelled_at"),
-  cancelledBy: uuid("cancelled_by").references(() => users.id),
-  cancellationReason: text("cancellation_reason"),
+  photoUrl: text("photo_url"),
+  photoPublicId: text("photo_public_id"),
+  signatureUrl: text("signature_url"),
+  signaturePublicId: text("signature_public_id"),
+  recipientName: text("recipient_name"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const deliveryAttempts = pgTable(
+  "delivery_attempts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orderId: uuid("order_id")
+      .references(() => orders.id, { onDelete: "cascade" })
+      .notNull(),
+    orgId: uuid("org_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    riderId: uuid("rider_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    attemptNumber: integer("attempt_number").notNull(),
+    reason: deliveryFailureReasonEnum("reason").notNull(),
+    note: text("note"),
+    photoUrl: text("photo_url"),
+    photoPublicId: text("photo_public_id"),
+    // Where the rider was when the attempt failed
+    location: jsonb("location").$type<GeoPoint>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("delivery_attempts_order_id_attempt_number_unique").on(
+      table.orderId,
+      table.attemptNumber,
+    ),
+  ],
+);
+
+export const orderDeliveryCodes = pgTable("order_delivery_codes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .unique()
+    .notNull(),
+  code: varchar("code", { length: 6 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  verifiedAt: timestamp("verified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
     .$onUpdate(() => new Date()),
 });
+
+export const orderEvents = pgTable("order_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .notNull(),
+  orgId: uuid("org_id")
+    .references(() => organizations.id, { onDelete: "cascade" })
+    .notNull(),
+  eventType: text("event_type").notNull(),
+  actorId: uuid("actor_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  actorRole: text("actor_role").notNull(),
+  fromStatus: orderStatusEnum("from_status"),
+  toStatus: orderStatusEnum("to_status"),
+  riderLocation: jsonb("rider_location").$type<GeoPoint>(),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const dispatchDecisions = pgTable("dispatch_decisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .notNull(),
+  orgId: uuid("org_id")
+    .references(() => organizations.id, { onDelete: "cascade" })
+    .notNull(),
+  riderId: uuid("rider_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  attempt: integer("attempt").notNull(),
+  outcome: text("outcome").notNull(),
+  score: doublePrecision("score"),
+  distanceKm: doublePrecision("distance_km"),
+  activeOrders: integer("active_orders"),
+  candidates: jsonb("candidates").$type<Array<Record<string, any>>>(),
+  expiresAt: timestamp("expires_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const riderLocationPoints = pgTable("rider_location_points", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id")
+    .references(() => orders.id, { onDelete: "cascade" })
+    .notNull(),
+  riderId: uuid("rider_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  accuracy: doublePrecision("accuracy"),
+  heading: doublePrecision("heading"),
+  speed: doublePrecision("speed"),
+  recordedAt: timestamp("recorded_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -7,6 +7,7 @@ import {
   resendOTPController,
   refreshTokenController,
   logoutController,
+  createWebSocketTicketController,
   getProfileController,
   updateProfileController,
   createRiderAccountController,
@@ -63,6 +64,7 @@ router.post(
 
 // Protected routes (no org context needed)
 router.post("/logout", authenticateToken, logoutController);
+router.post("/ws-ticket", authenticateToken, createWebSocketTicketController);
 router.get("/profile", authenticateToken, getProfileController);
 router.put("/profile", authenticateToken, updateProfileController);
 router.put("/change-password", authenticateToken, updatePasswordController);
@@ -0,0 +1,71 @@
+import { Router } from "express";
+import { deliveryBatchController } from "../controllers/delivery-batch.controller.js";
+import {
+  authenticateToken,
+  requireOrgMember,
+} from "../middleware/auth.middleware.js";
+import {
+  authorizeRole,
+  requireOrgOwner,
+} from "../middleware/role.middleware.js";
+
+const router = Router();
+
+router.use(authenticateToken, requireOrgMember);
+
+/**
+ * @route   POST /api/batches
+ * @desc    Group a rider's orders into a multi-stop batch
+ * @access  Private (Owner only)
+ */
+router.post(
+  "/",
+  requireOrgOwner,
+  deliveryBatchController.createBatch.bind(deliveryBatchController),
+);
+
+/**
+ * @route   GET /api/batches/current
+ * @desc    Get the rider's planned or in-progress batch
+ * @access  Private (Rider only)
+ */
+router.get(
+  "/current",
+  authorizeRole(["rider"]),
+  deliveryBatchController.getCurrentBatch.bind(deliveryBatchController),
+);
+
+/**
+ * @route   GET /api/batches/:batchId
+ * @desc    Get a batch with its stops in order
+ * @access  Private (Owner, or the batch's rider)
+ */
+router.get(
+  "/:batchId",
+  authorizeRole(["owner", "rider"]),
+  deliveryBatchController.getBatch.bind(deliveryBatchController),
+);
+
+/**
+ * @route   POST /api/batches/:batchId/optimize
+ * @desc    Re-plan the remaining stops by nearest neighbour
+ * @access  Private (Owner, or the batch's rider)
+ */
+router.post(
+  "/:batchId/optimize",
+  authorizeRole(["owner", "rider"]),
+  deliveryBatchController.optimizeBatch.bind(deliveryBatchController),
+);
+
+/**
+ * @route   POST /api/batches/:batchId/advance
+ * @desc    Move the rider on at the current stop
+ * @access  Private (Rider only)
+ */
+router.post(
+  "/:batchId/advance",
+  authorizeRole(["rider"]),
+  deliveryBatchController.advanceBatch.bind(deliveryBatchController),
+);
+
+export const deliveryBatchRoutes = router;
@@ -1,4 +1,4 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import { orderController } from "../controllers/order.controller.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
 import { authorizeRole } from "../middleware/role.middleware.js";
@@ -13,18 +13,55 @@ router.post(
   orderController.createOrder.bind(orderController),
 );
 
+router.post(
+  "/import",
+  authorizeRole(["owner"]),
+  express.text({ type: "text/csv", limit: "10mb" }),
+  orderController.importOrders.bind(orderController),
+);
+
 router.get(
   "/",
   authorizeRole(["customer", "owner", "rider"]),
   orderController.getOrders.bind(orderController),
 );
 
+router.get(
+  "/available",
+  authorizeRole(["rider"]),
+  orderController.getAvailableOrders.bind(orderController),
+);
+
+router.get(
+  "/by-number/:orderNumber",
+  authorizeRole(["customer", "owner", "rider"]),
+  orderController.getOrderByNumber.bind(orderController),
+);
+
 router.get(
   "/:orderId",
   authorizeRole(["customer", "owner", "rider"]),
   orderController.getOrder.bind(orderController),
 );
 
+router.get(
+  "/:orderId/timeline",
+  authorizeRole(["customer", "owner", "rider"]),
+  orderController.getOrderTimeline.bind(orderController),
+);
+
+router.get(
+  "/:orderId/route",
+  authorizeRole(["customer", "owner"]),
+  orderController.getOrderRoute.bind(orderController),
+);
+
+router.get(
+  "/:orderId/dispatch-log",
+  authorizeRole(["owner"]),
+  orderController.getDispatchLog.bind(orderController),
+);
+
 router.delete(
   "/:orderId/cancel",
   authorizeRole(["customer", "owner", "rider"]),
@@ -37,6 +74,18 @@ router.post(
   orderController.riderAcceptOrder.bind(orderController),
 );
 
+router.post(
+  "/:orderId/claim",
+  authorizeRole(["rider"]),
+  orderController.claimOrder.bind(orderController),
+);
+
+router.post(
+  "/:orderId/decline",
+  authorizeRole(["rider"]),
+  orderController.declineOrder.bind(orderController),
+);
+
 router.post(
   "/:orderId/set-location",
   authorizeRole(["customer"]),
@@ -55,12 +104,24 @@ router.get(
   orderController.getCustomerLocationLabels.bind(orderController),
 );
 
+router.post(
+  "/:orderId/reassign",
+  authorizeRole(["owner"]),
+  orderController.reassignOrder.bind(orderController),
+);
+
 router.post(
   "/:orderId/confirm-delivery",
   authorizeRole(["rider"]),
   orderController.confirmDelivery.bind(orderController),
 );
 
+router.get(
+  "/:orderId/delivery-code",
+  authorizeRole(["customer"]),
+  orderController.getDeliveryCode.bind(orderController),
+);
+
 router.post(
   "/:orderId/package-picked-up",
   authorizeRole(["rider"]),
@@ -79,6 +140,30 @@ router.post(
   orderController.markArrivedAtLocation.bind(orderController),
 );
 
+router.post(
+  "/:orderId/failed-attempt",
+  authorizeRole(["rider"]),
+  orderController.recordFailedDelivery.bind(orderController),
+);
+
+router.post(
+  "/:orderId/reattempt",
+  authorizeRole(["owner"]),
+  orderController.scheduleReattempt.bind(orderController),
+);
+
+router.post(
+  "/:orderId/return-to-sender",
+  authorizeRole(["owner"]),
+  orderController.returnToSender.bind(orderController),
+);
+
+router.post(
+  "/:orderId/mark-returned",
+  authorizeRole(["rider"]),
+  orderController.markReturned.bind(orderController),
+);
+
 router.post(
   "/:orderId/update-location",
   authorizeRole(["rider"]),
@@ -1,5 +1,10 @@
 import { Router } from "express";
 import { OrganizationController } from "../controllers/organization.controller.js";
+import {
+  authenticateToken,
+  requireOrgContext,
+} from "../middleware/auth.middleware.js";
+import { requireOrgOwner } from "../middleware/role.middleware.js";
 
 const router = Router();
 const organizationController = new OrganizationController();
@@ -14,4 +19,147 @@ router.get(
   organizationController.getOrganizationById.bind(organizationController),
 );
 
+/**
+ * @route GET /api/organizations/settings
+ * @desc Get settings for the current organization
+ * @access Private (Owner only)
+ */
+router.get(
+  "/settings",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.getSettings.bind(organizationController),
+);
+
+/**
+ * @route PATCH /api/organizations/settings
+ * @desc Update settings for the current organization
+ * @access Private (Owner only)
+ */
+router.patch(
+  "/settings",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.updateSettings.bind(organizationController),
+);
+
+/**
+ * @route PUT /api/organizations/location
+ * @desc Update address and pickup coordinates of the current organization
+ * @access Private (Owner only)
+ */
+router.put(
+  "/location",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.updateLocation.bind(organizationController),
+);
+
+/**
+ * @route GET /api/organizations/pickup-locations
+ * @desc List pickup locations of the current organization
+ * @access Private (Owner only)
+ */
+router.get(
+  "/pickup-locations",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.listPickupLocations.bind(organizationController),
+);
+
+/**
+ * @route POST /api/organizations/pickup-locations
+ * @desc Add a pickup location to the current organization
+ * @access Private (Owner only)
+ */
+router.post(
+  "/pickup-locations",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.createPickupLocation.bind(organizationController),
+);
+
+/**
+ * @route PATCH /api/organizations/pickup-locations/:pickupLocationId
+ * @desc Update a pickup location of the current organization
+ * @access Private (Owner only)
+ */
+router.patch(
+  "/pickup-locations/:pickupLocationId",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.updatePickupLocation.bind(organizationController),
+);
+
+/**
+ * @route DELETE /api/organizations/pickup-locations/:pickupLocationId
+ * @desc Remove a pickup location of the current organization
+ * @access Private (Owner only)
+ */
+router.delete(
+  "/pickup-locations/:pickupLocationId",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.deletePickupLocation.bind(organizationController),
+);
+
+/**
+ * @route GET /api/organizations/package-categories
+ * @desc List package categories of the current organization
+ * @access Private (Owner only)
+ */
+router.get(
+  "/package-categories",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.listPackageCategories.bind(organizationController),
+);
+
+/**
+ * @route POST /api/organizations/package-categories
+ * @desc Add a package category to the current organization
+ * @access Private (Owner only)
+ */
+router.post(
+  "/package-categories",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.createPackageCategory.bind(organizationController),
+);
+
+/**
+ * @route PATCH /api/organizations/package-categories/:categoryId
+ * @desc Update a package category of the current organization
+ * @access Private (Owner only)
+ */
+router.patch(
+  "/package-categories/:categoryId",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.updatePackageCategory.bind(organizationController),
+);
+
+/**
+ * @route DELETE /api/organizations/package-categories/:categoryId
+ * @desc Remove a package category of the current organization
+ * @access Private (Owner only)
+ */
+router.delete(
+  "/package-categories/:categoryId",
+  authenticateToken,
+  requireOrgContext,
+  requireOrgOwner,
+  organizationController.deletePackageCategory.bind(organizationController),
+);
+
 export const organizationRoutes = router;
@@ -26,6 +26,39 @@ router.get(
   riderController.getRiders.bind(riderController),
 );
 
+/**
+ * @route   GET /api/riders/live
+ * @desc    Get the live position, current order and online state of riders
+ * @access  Private (Owner only)
+ */
+router.get(
+  "/live",
+  requireOrgOwner,
+  riderController.getLiveRiders.bind(riderController),
+);
+
+/**
+ * @route   GET /api/riders/vehicle
+ * @desc    Get the rider's own vehicle (rider self-service)
+ * @access  Private (Rider only)
+ */
+router.get(
+  "/vehicle",
+  authorizeRole(["rider"]),
+  riderController.getVehicle.bind(riderController),
+);
+
+/**
+ * @route   PUT /api/riders/vehicle
+ * @desc    Describe the rider's own vehicle and its capacity
+ * @access  Private (Rider only)
+ */
+router.put(
+  "/vehicle",
+  authorizeRole(["rider"]),
+  riderController.updateVehicle.bind(riderController),
+);
+
 /**
  * @route   GET /api/riders/:riderId
  * @desc    Get a single rider by ID
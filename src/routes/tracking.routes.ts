@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { trackingController } from "../controllers/tracking.controller.js";
+
+const router = Router();
+
+/**
+ * @route   GET /api/track/:token
+ * @desc    Get the public tracking view of an order
+ * @access  Public (tracking link)
+ */
+router.get("/:token", trackingController.getTracking.bind(trackingController));
+
+/**
+ * @route   GET /api/track/:token/events
+ * @desc    Stream updates to an order's tracking view as server-sent events
+ * @access  Public (tracking link)
+ */
+router.get(
+  "/:token/events",
+  trackingController.streamTracking.bind(trackingController),
+);
+
+export const trackingRoutes = router;
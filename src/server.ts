@@ -8,12 +8,22 @@ import { customerRoutes } from "./routes/customer.routes.js";
 import { organizationRoutes } from "./routes/organization.routes.js";
 import { orderRoutes } from "./routes/order.routes.js";
 import { userRoutes } from "./routes/user.routes.js";
+import { deliveryBatchRoutes } from "./routes/delivery-batch.routes.js";
+import { trackingRoutes } from "./routes/tracking.routes.js";
 import { errorHandler } from "./middleware/error.middleware.js";
 import dotenv from "dotenv";
 import swaggerUi from "swagger-ui-express";
 import { swaggerSpec } from "./docs/swagger.js";
 import http from "http";
 import { LocationWebSocketServer } from "./websocket/location.server.js";
+import { startDispatchJob } from "./jobs/dispatch.job.js";
+import { startLocationRetentionJob } from "./jobs/location-retention.job.js";
+import { startScheduledReleaseJob } from "./jobs/scheduled-release.job.js";
+import { registerNotificationSubscriber } from "./events/notification.subscriber.js";
+import { registerAuditSubscriber } from "./events/audit.subscriber.js";
+import { registerRealtimeSubscriber } from "./events/realtime.subscriber.js";
+import { registerBatchSubscriber } from "./events/batch.subscriber.js";
+import { registerEtaSubscriber } from "./events/eta.subscriber.js";
 //import { devRouter } from "./routes/dev.routes.js";
 
 declare global {
@@ -99,6 +109,8 @@ app.use("/api/customers", customerRoutes);
 app.use("/api/orders", orderRoutes);
 app.use("/api/organizations", organizationRoutes);
 app.use("/api/users", userRoutes);
+app.use("/api/batches", deliveryBatchRoutes);
+app.use("/api/track", trackingRoutes);
 //app.use("/dev", devRouter);
 
 app.get("/health", (req, res) => {
@@ -120,6 +132,16 @@ app.use(errorHandler);
 
 const locationWSS = new LocationWebSocketServer(server);
 
+registerNotificationSubscriber();
+registerAuditSubscriber();
+registerRealtimeSubscriber();
+registerBatchSubscriber();
+registerEtaSubscriber();
+
+startDispatchJob();
+startLocationRetentionJob();
+startScheduledReleaseJob();
+
 server.listen(PORT, () => {
   console.log(`
 🚀 Server running on port ${PORT}
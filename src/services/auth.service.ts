@@ -7,17 +7,29 @@ import {
   organizations,
   auditLogs,
   userOrganizations,
+  usedWebSocketTickets,
+  GeoPoint,
+  SavedLocation,
 } from "../models/schema.js";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, lt, sql } from "drizzle-orm";
 import { sendEmail } from "./email.service.js";
 import { generateOTP, getOTPExpiration, verifyOTP } from "./otp.service.js";
 import { CloudinaryService } from "./cloudinary.service.js";
+import {
+  GeoPointInput,
+  SavedLocationInput,
+  parseGeoPoint,
+  savedLocationInputSchema,
+} from "../utils/geo.js";
 import { writeFile, unlink, mkdir } from "fs/promises";
 import { join } from "path";
+import { randomUUID } from "crypto";
+import { getLocationWebSocketServer } from "../websocket/location.server.js";
 
 const JWT_SECRET: string = process.env.JWT_SECRET!;
 const ACCESS_EXPIRES_IN = "7d";
 const REFRESH_EXPIRES_IN = "30d";
+const WS_TICKET_EXPIRES_IN_SECONDS = 60;
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
 
 // --- Types ---
@@ -27,12 +39,23 @@ export interface TokenPayload {
   orgId?: string | null;
   role?: string;
   type?: "access" | "refresh";
+  // Absent on access tokens issued before revocation checks were added
+  tokenVersion?: number;
   organizations?: Array<{
     orgId: string;
     role: string;
   }>;
 }
 
+export interface WebSocketTicketPayload {
+  userId: string;
+  orgId: string | null;
+  role: string;
+  tokenVersion: number;
+  type: "ws_ticket";
+  jti: string;
+}
+
 export interface RefreshTokenPayload {
   userId: string;
   tokenVersion: number;
@@ -64,8 +87,8 @@ interface UserResponse {
   isProfileComplete: boolean;
   registrationStatus: string;
   profileImage: string | null;
-  locations?: Array<{ label: string; preciseLocation: string }>;
-  currentLocation?: string | null;
+  locations?: SavedLocation[];
+  currentLocation?: GeoPoint | null;
   organizations?: OrganizationDetail[];
 }
 
@@ -109,6 +132,106 @@ export const verifyToken = <T = TokenPayload>(token: string): T => {
   return jwt.verify(token, JWT_SECRET) as T;
 };
 
+/**
+ * Check that a token has not been revoked by logout or a password change,
+ * which bump the user's tokenVersion. Tokens issued before the claim was
+ * always set count as version 1, the column default, so they keep working
+ * until the first logout.
+ */
+export const isTokenVersionCurrent = async (payload: {
+  userId: string;
+  tokenVersion?: number;
+}): Promise<boolean> => {
+  const tokenVersion =
+    typeof payload.tokenVersion === "number" ? payload.tokenVersion : 1;
+
+  const user = await db
+    .select({ tokenVersion: users.tokenVersion })
+    .from(users)
+    .where(eq(users.id, payload.userId))
+    .limit(1)
+    .then((rows) => rows[0]);
+
+  // users.isActive is a rider's on-duty toggle, not an account lock, so it
+  // must not end the session
+  return !!user && user.tokenVersion === tokenVersion;
+};
+
+// --- WebSocket Tickets ---
+
+export const issueWebSocketTicket = async (user: TokenPayload) => {
+  const current = await db
+    .select({ tokenVersion: users.tokenVersion })
+    .from(users)
+    .where(eq(users.id, user.userId))
+    .limit(1)
+    .then((rows) => rows[0]);
+
+  if (!current) {
+    throw new Error("User not found");
+  }
+
+  const ticket = jwt.sign(
+    {
+      userId: user.userId,
+      orgId: user.orgId || null,
+      role: user.role,
+      tokenVersion: current.tokenVersion,
+      type: "ws_ticket",
+    },
+    JWT_SECRET,
+    {
+      expiresIn: WS_TICKET_EXPIRES_IN_SECONDS,
+      jwtid: randomUUID(),
+    } as SignOptions,
+  );
+
+  return { ticket, expiresIn: WS_TICKET_EXPIRES_IN_SECONDS };
+};
+
+export const verifyWebSocketTicket = async (
+  ticket: string,
+): Promise<WebSocketTicketPayload> => {
+  const payload = verifyToken<WebSocketTicketPayload & { exp: number }>(ticket);
+
+  if (payload.type !== "ws_ticket" || !payload.jti) {
+    throw new Error("Invalid token type");
+  }
+
+  // Tickets are single use. Spent ones are stored in the database so every
+  // server instance sees them, and only until they would expire anyway.
+  await db
+    .delete(usedWebSocketTickets)
+    .where(lt(usedWebSocketTickets.expiresAt, new Date()));
+
+  const [spent] = await db
+    .insert(usedWebSocketTickets)
+    .values({
+      jti: payload.jti,
+      userId: payload.userId,
+      expiresAt: new Date(payload.exp * 1000),
+    })
+    .onConflictDoNothing()
+    .returning({ jti: usedWebSocketTickets.jti });
+
+  if (!spent) {
+    throw new Error("Ticket has already been used");
+  }
+
+  if (!(await isTokenVersionCurrent(payload))) {
+    throw new Error("Token revoked or user not found");
+  }
+
+  return payload;
+};
+
+/**
+ * Drop live WebSocket sessions of a user whose tokens were just revoked
+ */
+const closeRevokedSessions = (userId: string) => {
+  getLocationWebSocketServer()?.closeUserConnections(userId, "Session revoked");
+};
+
 // --- Token Generation for Registration/Invitation ---
 const generateRegistrationToken = (
   email: string,
@@ -892,6 +1015,7 @@ export const authenticateUser = async (email: string, password: string) => {
     email: user.email,
     orgId: defaultOrgId,
     role: defaultRole,
+    tokenVersion: user.tokenVersion || 1,
     organizations: userOrgs,
   });
 
@@ -2025,6 +2149,7 @@ export const completeCustomerRegistrationViaToken = async (
       userId: updatedUser.id,
       email: updatedUser.email,
       role: updatedUser.role,
+      tokenVersion: updatedUser.tokenVersion,
     });
 
     return {
@@ -2412,6 +2537,7 @@ export const refreshAccessToken = async (refreshToken: string) => {
     email: user.email,
     orgId: defaultOrgId,
     role: defaultRole,
+    tokenVersion: user.tokenVersion,
     organizations: userOrgs,
   });
 
@@ -2423,6 +2549,29 @@ export const logoutUser = async (userId: string) => {
     .update(users)
     .set({ tokenVersion: sql`${users.tokenVersion} + 1` })
     .where(eq(users.id, userId));
+
+  closeRevokedSessions(userId);
+};
+
+const parseSavedLocation = (
+  input: SavedLocationInput,
+  field: string,
+): SavedLocation => {
+  const parsed = savedLocationInputSchema.safeParse(input);
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid ${field}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return {
+    label: parsed.data.label,
+    preciseLocation: parsed.data.preciseLocation,
+    address: parsed.data.address ?? null,
+  };
 };
 
 export const updateUserProfile = async (
@@ -2432,13 +2581,13 @@ export const updateUserProfile = async (
     email?: string;
     phoneNumber?: string;
     profileImage?: string;
-    locations?: Array<{ label: string; preciseLocation: string }>;
-    addLocation?: { label: string; preciseLocation: string };
+    locations?: SavedLocationInput[];
+    addLocation?: SavedLocationInput;
     removeLocation?: number | string;
     updateLocation?: {
       index: number;
       label?: string;
-      preciseLocation?: string;
+      preciseLocation?: GeoPointInput;
     };
   },
 ) => {
@@ -2516,20 +2665,21 @@ export const updateUserProfile = async (
     }
 
     // --- Locations handling (same as before) ---
-    const currentLocations: Array<{ label: string; preciseLocation: string }> =
-      user.locations || [];
+    const currentLocations: SavedLocation[] = user.locations || [];
 
     let newLocations = currentLocations;
     let locationsChanged = false;
 
     if (updates.locations !== undefined) {
-      newLocations = updates.locations;
+      newLocations = updates.locations.map((location, index) =>
+        parseSavedLocation(location, `locations.${index}`),
+      );
       locationsChanged = true;
     } else if (updates.addLocation) {
-      const newLocation = {
-        label: updates.addLocation.label,
-        preciseLocation: updates.addLocation.preciseLocation,
-      };
+      const newLocation = parseSavedLocation(
+        updates.addLocation,
+        "addLocation",
+      );
 
       const labelExists = currentLocations.some(
         (loc) => loc.label === newLocation.label,
@@ -2589,7 +2739,10 @@ export const updateUserProfile = async (
       }
 
       if (preciseLocation !== undefined) {
-        newLocations[index].preciseLocation = preciseLocation;
+        newLocations[index].preciseLocation = parseGeoPoint(
+          preciseLocation,
+          "updateLocation.preciseLocation",
+        );
       }
 
       locationsChanged = true;
@@ -2704,6 +2857,8 @@ export const updateUserPassword = async (
     .where(eq(users.id, userId))
     .returning();
 
+  closeRevokedSessions(user.id);
+
   await db.insert(auditLogs).values({
     userId: user.id,
     action: "password.changed",
@@ -2754,6 +2909,8 @@ export const resetPassword = async (
     .where(eq(users.id, user.id))
     .returning();
 
+  closeRevokedSessions(user.id);
+
   await db.insert(auditLogs).values({
     userId: user.id,
     action: "password.reset",
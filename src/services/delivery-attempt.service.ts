@@ -0,0 +1,137 @@
+import { eq, asc } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../config/database.js";
+import {
+  deliveryAttempts,
+  deliveryFailureReasonEnum,
+} from "../models/schema.js";
+import { CloudinaryService, UploadResult } from "./cloudinary.service.js";
+import { GeoPointInput, geoPointInputSchema } from "../utils/geo.js";
+
+export type DeliveryFailureReason =
+  (typeof deliveryFailureReasonEnum.enumValues)[number];
+
+// How each reason reads in notifications
+export const DELIVERY_FAILURE_REASON_LABELS: Record<
+  DeliveryFailureReason,
+  string
+> = {
+  customer_not_home: "Nobody was available to receive the package",
+  wrong_address: "The delivery address was wrong",
+  customer_refused: "The package was refused",
+  location_inaccessible: "The delivery location could not be reached",
+  package_damaged: "The package was damaged",
+  other: "The delivery could not be completed",
+};
+
+const failedDeliverySchema = z
+  .object({
+    reason: z.enum(deliveryFailureReasonEnum.enumValues),
+    note: z.string().trim().min(1).max(500).nullish(),
+    // Base64 encoded data:image/ string, e.g. of the door or the address
+    photo: z
+      .string()
+      .startsWith("data:image/", "expected a base64 encoded data:image/ string")
+      .nullish(),
+    location: geoPointInputSchema,
+  })
+  .strict()
+  .refine((attempt) => attempt.reason !== "other" || attempt.note, {
+    message: "is required when the reason is other",
+    path: ["note"],
+  });
+
+export interface FailedDeliveryDTO {
+  reason?: string;
+  note?: string | null;
+  photo?: string | null;
+  location?: GeoPointInput;
+}
+
+export type FailedDelivery = z.output<typeof failedDeliverySchema>;
+
+export const parseFailedDelivery = (input: unknown): FailedDelivery => {
+  const parsed = failedDeliverySchema.safeParse(input ?? {});
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid failed delivery: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return parsed.data;
+};
+
+export class DeliveryAttemptService {
+  /**
+   * Record a failed attempt. Pass the transaction that moves the order on,
+   * so the two commit together.
+   */
+  async recordAttempt(
+    tx: any,
+    input: {
+      orderId: string;
+      orgId: string;
+      riderId: string;
+      attemptNumber: number;
+      attempt: FailedDelivery;
+      photo: UploadResult | null;
+    },
+  ) {
+    const [attempt] = await tx
+      .insert(deliveryAttempts)
+      .values({
+        orderId: input.orderId,
+        orgId: input.orgId,
+        riderId: input.riderId,
+        attemptNumber: input.attemptNumber,
+        reason: input.attempt.reason,
+        note: input.attempt.note ?? null,
+        photoUrl: input.photo?.secureUrl,
+        photoPublicId: input.photo?.publicId,
+        location: input.attempt.location,
+      })
+      .returning({
+        id: deliveryAttempts.id,
+        attemptNumber: deliveryAttempts.attemptNumber,
+        reason: deliveryAttempts.reason,
+        note: deliveryAttempts.note,
+        photoUrl: deliveryAttempts.photoUrl,
+        location: deliveryAttempts.location,
+        createdAt: deliveryAttempts.createdAt,
+      });
+
+    return attempt;
+  }
+
+  /**
+   * An order's failed attempts, oldest first
+   */
+  async listAttempts(orderId: string, tx: any = db) {
+    return await tx
+      .select({
+        id: deliveryAttempts.id,
+        attemptNumber: deliveryAttempts.attemptNumber,
+        reason: deliveryAttempts.reason,
+        note: deliveryAttempts.note,
+        photoUrl: deliveryAttempts.photoUrl,
+        location: deliveryAttempts.location,
+        riderId: deliveryAttempts.riderId,
+        createdAt: deliveryAttempts.createdAt,
+      })
+      .from(deliveryAttempts)
+      .where(eq(deliveryAttempts.orderId, orderId))
+      .orderBy(asc(deliveryAttempts.attemptNumber));
+  }
+
+  async uploadPhoto(photo: string): Promise<UploadResult> {
+    return CloudinaryService.uploadImage(photo, {
+      folder: "failed_deliveries",
+      transformation: [{ width: 1280, crop: "limit" }, { quality: "auto" }],
+    });
+  }
+}
+
+export const deliveryAttemptService = new DeliveryAttemptService();
@@ -0,0 +1,447 @@
+import { eq, and, ne, asc, desc, inArray } from "drizzle-orm";
+import { db } from "../config/database.js";
+import { deliveryBatches, orders, users, GeoPoint } from "../models/schema.js";
+import { Coordinates, DistanceFn, haversineDistanceKm } from "../utils/geo.js";
+import { planStopSequence } from "../utils/stop-planning.js";
+import { OrderStatus } from "./order-event.service.js";
+import { orderService } from "./order.service.js";
+import { organizationService } from "./organization.service.js";
+
+export type DeliveryBatchStatus = "planned" | "in_progress" | "completed";
+
+const OPEN_BATCH_STATUSES: DeliveryBatchStatus[] = ["planned", "in_progress"];
+// Partial unique index allowing one open batch per rider
+const OPEN_BATCH_INDEX = "delivery_batches_open_rider_id_unique";
+
+export const MAX_BATCH_STOPS = 20;
+
+// Stops that need nothing more from the rider
+const FINISHED_STATUSES: OrderStatus[] = ["delivered", "cancelled"];
+// Stops the rider is already heading to or standing at, which keep their
+// place when the batch is re-planned
+const UNDER_WAY_STATUSES: OrderStatus[] = ["in_transit", "arrived_at_location"];
+// Stops whose package is still at the pickup
+const NOT_PICKED_UP_STATUSES: OrderStatus[] = [
+  "pending",
+  "rider_accepted",
+  "customer_location_set",
+  "confirmed",
+];
+
+export interface CreateDeliveryBatchDTO {
+  riderId: string;
+  orderIds: string[];
+}
+
+export class DeliveryBatchService {
+  constructor(private distanceFn: DistanceFn = haversineDistanceKm) {}
+
+  /**
+   * Group orders already assigned to one rider into a multi-stop run,
+   * planned from the organization's pickup point
+   */
+  async createBatch(
+    orgId: string,
+    ownerId: string,
+    dto: CreateDeliveryBatchDTO,
+  ) {
+    if (!dto.riderId) {
+      throw new Error("riderId is required");
+    }
+
+    if (!Array.isArray(dto.orderIds) || dto.orderIds.length < 2) {
+      throw new Error("A batch needs at least two orders");
+    }
+
+    if (new Set(dto.orderIds).size !== dto.orderIds.length) {
+      throw new Error("Each order can only be added to a batch once");
+    }
+
+    if (dto.orderIds.length > MAX_BATCH_STOPS) {
+      throw new Error(`A batch may have at most ${MAX_BATCH_STOPS} stops`);
+    }
+
+    const batchId = await db.transaction(async (tx) => {
+      const openBatch = await tx.query.deliveryBatches.findFirst({
+        where: and(
+          eq(deliveryBatches.riderId, dto.riderId),
+          inArray(deliveryBatches.status, OPEN_BATCH_STATUSES),
+        ),
+        columns: { id: true },
+      });
+
+      if (openBatch) {
+        throw new Error("Rider already has a batch in progress");
+      }
+
+      const batchOrders = await tx
+        .select({
+          id: orders.id,
+          orderNumber: orders.orderNumber,
+          riderId: orders.riderId,
+          status: orders.status,
+          batchId: orders.batchId,
+          pickupLocationId: orders.pickupLocationId,
+          location: orders.customerLocationPrecise,
+        })
+        .from(orders)
+        .where(and(eq(orders.orgId, orgId), inArray(orders.id, dto.orderIds)))
+        // Held until the batch is saved, so a concurrent request cannot put
+        // the same orders in another batch
+        .for("update");
+
+      if (batchOrders.length !== dto.orderIds.length) {
+        throw new Error("One or more orders were not found");
+      }
+
+      for (const order of batchOrders) {
+        if (order.riderId !== dto.riderId) {
+          throw new Error(
+            `Order ${order.orderNumber} is not assigned to this rider`,
+          );
+        }
+
+        if (
+          order.status === "scheduled" ||
+          FINISHED_STATUSES.includes(order.status)
+        ) {
+          throw new Error(
+            `Order ${order.orderNumber} cannot be batched in ${order.status} status`,
+          );
+        }
+
+        if (order.batchId) {
+          throw new Error(`Order ${order.orderNumber} is already in a batch`);
+        }
+
+        // The rider collects every package of a batch in one trip
+        if (order.pickupLocationId !== batchOrders[0].pickupLocationId) {
+          throw new Error("All orders of a batch must share a pickup location");
+        }
+      }
+
+      const [batch] = await tx
+        .insert(deliveryBatches)
+        .values({
+          orgId,
+          riderId: dto.riderId,
+          createdBy: ownerId,
+        })
+        .returning()
+        .catch((error) => {
+          // A concurrent request opened a batch for the rider first
+          if (error?.cause?.constraint === OPEN_BATCH_INDEX) {
+            throw new Error("Rider already has a batch in progress");
+          }
+          throw error;
+        });
+
+      const pickup = await organizationService.getPickupPoint(
+        { orgId, pickupLocationId: batchOrders[0].pickupLocationId },
+        tx,
+      );
+
+      const planned = planStopSequence(
+        pickup.coordinates,
+        batchOrders.map((order) => ({
+          orderId: order.id,
+          location: order.location,
+        })),
+        this.distanceFn,
+      );
+
+      await this.saveSequence(
+        tx,
+        batch.id,
+        planned.map((stop) => stop.orderId),
+      );
+
+      return batch.id;
+    });
+
+    return this.getBatch(batchId, orgId, ownerId, "owner");
+  }
+
+  /**
+   * Get a batch with its stops in order. Riders only see their own batches.
+   */
+  async getBatch(
+    batchId: string,
+    orgId: string,
+    userId: string,
+    userRole: string,
+  ) {
+    const batch = await this.findBatch(db, batchId, orgId, userId, userRole);
+    const stops = await this.loadStops(db, batchId);
+    const currentStop = stops.find(
+      (stop) => !FINISHED_STATUSES.includes(stop.status),
+    );
+
+    const pickup = await organizationService.getPickupPoint({
+      orgId,
+      pickupLocationId: stops[0]?.pickupLocationId ?? null,
+    });
+
+    return {
+      ...batch,
+      totalStops: stops.length,
+      currentStop: currentStop?.stopNumber ?? null,
+      pickup,
+      stops,
+    };
+  }
+
+  /**
+   * Get the rider's batch that is planned or under way, if any
+   */
+  async getCurrentBatch(riderId: string, orgId: string) {
+    const batch = await db.query.deliveryBatches.findFirst({
+      where: and(
+        eq(deliveryBatches.orgId, orgId),
+        eq(deliveryBatches.riderId, riderId),
+        inArray(deliveryBatches.status, OPEN_BATCH_STATUSES),
+      ),
+      orderBy: desc(deliveryBatches.createdAt),
+      columns: { id: true },
+    });
+
+    if (!batch) return null;
+
+    return this.getBatch(batch.id, orgId, riderId, "rider");
+  }
+
+  /**
+   * Re-plan the stops still ahead of the rider with nearest-neighbour.
+   * Finished stops and the stop the rider is heading to keep their place.
+   * The plan starts at the pickup while any package is still there, and at
+   * the rider's current position otherwise.
+   */
+  async optimizeBatch(
+    batchId: string,
+    orgId: string,
+    userId: string,
+    userRole: string,
+  ) {
+    await db.transaction(async (tx) => {
+      const batch = await this.findBatch(tx, batchId, orgId, userId, userRole);
+
+      if (batch.status === "completed") {
+        throw new Error("Batch is already completed");
+      }
+
+      const stops = await this.loadStops(tx, batchId);
+      const isPinned = (status: OrderStatus) =>
+        FINISHED_STATUSES.includes(status) ||
+        UNDER_WAY_STATUSES.includes(status);
+
+      const pinned = stops.filter((stop) => isPinned(stop.status));
+      const open = stops.filter((stop) => !isPinned(stop.status));
+
+      const pickup = await organizationService.getPickupPoint(
+        { orgId, pickupLocationId: stops[0]?.pickupLocationId ?? null },
+        tx,
+      );
+      let start: Coordinates | null = pickup.coordinates;
+
+      if (
+        batch.riderId &&
+        !open.some((stop) => NOT_PICKED_UP_STATUSES.includes(stop.status))
+      ) {
+        const rider = await tx.query.users.findFirst({
+          where: eq(users.id, batch.riderId),
+          columns: { currentLocation: true },
+        });
+        start = rider?.currentLocation ?? start;
+      }
+
+      const planned = planStopSequence(
+        start,
+        open.map((stop) => ({
+          orderId: stop.orderId,
+          location: stop.customerLocationPrecise,
+        })),
+        this.distanceFn,
+      );
+
+      await this.saveSequence(tx, batchId, [
+        ...pinned.map((stop) => stop.orderId),
+        ...planned.map((stop) => stop.orderId),
+      ]);
+    });
+
+    return this.getBatch(batchId, orgId, userId, userRole);
+  }
+
+  /**
+   * Move the rider on at the current stop, the first one not yet delivered
+   * or cancelled. Each order goes through its own status transitions:
+   * confirmed orders are all picked up together at the pickup, then the
+   * current stop is started and marked arrived. Delivery is confirmed per
+   * order with the customer's code, which moves the batch to the next stop.
+   */
+  async advanceBatch(batchId: string, orgId: string, riderId: string) {
+    const batch = await this.findBatch(db, batchId, orgId, riderId, "rider");
+
+    if (batch.status === "completed") {
+      throw new Error("Batch is already completed");
+    }
+
+    const stops = await this.loadStops(db, batchId);
+    const current = stops.find(
+      (stop) => !FINISHED_STATUSES.includes(stop.status),
+    );
+
+    if (!current) {
+      throw new Error("Every stop of this batch is done");
+    }
+
+    switch (current.status) {
+      case "confirmed":
+        for (const stop of stops) {
+          if (stop.status === "confirmed") {
+            await orderService.markPackagePickedUp(stop.orderId, riderId);
+          }
+        }
+        break;
+      case "package_picked_up":
+        await orderService.startDelivery(current.orderId, riderId);
+        break;
+      case "in_transit":
+        await orderService.markArrivedAtLocation(current.orderId, riderId);
+        break;
+      case "arrived_at_location":
+        throw new Error(
+          `Confirm delivery of ${current.orderNumber} with the customer's code to move on to the next stop`,
+        );
+      default:
+        throw new Error(
+          `Order ${current.orderNumber} at stop ${current.stopNumber} is not confirmed yet`,
+        );
+    }
+
+    if (batch.status === "planned") {
+      await db
+        .update(deliveryBatches)
+        .set({
+          status: "in_progress",
+          startedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(deliveryBatches.id, batchId),
+            eq(deliveryBatches.status, "planned"),
+          ),
+        );
+    }
+
+    return this.getBatch(batchId, orgId, riderId, "rider");
+  }
+
+  /**
+   * Complete a batch once none of its stops needs the rider any more
+   */
+  async syncBatch(batchId: string) {
+    const stops = await db
+      .select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.batchId, batchId));
+
+    if (stops.some((stop) => !FINISHED_STATUSES.includes(stop.status))) {
+      return;
+    }
+
+    await db
+      .update(deliveryBatches)
+      .set({
+        status: "completed",
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(deliveryBatches.id, batchId),
+          ne(deliveryBatches.status, "completed"),
+        ),
+      );
+  }
+
+  /**
+   * Take an order out of its batch, e.g. once it moved to another rider
+   */
+  async removeOrder(orderId: string, batchId: string) {
+    await db
+      .update(orders)
+      .set({ batchId: null, stopSequence: null, updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.batchId, batchId)));
+
+    await this.syncBatch(batchId);
+  }
+
+  private async findBatch(
+    tx: any,
+    batchId: string,
+    orgId: string,
+    userId: string,
+    userRole: string,
+  ) {
+    const conditions = [
+      eq(deliveryBatches.id, batchId),
+      eq(deliveryBatches.orgId, orgId),
+    ];
+
+    if (userRole === "rider") {
+      conditions.push(eq(deliveryBatches.riderId, userId));
+    }
+
+    const batch = await tx.query.deliveryBatches.findFirst({
+      where: and(...conditions),
+    });
+
+    if (!batch) {
+      throw new Error("Batch not found or you don't have access to it");
+    }
+
+    return batch as typeof deliveryBatches.$inferSelect;
+  }
+
+  private async loadStops(tx: any, batchId: string) {
+    const rows: Array<{
+      orderId: string;
+      orderNumber: string;
+      status: OrderStatus;
+      pickupLocationId: string | null;
+      customerLocationLabel: string | null;
+      customerLocationPrecise: GeoPoint | null;
+      customerName: string | null;
+      customerPhone: string | null;
+    }> = await tx
+      .select({
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+        pickupLocationId: orders.pickupLocationId,
+        customerLocationLabel: orders.customerLocationLabel,
+        customerLocationPrecise: orders.customerLocationPrecise,
+        customerName: users.name,
+        customerPhone: users.phoneNumber,
+      })
+      .from(orders)
+      .innerJoin(users, eq(orders.customerId, users.id))
+      .where(eq(orders.batchId, batchId))
+      .orderBy(asc(orders.stopSequence));
+
+    return rows.map((row, index) => ({ stopNumber: index + 1, ...row }));
+  }
+
+  private async saveSequence(tx: any, batchId: string, orderIds: string[]) {
+    for (const [index, orderId] of orderIds.entries()) {
+      await tx
+        .update(orders)
+        .set({ batchId, stopSequence: index + 1, updatedAt: new Date() })
+        .where(eq(orders.id, orderId));
+    }
+  }
+}
+
+export const deliveryBatchService = new DeliveryBatchService();
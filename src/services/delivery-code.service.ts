@@ -0,0 +1,217 @@
+import { eq, and, lt, sql } from "drizzle-orm";
+import { db } from "../config/database.js";
+import { orders, orderDeliveryCodes, users } from "../models/schema.js";
+import { generateOTP, verifyOTP } from "./otp.service.js";
+import { sendEmail } from "./email.service.js";
+import { pushNotificationService } from "./push-notification.service.js";
+
+const DELIVERY_CODE_TTL_MINUTES = 30;
+const MAX_DELIVERY_CODE_ATTEMPTS = 5;
+
+export class DeliveryCodeService {
+  /**
+   * Issue a fresh delivery code for an order, replacing any previous one
+   */
+  async issueCode(orderId: string): Promise<{ code: string; expiresAt: Date }> {
+    const code = generateOTP();
+    const expiresAt = new Date(
+      Date.now() + DELIVERY_CODE_TTL_MINUTES * 60 * 1000,
+    );
+
+    await db
+      .insert(orderDeliveryCodes)
+      .values({ orderId, code, expiresAt })
+      .onConflictDoUpdate({
+        target: orderDeliveryCodes.orderId,
+        set: {
+          code,
+          expiresAt,
+          attempts: 0,
+          verifiedAt: null,
+          updatedAt: new Date(),
+        },
+      });
+
+    return { code, expiresAt };
+  }
+
+  /**
+   * Issue a code and send it to the customer by push and email
+   */
+  async issueAndSendCode(order: {
+    id: string;
+    orderNumber: string;
+    customerId: string;
+  }): Promise<void> {
+    const { code, expiresAt } = await this.issueCode(order.id);
+
+    const customer = await db.query.users.findFirst({
+      where: eq(users.id, order.customerId),
+      columns: { email: true, name: true },
+    });
+
+    await Promise.allSettled([
+      pushNotificationService.notifyDeliveryCode(
+        order.customerId,
+        order.orderNumber,
+        code,
+      ),
+      customer?.email
+        ? sendEmail({
+            to: customer.email,
+            subject: `Your Delivery Code - ${order.orderNumber}`,
+            html: `
+            <h2>Your Rider Has Arrived</h2>
+            <p>Hello ${customer.name || "Customer"},</p>
+            <p>Your rider has arrived with order <strong>${order.orderNumber}</strong>.</p>
+            <p>Share this code with the rider to receive your package:</p>
+            <h1 style="letter-spacing: 4px;">${code}</h1>
+            <p>This code expires at ${expiresAt.toUTCString()}. Only share it once you have your package in hand.</p>
+          `,
+          })
+        : Promise.resolve(),
+    ]);
+  }
+
+  /**
+   * Get the current code for a customer's order, re-issuing it if it has
+   * expired or its attempts are used up
+   */
+  async getCodeForCustomer(orderId: string, customerId: string) {
+    const order = await db.query.orders.findFirst({
+      where: and(
+        eq(orders.id, orderId),
+        eq(orders.customerId, customerId),
+        eq(orders.status, "arrived_at_location"),
+      ),
+      columns: { id: true },
+    });
+
+    if (!order) {
+      throw new Error(
+        "Order not found or rider has not arrived at your location yet",
+      );
+    }
+
+    const existing = await db.query.orderDeliveryCodes.findFirst({
+      where: eq(orderDeliveryCodes.orderId, orderId),
+    });
+
+    if (
+      existing &&
+      existing.expiresAt > new Date() &&
+      existing.attempts < MAX_DELIVERY_CODE_ATTEMPTS
+    ) {
+      return {
+        code: existing.code,
+        expiresAt: existing.expiresAt,
+        attemptsRemaining: MAX_DELIVERY_CODE_ATTEMPTS - existing.attempts,
+      };
+    }
+
+    const { code, expiresAt } = await this.issueCode(orderId);
+
+    return {
+      code,
+      expiresAt,
+      attemptsRemaining: MAX_DELIVERY_CODE_ATTEMPTS,
+    };
+  }
+
+  /**
+   * Check a code submitted by the rider. Failed attempts are counted
+   * outside of any delivery transaction so they survive its rollback.
+   */
+  async verifyCode(
+    orderId: string,
+    riderId: string,
+    inputCode: string,
+  ): Promise<void> {
+    const order = await db.query.orders.findFirst({
+      where: and(
+        eq(orders.id, orderId),
+        eq(orders.riderId, riderId),
+        eq(orders.status, "arrived_at_location"),
+      ),
+      columns: { id: true },
+    });
+
+    if (!order) {
+      throw new Error("Order not found or not arrived at location");
+    }
+
+    const deliveryCode = await db.query.orderDeliveryCodes.findFirst({
+      where: eq(orderDeliveryCodes.orderId, orderId),
+    });
+
+    if (!deliveryCode) {
+      throw new Error(
+        "No delivery code has been issued for this order. Ask the customer to open the order in their app",
+      );
+    }
+
+    if (deliveryCode.expiresAt <= new Date()) {
+      throw new Error(
+        "Delivery code has expired. Ask the customer to refresh their code in the app",
+      );
+    }
+
+    // Take an attempt before comparing, in one guarded update, so parallel
+    // submissions cannot get past the limit between a read and a write
+    const [claimed] = await db
+      .update(orderDeliveryCodes)
+      .set({
+        attempts: sql`${orderDeliveryCodes.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(orderDeliveryCodes.id, deliveryCode.id),
+          lt(orderDeliveryCodes.attempts, MAX_DELIVERY_CODE_ATTEMPTS),
+        ),
+      )
+      .returning({ attempts: orderDeliveryCodes.attempts });
+
+    if (!claimed) {
+      throw new Error(
+        "Too many incorrect delivery code attempts. Ask the customer to refresh their code in the app",
+      );
+    }
+
+    if (!verifyOTP(inputCode, deliveryCode.code, deliveryCode.expiresAt)) {
+      throw new Error(
+        `Invalid delivery code. ${MAX_DELIVERY_CODE_ATTEMPTS - claimed.attempts} attempt(s) remaining`,
+      );
+    }
+
+    // Only incorrect codes count against the limit
+    await db
+      .update(orderDeliveryCodes)
+      .set({
+        attempts: sql`greatest(${orderDeliveryCodes.attempts} - 1, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(orderDeliveryCodes.id, deliveryCode.id));
+  }
+
+  /**
+   * Drop an order's code, e.g. when the order moves to another rider
+   */
+  async revokeCode(tx: any, orderId: string): Promise<void> {
+    await tx
+      .delete(orderDeliveryCodes)
+      .where(eq(orderDeliveryCodes.orderId, orderId));
+  }
+
+  /**
+   * Mark an order's code as used once the delivery is confirmed
+   */
+  async markVerified(tx: any, orderId: string): Promise<void> {
+    await tx
+      .update(orderDeliveryCodes)
+      .set({ verifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(orderDeliveryCodes.orderId, orderId));
+  }
+}
+
+export const deliveryCodeService = new DeliveryCodeService();
@@ -0,0 +1,392 @@
+import { eq, and, asc, desc, isNull, lt, sql } from "drizzle-orm";
+import { db } from "../config/database.js";
+import {
+  orders,
+  users,
+  userOrganizations,
+  dispatchDecisions,
+} from "../models/schema.js";
+import { DistanceFn, haversineDistanceKm } from "../utils/geo.js";
+import {
+  DispatchCandidate,
+  rankDispatchCandidates,
+} from "../utils/dispatch-ranking.js";
+import { organizationService } from "./organization.service.js";
+import { checkVehicleCapacity } from "./package.service.js";
+import { orderEventService } from "./order-event.service.js";
+import { pushNotificationService } from "./push-notification.service.js";
+
+// Statuses in which an order keeps its rider busy
+const ACTIVE_ORDER_STATUSES = [
+  "pending",
+  "rider_accepted",
+  "customer_location_set",
+  "confirmed",
+  "package_picked_up",
+  "in_transit",
+  "arrived_at_location",
+  "delivery_failed",
+  "reattempt_scheduled",
+  "returning_to_sender",
+] as const;
+
+export class DispatchService {
+  constructor(private distanceFn: DistanceFn = haversineDistanceKm) {}
+
+  /**
+   * Load every rider of an organization with what the ranking needs
+   */
+  async loadCandidates(tx: any, orgId: string): Promise<DispatchCandidate[]> {
+    const rows = await tx
+      .select({
+        riderId: users.id,
+        name: users.name,
+        currentLocation: users.currentLocation,
+        vehicle: users.vehicle,
+        userIsActive: users.isActive,
+        membershipIsActive: userOrganizations.isActive,
+        isSuspended: userOrganizations.isSuspended,
+        activeOrders: sql<number>`(
+          SELECT count(*)::int FROM ${orders}
+          WHERE ${orders.riderId} = ${users.id}
+            AND ${orders.status} IN (${sql.join(
+              ACTIVE_ORDER_STATUSES.map((status) => sql`${status}`),
+              sql`, `,
+            )})
+        )`,
+      })
+      .from(userOrganizations)
+      .innerJoin(users, eq(userOrganizations.userId, users.id))
+      .where(
+        and(
+          eq(userOrganizations.orgId, orgId),
+          eq(userOrganizations.role, "rider"),
+        ),
+      );
+
+    return rows.map((row: any) => ({
+      riderId: row.riderId,
+      name: row.name,
+      location: row.currentLocation,
+      vehicle: row.vehicle,
+      activeOrders: Number(row.activeOrders),
+      isActive: row.userIsActive && row.membershipIsActive,
+      isSuspended: row.isSuspended,
+    }));
+  }
+
+  /**
+   * Offer an order to the best rider that has not been tried yet. Assigns the
+   * order and logs the decision; returns null when no candidate is left, in
+   * which case the order is left in the open pool.
+   */
+  async offerToNextRider(
+    tx: any,
+    order: {
+      id: string;
+      orgId: string;
+      riderId: string | null;
+      pickupLocationId: string | null;
+      packageWeightKg: number | null;
+      packageLengthCm: number | null;
+      packageWidthCm: number | null;
+      packageHeightCm: number | null;
+    },
+  ) {
+    const pickup = await organizationService.getPickupPoint(order, tx);
+    const settings = await organizationService.getSettings(order.orgId, tx);
+
+    const previousDecisions = await tx
+      .select({ riderId: dispatchDecisions.riderId })
+      .from(dispatchDecisions)
+      .where(eq(dispatchDecisions.orderId, order.id));
+    const triedRiderIds = new Set(
+      previousDecisions.map((decision: any) => decision.riderId),
+    );
+
+    const ranked = rankDispatchCandidates(
+      await this.loadCandidates(tx, order.orgId),
+      pickup.coordinates,
+      this.distanceFn,
+    );
+    // Riders whose vehicle cannot carry the package are never offered it
+    const exceeded = new Map(
+      ranked.map((candidate) => [
+        candidate.riderId,
+        checkVehicleCapacity(order, candidate.vehicle),
+      ]),
+    );
+    const chosen = ranked.find(
+      (candidate) =>
+        !triedRiderIds.has(candidate.riderId) &&
+        exceeded.get(candidate.riderId)!.length === 0,
+    );
+
+    const candidatesSnapshot = ranked.map((candidate) => ({
+      riderId: candidate.riderId,
+      score: candidate.score,
+      distanceKm: candidate.distanceKm,
+      activeOrders: candidate.activeOrders,
+      previouslyTried: triedRiderIds.has(candidate.riderId),
+      exceedsVehicleCapacity: exceeded.get(candidate.riderId),
+    }));
+
+    await tx.insert(dispatchDecisions).values({
+      orderId: order.id,
+      orgId: order.orgId,
+      riderId: chosen?.riderId ?? null,
+      attempt: previousDecisions.length + 1,
+      outcome: chosen ? "offered" : "exhausted",
+      score: chosen?.score ?? null,
+      distanceKm: chosen?.distanceKm ?? null,
+      activeOrders: chosen?.activeOrders ?? null,
+      candidates: candidatesSnapshot,
+      expiresAt: chosen
+        ? new Date(Date.now() + settings.dispatchAcceptWindowSeconds * 1000)
+        : null,
+      resolvedAt: chosen ? null : new Date(),
+    });
+
+    // Only move the order on while it still sits with the rider it was read
+    // with and nobody has accepted it
+    const [reassigned] = await tx
+      .update(orders)
+      .set({
+        riderId: chosen?.riderId ?? null,
+        assignedAt: chosen ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(orders.id, order.id),
+          order.riderId
+            ? eq(orders.riderId, order.riderId)
+            : isNull(orders.riderId),
+          isNull(orders.riderAcceptedAt),
+        ),
+      )
+      .returning({ id: orders.id });
+
+    if (!reassigned) {
+      throw new Error("Order changed while dispatching, please try again");
+    }
+
+    console.log(
+      `🧭 Dispatch for order ${order.id}: ${
+        chosen
+          ? `offered to rider ${chosen.riderId} (score ${chosen.score.toFixed(2)})`
+          : "no candidates left, order moved to open pool"
+      }`,
+    );
+
+    await orderEventService.record(tx, {
+      orderId: order.id,
+      orgId: order.orgId,
+      eventType: "rider_auto_assigned",
+      actorRole: "system",
+      metadata: {
+        previousRiderId: order.riderId,
+        riderId: chosen?.riderId ?? null,
+        score: chosen?.score ?? null,
+        distanceKm: chosen?.distanceKm ?? null,
+        attempt: previousDecisions.length + 1,
+      },
+    });
+
+    if (!chosen) return null;
+
+    return await tx.query.users.findFirst({
+      where: eq(users.id, chosen.riderId),
+      columns: {
+        id: true,
+        email: true,
+        name: true,
+        isActive: true,
+        role: true,
+      },
+    });
+  }
+
+  /**
+   * Close the open offer once the offered rider accepts
+   */
+  async markAccepted(tx: any, orderId: string, riderId: string) {
+    await tx
+      .update(dispatchDecisions)
+      .set({ outcome: "accepted", resolvedAt: new Date() })
+      .where(
+        and(
+          eq(dispatchDecisions.orderId, orderId),
+          eq(dispatchDecisions.riderId, riderId),
+          eq(dispatchDecisions.outcome, "offered"),
+        ),
+      );
+  }
+
+  /**
+   * Close the open offer when the offered rider declines it
+   */
+  async markDeclined(tx: any, orderId: string, riderId: string) {
+    await tx
+      .update(dispatchDecisions)
+      .set({ outcome: "declined", resolvedAt: new Date() })
+      .where(
+        and(
+          eq(dispatchDecisions.orderId, orderId),
+          eq(dispatchDecisions.riderId, riderId),
+          eq(dispatchDecisions.outcome, "offered"),
+        ),
+      );
+  }
+
+  /**
+   * Move orders whose offer was not accepted in time on to the next rider
+   */
+  async processExpiredOffers(): Promise<number> {
+    const expired = await db
+      .select({
+        id: dispatchDecisions.id,
+        orderId: dispatchDecisions.orderId,
+        riderId: dispatchDecisions.riderId,
+      })
+      .from(dispatchDecisions)
+      .where(
+        and(
+          eq(dispatchDecisions.outcome, "offered"),
+          lt(dispatchDecisions.expiresAt, new Date()),
+        ),
+      )
+      .orderBy(asc(dispatchDecisions.expiresAt))
+      .limit(50);
+
+    let processed = 0;
+
+    for (const decision of expired) {
+      try {
+        const result = await db.transaction(async (tx) => {
+          // Lock the order before the offer, in the same order as a rider
+          // accepting it, so the two cannot deadlock
+          const [order] = await tx
+            .select()
+            .from(orders)
+            .where(eq(orders.id, decision.orderId))
+            .for("update");
+
+          // The order moved on without the dispatcher (accepted, reassigned
+          // by an owner or cancelled), so the offer no longer applies
+          if (
+            !order ||
+            order.riderId !== decision.riderId ||
+            order.riderAcceptedAt ||
+            !["pending", "customer_location_set"].includes(order.status)
+          ) {
+            await tx
+              .update(dispatchDecisions)
+              .set({ outcome: "superseded", resolvedAt: new Date() })
+              .where(
+                and(
+                  eq(dispatchDecisions.id, decision.id),
+                  eq(dispatchDecisions.outcome, "offered"),
+                ),
+              );
+            return null;
+          }
+
+          // Another run of the sweep, or the rider accepting or declining,
+          // may have resolved the offer since it was read
+          const [timedOut] = await tx
+            .update(dispatchDecisions)
+            .set({ outcome: "timed_out", resolvedAt: new Date() })
+            .where(
+              and(
+                eq(dispatchDecisions.id, decision.id),
+                eq(dispatchDecisions.outcome, "offered"),
+              ),
+            )
+            .returning({ id: dispatchDecisions.id });
+
+          if (!timedOut) return null;
+
+          const nextRider = await this.offerToNextRider(tx, order);
+          return { order, nextRider };
+        });
+
+        if (result) {
+          await this.notifyFallback(result.order, result.nextRider);
+          processed++;
+        }
+      } catch (error) {
+        console.error(`Error re-dispatching order ${decision.orderId}:`, error);
+      }
+    }
+
+    return processed;
+  }
+
+  /**
+   * Get the dispatch decisions of an order, oldest first
+   */
+  async getDecisionLog(orderId: string, orgId: string) {
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.id, orderId), eq(orders.orgId, orgId)),
+      columns: { id: true },
+    });
+
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    return await db
+      .select()
+      .from(dispatchDecisions)
+      .where(eq(dispatchDecisions.orderId, orderId))
+      .orderBy(
+        asc(dispatchDecisions.attempt),
+        desc(dispatchDecisions.createdAt),
+      );
+  }
+
+  private async notifyFallback(
+    order: {
+      orgId: string;
+      riderId: string | null;
+      customerId: string;
+      orderNumber: string;
+      packageDescription: string;
+    },
+    nextRider: { id: string; name: string | null } | null | undefined,
+  ) {
+    if (nextRider) {
+      await pushNotificationService.notifyOrderReassigned(
+        order.riderId,
+        nextRider.id,
+        order.customerId,
+        order.orderNumber,
+        nextRider.name || "Rider",
+      );
+      return;
+    }
+
+    const riders = await db
+      .select({ id: users.id })
+      .from(userOrganizations)
+      .innerJoin(users, eq(userOrganizations.userId, users.id))
+      .where(
+        and(
+          eq(userOrganizations.orgId, order.orgId),
+          eq(userOrganizations.role, "rider"),
+          eq(userOrganizations.isActive, true),
+          eq(userOrganizations.isSuspended, false),
+          eq(users.isActive, true),
+        ),
+      );
+
+    await pushNotificationService.notifyOrderAvailable(
+      riders.map((rider) => rider.id),
+      order.orderNumber,
+      order.packageDescription,
+    );
+  }
+}
+
+export const dispatchService = new DispatchService();
@@ -39,3 +39,48 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
     throw new Error(`Failed to send email: ${error.message}`);
   }
 };
+
+// Resend accepts up to 100 emails per batch request
+const MAX_EMAIL_BATCH_SIZE = 100;
+
+/**
+ * Send many emails in as few requests as possible. A failed batch is
+ * logged and does not stop the ones after it.
+ */
+export const sendEmails = async (emails: EmailOptions[]): Promise<void> => {
+  if (emails.length === 0) return;
+
+  if (!resend) {
+    console.warn("⚠️ Resend not configured");
+    return;
+  }
+
+  for (let i = 0; i < emails.length; i += MAX_EMAIL_BATCH_SIZE) {
+    const batch = emails.slice(i, i + MAX_EMAIL_BATCH_SIZE);
+
+    try {
+      console.log(`📧 Sending batch of ${batch.length} emails...`);
+
+      const { error } = await resend.batch.send(
+        batch.map((options) => ({
+          from: `Otonav <${EMAIL_FROM}>`,
+          to: options.to,
+          subject: options.subject,
+          html: options.html,
+          text: options.text,
+        })),
+      );
+
+      if (error) {
+        throw error;
+      }
+
+      console.log(`✅ Sent batch of ${batch.length} emails`);
+    } catch (error: any) {
+      console.error(
+        `❌ Failed to send batch of ${batch.length} emails:`,
+        error,
+      );
+    }
+  }
+};
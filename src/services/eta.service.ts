@@ -0,0 +1,231 @@
+import { eq, and, isNull } from "drizzle-orm";
+import { db } from "../config/database.js";
+import {
+  orders,
+  organizations,
+  pickupLocations,
+  users,
+  GeoPoint,
+  OrganizationSettings,
+} from "../models/schema.js";
+import { Coordinates, DistanceFn, haversineDistanceKm } from "../utils/geo.js";
+import { ETA_STATUSES, OrderEta, estimateEta } from "../utils/eta.js";
+import { OrderStatus } from "./order-event.service.js";
+import {
+  organizationService,
+  pickupPointColumns,
+} from "./organization.service.js";
+import { locationHistoryService } from "./location-history.service.js";
+import { pushNotificationService } from "./push-notification.service.js";
+
+// A new ETA is only pushed to clients when it moved by at least this much
+const ETA_BROADCAST_THRESHOLD_SECONDS = 60;
+// Customers get a single "almost there" push once the ETA drops below this
+const RIDER_NEARBY_THRESHOLD_SECONDS = 5 * 60;
+
+interface EtaOrder {
+  id: string;
+  orgId: string;
+  status: OrderStatus;
+  riderCurrentLocation: GeoPoint | null;
+  customerLocationPrecise: GeoPoint | null;
+}
+
+export class EtaService {
+  constructor(private distanceFn: DistanceFn = haversineDistanceKm) {}
+
+  /**
+   * Compute the current ETA of an order
+   */
+  async getEta(
+    order: EtaOrder,
+    pickup: Coordinates | null,
+    settings?: Required<OrganizationSettings>,
+    // Loaded from the order's trail when not passed in
+    recentSpeedKmh?: number | null,
+  ): Promise<OrderEta | null> {
+    if (
+      !order.riderCurrentLocation ||
+      !order.customerLocationPrecise ||
+      !ETA_STATUSES.includes(order.status)
+    ) {
+      return null;
+    }
+
+    const orgSettings =
+      settings ?? (await organizationService.getSettings(order.orgId));
+
+    return estimateEta(
+      {
+        status: order.status,
+        riderLocation: order.riderCurrentLocation,
+        pickup,
+        destination: order.customerLocationPrecise,
+        averageSpeedKmh: orgSettings.averageSpeedKmh,
+        recentSpeedKmh:
+          recentSpeedKmh !== undefined
+            ? recentSpeedKmh
+            : await locationHistoryService.getRecentSpeedKmh(order.id),
+      },
+      this.distanceFn,
+    );
+  }
+
+  /**
+   * Compute ETAs for a list of orders, loading each organization's settings
+   * once and every rider's recent speed in one query. Orders without an ETA
+   * are left out of the map.
+   */
+  async getEtas(
+    orderList: Array<EtaOrder & { pickupCoordinates: GeoPoint | null }>,
+  ): Promise<Map<string, OrderEta>> {
+    const etas = new Map<string, OrderEta>();
+    const settingsByOrg = new Map<string, Required<OrganizationSettings>>();
+
+    const estimable = orderList.filter(
+      (order) =>
+        order.riderCurrentLocation &&
+        order.customerLocationPrecise &&
+        ETA_STATUSES.includes(order.status),
+    );
+    const recentSpeeds = await locationHistoryService.getRecentSpeedsKmh(
+      estimable.map((order) => order.id),
+    );
+
+    for (const order of estimable) {
+      let settings = settingsByOrg.get(order.orgId);
+      if (!settings) {
+        settings = await organizationService.getSettings(order.orgId);
+        settingsByOrg.set(order.orgId, settings);
+      }
+
+      const eta = await this.getEta(
+        order,
+        order.pickupCoordinates,
+        settings,
+        recentSpeeds.get(order.id) ?? null,
+      );
+      if (eta) etas.set(order.id, eta);
+    }
+
+    return etas;
+  }
+
+  /**
+   * Recompute an order's ETA after a rider location update. Sends the
+   * one-off "rider nearby" push when due, and returns the ETA when it moved
+   * enough to be broadcast (null otherwise).
+   */
+  async handleLocationUpdate(orderId: string): Promise<OrderEta | null> {
+    const [order] = await db
+      .select({
+        id: orders.id,
+        orgId: orders.orgId,
+        orderNumber: orders.orderNumber,
+        customerId: orders.customerId,
+        riderId: orders.riderId,
+        status: orders.status,
+        riderCurrentLocation: orders.riderCurrentLocation,
+        customerLocationPrecise: orders.customerLocationPrecise,
+        riderNearbyNotifiedAt: orders.riderNearbyNotifiedAt,
+        etaBroadcastSeconds: orders.etaBroadcastSeconds,
+        pickupCoordinates: pickupPointColumns.pickupCoordinates,
+      })
+      .from(orders)
+      .innerJoin(organizations, eq(orders.orgId, organizations.id))
+      .leftJoin(
+        pickupLocations,
+        eq(orders.pickupLocationId, pickupLocations.id),
+      )
+      .where(eq(orders.id, orderId))
+      .limit(1);
+
+    if (!order) return null;
+
+    const eta = await this.getEta(order, order.pickupCoordinates);
+
+    if (!eta) {
+      if (order.etaBroadcastSeconds !== null) await this.forgetOrder(orderId);
+      return null;
+    }
+
+    if (
+      !eta.viaPickup &&
+      eta.etaSeconds <= RIDER_NEARBY_THRESHOLD_SECONDS &&
+      !order.riderNearbyNotifiedAt
+    ) {
+      await this.notifyRiderNearby(order, eta);
+    }
+
+    const previous = order.etaBroadcastSeconds;
+    if (
+      previous !== null &&
+      Math.abs(previous - eta.etaSeconds) < ETA_BROADCAST_THRESHOLD_SECONDS
+    ) {
+      return null;
+    }
+
+    // Claim the broadcast on the order row, so with several instances
+    // sharing the load only one of them sends a given change
+    const [claimed] = await db
+      .update(orders)
+      .set({ etaBroadcastSeconds: eta.etaSeconds })
+      .where(
+        and(
+          eq(orders.id, orderId),
+          previous === null
+            ? isNull(orders.etaBroadcastSeconds)
+            : eq(orders.etaBroadcastSeconds, previous),
+        ),
+      )
+      .returning({ id: orders.id });
+
+    return claimed ? eta : null;
+  }
+
+  /**
+   * Forget the last ETA pushed for an order once it is finished or handed
+   * to another rider, so the next trip starts with a fresh broadcast
+   */
+  async forgetOrder(orderId: string) {
+    await db
+      .update(orders)
+      .set({ etaBroadcastSeconds: null })
+      .where(eq(orders.id, orderId));
+  }
+
+  private async notifyRiderNearby(
+    order: {
+      id: string;
+      orderNumber: string;
+      customerId: string;
+      riderId: string | null;
+    },
+    eta: OrderEta,
+  ) {
+    // Claim the notification first so concurrent pings send it only once
+    const [claimed] = await db
+      .update(orders)
+      .set({ riderNearbyNotifiedAt: new Date() })
+      .where(and(eq(orders.id, order.id), isNull(orders.riderNearbyNotifiedAt)))
+      .returning({ id: orders.id });
+
+    if (!claimed) return;
+
+    const rider = order.riderId
+      ? await db.query.users.findFirst({
+          where: eq(users.id, order.riderId),
+          columns: { name: true },
+        })
+      : null;
+
+    await pushNotificationService.notifyRiderNearby(
+      order.customerId,
+      order.orderNumber,
+      rider?.name || "Your rider",
+      Math.max(1, Math.round(eta.etaSeconds / 60)),
+    );
+  }
+}
+
+export const etaService = new EtaService();
@@ -0,0 +1,185 @@
+import { eq, and, asc, desc, inArray, isNotNull } from "drizzle-orm";
+import { db } from "../config/database.js";
+import {
+  orders,
+  users,
+  userOrganizations,
+  GeoPoint,
+} from "../models/schema.js";
+import { OrderStatus } from "./order-event.service.js";
+import { getLocationWebSocketServer } from "../websocket/location.server.js";
+
+// Statuses in which an accepted order keeps the rider out on the road
+const ON_ORDER_STATUSES: OrderStatus[] = [
+  "rider_accepted",
+  "confirmed",
+  "package_picked_up",
+  "in_transit",
+  "arrived_at_location",
+  "delivery_failed",
+  "reattempt_scheduled",
+  "returning_to_sender",
+];
+
+// An on-duty rider counts as online while positions keep arriving this often
+const ONLINE_WINDOW_SECONDS = 5 * 60;
+
+// "active": on duty or out on an order, "on_order": out on an order only
+export type LiveRiderFilter = "active" | "on_order" | "all";
+
+export interface LiveRider {
+  riderId: string;
+  name: string | null;
+  phoneNumber: string | null;
+  profileImage: string | null;
+  isActive: boolean;
+  online: boolean;
+  location: GeoPoint | null;
+  lastSeenAt: string | null;
+  activeOrder: {
+    id: string;
+    orderNumber: string;
+    status: OrderStatus;
+  } | null;
+}
+
+/**
+ * Whether an on-duty rider has reported a position recently enough to be
+ * shown as online
+ */
+export const isRiderOnline = (
+  isActive: boolean,
+  location: GeoPoint | null,
+  now: Date = new Date(),
+): boolean => {
+  if (!isActive || !location) return false;
+
+  const ageSeconds =
+    (now.getTime() - new Date(location.recordedAt).getTime()) / 1000;
+  return ageSeconds <= ONLINE_WINDOW_SECONDS;
+};
+
+export class FleetService {
+  /**
+   * Get the latest position, current order and online state of the riders
+   * of an organization. Suspended and deactivated riders are left out.
+   */
+  async getLiveRiders(
+    orgId: string,
+    filter: LiveRiderFilter = "active",
+    riderIds?: string[],
+  ): Promise<LiveRider[]> {
+    const conditions = [
+      eq(userOrganizations.orgId, orgId),
+      eq(userOrganizations.role, "rider"),
+      eq(userOrganizations.isActive, true),
+      eq(userOrganizations.isSuspended, false),
+    ];
+
+    if (riderIds) {
+      conditions.push(inArray(userOrganizations.userId, riderIds));
+    }
+
+    const riders = await db
+      .select({
+        riderId: users.id,
+        name: users.name,
+        phoneNumber: users.phoneNumber,
+        profileImage: users.profileImage,
+        isActive: users.isActive,
+        location: users.currentLocation,
+      })
+      .from(userOrganizations)
+      .innerJoin(users, eq(userOrganizations.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(users.name));
+
+    if (riders.length === 0) return [];
+
+    const activeOrders = await db
+      .select({
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+        riderId: orders.riderId,
+      })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.orgId, orgId),
+          inArray(
+            orders.riderId,
+            riders.map((rider) => rider.riderId),
+          ),
+          inArray(orders.status, ON_ORDER_STATUSES),
+          isNotNull(orders.riderAcceptedAt),
+        ),
+      )
+      .orderBy(desc(orders.updatedAt));
+
+    // A rider carrying several orders is shown with the most recently updated
+    const orderByRider = new Map<string, LiveRider["activeOrder"]>();
+    for (const order of activeOrders) {
+      if (!orderByRider.has(order.riderId!)) {
+        orderByRider.set(order.riderId!, {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+        });
+      }
+    }
+
+    const now = new Date();
+
+    return riders
+      .map((rider) => ({
+        ...rider,
+        online: isRiderOnline(rider.isActive, rider.location, now),
+        lastSeenAt: rider.location?.recordedAt ?? null,
+        activeOrder: orderByRider.get(rider.riderId) ?? null,
+      }))
+      .filter((rider) => {
+        if (filter === "on_order") return rider.activeOrder !== null;
+        if (filter === "active") return rider.isActive || !!rider.activeOrder;
+        return true;
+      });
+  }
+
+  /**
+   * Push a rider's current state to owners watching the live map of each of
+   * the rider's organizations, on whichever instance they are connected.
+   * Errors are logged rather than thrown so they never fail the change that
+   * triggered the update.
+   */
+  async publishRiderUpdate(riderId: string) {
+    const server = getLocationWebSocketServer();
+    if (!server) return;
+
+    try {
+      const memberships = await db
+        .select({ orgId: userOrganizations.orgId })
+        .from(userOrganizations)
+        .where(
+          and(
+            eq(userOrganizations.userId, riderId),
+            eq(userOrganizations.role, "rider"),
+            eq(userOrganizations.isActive, true),
+          ),
+        );
+
+      for (const { orgId } of memberships) {
+        const [rider] = await this.getLiveRiders(orgId, "all", [riderId]);
+        if (rider) {
+          server.sendRiderUpdate(orgId, rider);
+        }
+      }
+    } catch (error) {
+      console.error(
+        `Error publishing live update for rider ${riderId}:`,
+        error,
+      );
+    }
+  }
+}
+
+export const fleetService = new FleetService();
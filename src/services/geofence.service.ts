@@ -0,0 +1,106 @@
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { db } from "../config/database.js";
+import { orders } from "../models/schema.js";
+import { Coordinates, DistanceFn, haversineDistanceKm } from "../utils/geo.js";
+import { OrderStatus } from "./order-event.service.js";
+
+export type GeofenceTarget = "pickup" | "dropoff";
+
+// How a status change was triggered, recorded on the order event
+export type TransitionSource = "manual" | "geofence";
+
+export interface GeofenceEntry {
+  target: GeofenceTarget;
+  nextStatus: OrderStatus;
+  distanceMeters: number;
+}
+
+export interface GeofenceInput {
+  status: OrderStatus;
+  riderLocation: Coordinates | null;
+  pickup: Coordinates | null;
+  dropoff: Coordinates | null;
+  radiusMeters: number;
+}
+
+// A rider still inside a geofence is reminded at most this often
+const GEOFENCE_PROMPT_INTERVAL_MS = 2 * 60 * 1000;
+
+/**
+ * Work out whether the rider is inside the geofence that matters for the
+ * order's current status: the pickup point while "confirmed", the customer's
+ * location while "in_transit". Returns null when no transition is due.
+ */
+export const detectGeofenceEntry = (
+  input: GeofenceInput,
+  distanceFn: DistanceFn = haversineDistanceKm,
+): GeofenceEntry | null => {
+  if (!input.riderLocation) return null;
+
+  let target: GeofenceTarget;
+  let center: Coordinates | null;
+  let nextStatus: OrderStatus;
+
+  if (input.status === "confirmed") {
+    target = "pickup";
+    center = input.pickup;
+    nextStatus = "package_picked_up";
+  } else if (input.status === "in_transit") {
+    target = "dropoff";
+    center = input.dropoff;
+    nextStatus = "arrived_at_location";
+  } else {
+    return null;
+  }
+
+  if (!center) return null;
+
+  const distanceMeters = distanceFn(input.riderLocation, center) * 1000;
+  if (distanceMeters > input.radiusMeters) return null;
+
+  return {
+    target,
+    nextStatus,
+    distanceMeters: Math.round(distanceMeters),
+  };
+};
+
+export class GeofenceService {
+  /**
+   * Whether the rider should be prompted again at the geofence of the
+   * order's current status. The prompt is claimed on the order row, so with
+   * several instances only one of them sends it.
+   */
+  async shouldPrompt(orderId: string): Promise<boolean> {
+    const [claimed] = await db
+      .update(orders)
+      .set({ geofencePromptedAt: new Date() })
+      .where(
+        and(
+          eq(orders.id, orderId),
+          or(
+            isNull(orders.geofencePromptedAt),
+            lt(
+              orders.geofencePromptedAt,
+              new Date(Date.now() - GEOFENCE_PROMPT_INTERVAL_MS),
+            ),
+          ),
+        ),
+      )
+      .returning({ id: orders.id });
+
+    return !!claimed;
+  }
+
+  /**
+   * Forget prompts for an order once it has moved past its geofences
+   */
+  async clearPrompts(orderId: string) {
+    await db
+      .update(orders)
+      .set({ geofencePromptedAt: null })
+      .where(eq(orders.id, orderId));
+  }
+}
+
+export const geofenceService = new GeofenceService();
@@ -0,0 +1,243 @@
+import { eq, and, asc, desc, gte, lt, lte, inArray } from "drizzle-orm";
+import { db } from "../config/database.js";
+import { orders, riderLocationPoints, GeoPoint } from "../models/schema.js";
+import { haversineDistanceKm, pathDistanceKm } from "../utils/geo.js";
+
+// A ping closer than this to the last stored point is treated as a duplicate...
+const MIN_POINT_DISTANCE_METRES = 10;
+// ...unless this long has passed, so a waiting rider still leaves a trail
+const MAX_POINT_GAP_SECONDS = 60;
+
+// Window used to measure how fast the rider is currently moving
+const RECENT_SPEED_WINDOW_SECONDS = 5 * 60;
+const MIN_RECENT_SPEED_SPAN_SECONDS = 30;
+
+const LOCATION_HISTORY_RETENTION_DAYS = Number(
+  process.env.LOCATION_HISTORY_RETENTION_DAYS || 90,
+);
+
+export class LocationHistoryService {
+  /**
+   * Store screened rider pings for an order, oldest first. Buffered pings
+   * may be older than ones already stored, so fixes whose timestamp is
+   * already in the history are skipped, and a point that barely moved since
+   * the one before it is dropped. Returns how many points were stored.
+   */
+  async recordPoints(
+    orderId: string,
+    riderId: string,
+    points: GeoPoint[],
+    tx: any = db,
+  ): Promise<number> {
+    if (points.length === 0) return 0;
+
+    const first = new Date(points[0].recordedAt);
+    const last = new Date(points[points.length - 1].recordedAt);
+
+    const [before] = await tx
+      .select({
+        lat: riderLocationPoints.lat,
+        lng: riderLocationPoints.lng,
+        recordedAt: riderLocationPoints.recordedAt,
+      })
+      .from(riderLocationPoints)
+      .where(
+        and(
+          eq(riderLocationPoints.orderId, orderId),
+          lt(riderLocationPoints.recordedAt, first),
+        ),
+      )
+      .orderBy(desc(riderLocationPoints.recordedAt))
+      .limit(1);
+
+    const stored = await tx
+      .select({ recordedAt: riderLocationPoints.recordedAt })
+      .from(riderLocationPoints)
+      .where(
+        and(
+          eq(riderLocationPoints.orderId, orderId),
+          gte(riderLocationPoints.recordedAt, first),
+          lte(riderLocationPoints.recordedAt, last),
+        ),
+      );
+    const storedTimes = new Set(
+      stored.map((row: { recordedAt: Date }) => row.recordedAt.getTime()),
+    );
+
+    const rows = [];
+    let previous: { lat: number; lng: number; recordedAt: Date } | null =
+      before ?? null;
+
+    for (const point of points) {
+      const recordedAt = new Date(point.recordedAt);
+      if (storedTimes.has(recordedAt.getTime())) continue;
+
+      if (previous) {
+        const metresMoved = haversineDistanceKm(previous, point) * 1000;
+        const secondsElapsed =
+          (recordedAt.getTime() - previous.recordedAt.getTime()) / 1000;
+
+        if (
+          metresMoved < MIN_POINT_DISTANCE_METRES &&
+          secondsElapsed < MAX_POINT_GAP_SECONDS
+        ) {
+          continue;
+        }
+      }
+
+      rows.push({
+        orderId,
+        riderId,
+        lat: point.lat,
+        lng: point.lng,
+        accuracy: point.accuracy,
+        heading: point.heading,
+        speed: point.speed,
+        recordedAt,
+      });
+      previous = { lat: point.lat, lng: point.lng, recordedAt };
+    }
+
+    if (rows.length > 0) {
+      await tx.insert(riderLocationPoints).values(rows);
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Get the stored trail of an order, oldest first, with its total length
+   * and a GeoJSON LineString for map clients
+   */
+  async getRoute(orderId: string) {
+    const points = await db
+      .select({
+        lat: riderLocationPoints.lat,
+        lng: riderLocationPoints.lng,
+        accuracy: riderLocationPoints.accuracy,
+        heading: riderLocationPoints.heading,
+        speed: riderLocationPoints.speed,
+        recordedAt: riderLocationPoints.recordedAt,
+      })
+      .from(riderLocationPoints)
+      .where(eq(riderLocationPoints.orderId, orderId))
+      .orderBy(asc(riderLocationPoints.recordedAt));
+
+    const totalDistanceKm = pathDistanceKm(points);
+    const startedAt = points[0]?.recordedAt ?? null;
+    const endedAt = points[points.length - 1]?.recordedAt ?? null;
+
+    return {
+      pointCount: points.length,
+      totalDistanceKm: Math.round(totalDistanceKm * 1000) / 1000,
+      startedAt,
+      endedAt,
+      points,
+      geojson: {
+        type: "Feature" as const,
+        geometry: {
+          type: "LineString" as const,
+          // GeoJSON positions are [longitude, latitude]
+          coordinates: points.map((point) => [point.lng, point.lat]),
+        },
+        properties: {
+          orderId,
+          totalDistanceKm,
+          startedAt,
+          endedAt,
+          timestamps: points.map((point) => point.recordedAt),
+        },
+      },
+    };
+  }
+
+  /**
+   * Average speed in km/h over the order's recent trail, or null when there
+   * are too few points to tell
+   */
+  async getRecentSpeedKmh(orderId: string): Promise<number | null> {
+    const speeds = await this.getRecentSpeedsKmh([orderId]);
+    return speeds.get(orderId) ?? null;
+  }
+
+  /**
+   * Recent speed of the riders of several orders, read in one query.
+   * Orders without enough recent points are left out of the map.
+   */
+  async getRecentSpeedsKmh(orderIds: string[]): Promise<Map<string, number>> {
+    const speeds = new Map<string, number>();
+    if (orderIds.length === 0) return speeds;
+
+    const since = new Date(Date.now() - RECENT_SPEED_WINDOW_SECONDS * 1000);
+
+    const points = await db
+      .select({
+        orderId: riderLocationPoints.orderId,
+        lat: riderLocationPoints.lat,
+        lng: riderLocationPoints.lng,
+        recordedAt: riderLocationPoints.recordedAt,
+      })
+      .from(riderLocationPoints)
+      .where(
+        and(
+          inArray(riderLocationPoints.orderId, [...new Set(orderIds)]),
+          gte(riderLocationPoints.recordedAt, since),
+        ),
+      )
+      .orderBy(
+        asc(riderLocationPoints.orderId),
+        asc(riderLocationPoints.recordedAt),
+      );
+
+    const pointsByOrder = new Map<string, typeof points>();
+    for (const point of points) {
+      if (!pointsByOrder.has(point.orderId)) {
+        pointsByOrder.set(point.orderId, []);
+      }
+      pointsByOrder.get(point.orderId)!.push(point);
+    }
+
+    for (const [orderId, orderPoints] of pointsByOrder) {
+      if (orderPoints.length < 2) continue;
+
+      const spanSeconds =
+        (orderPoints[orderPoints.length - 1].recordedAt.getTime() -
+          orderPoints[0].recordedAt.getTime()) /
+        1000;
+
+      if (spanSeconds < MIN_RECENT_SPEED_SPAN_SECONDS) continue;
+
+      speeds.set(orderId, pathDistanceKm(orderPoints) / (spanSeconds / 3600));
+    }
+
+    return speeds;
+  }
+
+  /**
+   * Delete trails of finished orders older than the retention period
+   */
+  async pruneExpired(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - LOCATION_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const finishedOrders = db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(inArray(orders.status, ["delivered", "cancelled", "returned"]));
+
+    const deleted = await db
+      .delete(riderLocationPoints)
+      .where(
+        and(
+          lt(riderLocationPoints.recordedAt, cutoff),
+          inArray(riderLocationPoints.orderId, finishedOrders),
+        ),
+      )
+      .returning({ id: riderLocationPoints.id });
+
+    return deleted.length;
+  }
+}
+
+export const locationHistoryService = new LocationHistoryService();
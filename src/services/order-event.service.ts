@@ -0,0 +1,128 @@
+import { eq, asc } from "drizzle-orm";
+import { db } from "../config/database.js";
+import { orderEvents, orderStatusEnum, GeoPoint } from "../models/schema.js";
+
+export type OrderStatus = (typeof orderStatusEnum.enumValues)[number];
+
+export type OrderEventType =
+  | "order_created"
+  | "order_released"
+  | "status_changed"
+  | "customer_location_set"
+  | "order_cancelled"
+  | "rider_reassigned"
+  | "rider_declined"
+  | "order_claimed"
+  | "rider_auto_assigned"
+  | "delivery_failed"
+  | "reattempt_scheduled"
+  | "returning_to_sender";
+
+export type OrderEventActorRole = "owner" | "rider" | "customer" | "system";
+
+export interface RecordOrderEventInput {
+  orderId: string;
+  orgId: string;
+  eventType: OrderEventType;
+  actorId?: string | null;
+  actorRole: OrderEventActorRole;
+  fromStatus?: OrderStatus | null;
+  toStatus?: OrderStatus | null;
+  riderLocation?: GeoPoint | null;
+  metadata?: Record<string, any>;
+}
+
+// Metadata keys that customers are allowed to see on their timeline
+const CUSTOMER_VISIBLE_METADATA = [
+  "reason",
+  "locationLabel",
+  "scheduledFor",
+  "windowStart",
+  "windowEnd",
+  "attemptNumber",
+];
+
+export class OrderEventService {
+  /**
+   * Record an order event. Pass the surrounding transaction so the event
+   * commits (or rolls back) together with the change it describes.
+   */
+  async record(tx: any, input: RecordOrderEventInput): Promise<void> {
+    await tx.insert(orderEvents).values({
+      orderId: input.orderId,
+      orgId: input.orgId,
+      eventType: input.eventType,
+      actorId: input.actorId ?? null,
+      actorRole: input.actorRole,
+      fromStatus: input.fromStatus ?? null,
+      toStatus: input.toStatus ?? null,
+      riderLocation: input.riderLocation ?? null,
+      metadata: input.metadata ?? null,
+    });
+  }
+
+  /**
+   * Get the events of an order oldest first, redacted for the viewer's role
+   */
+  async getTimeline(orderId: string, viewerRole: string) {
+    const events = await db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.createdAt));
+
+    return events.map((event) => this.redactForRole(event, viewerRole));
+  }
+
+  private redactForRole(
+    event: typeof orderEvents.$inferSelect,
+    viewerRole: string,
+  ) {
+    const base = {
+      id: event.id,
+      eventType: event.eventType,
+      actorRole: event.actorRole,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      createdAt: event.createdAt,
+    };
+
+    if (viewerRole === "owner") {
+      return {
+        ...base,
+        actorId: event.actorId,
+        riderLocation: event.riderLocation,
+        metadata: event.metadata,
+      };
+    }
+
+    if (viewerRole === "rider") {
+      return {
+        ...base,
+        riderLocation: event.riderLocation,
+        metadata: event.metadata,
+      };
+    }
+
+    // Public tracking links only show when each step happened
+    if (viewerRole === "public") {
+      return {
+        id: event.id,
+        eventType: event.eventType,
+        fromStatus: event.fromStatus,
+        toStatus: event.toStatus,
+        createdAt: event.createdAt,
+      };
+    }
+
+    const metadata = Object.fromEntries(
+      Object.entries(event.metadata || {}).filter(([key]) =>
+        CUSTOMER_VISIBLE_METADATA.includes(key),
+      ),
+    );
+
+    return { ...base, metadata };
+  }
+}
+
+export const orderEventService = new OrderEventService();
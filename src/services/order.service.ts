@@ -4,43 +4,571 @@ import {
   users,
   userOrganizations,
   organizations,
+  pickupLocations,
+  packageCategories,
+  proofOfDeliveries,
+  SavedLocation,
+  GeoPoint,
+  PackagePhoto,
+  RiderVehicle,
+  orderStatusEnum,
 } from "../models/schema.js";
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
-import { sendEmail } from "./email.service.js";
+import {
+  eq,
+  ne,
+  and,
+  or,
+  asc,
+  desc,
+  gte,
+  lte,
+  ilike,
+  sql,
+  inArray,
+  isNull,
+  SQL,
+  TransactionRollbackError,
+} from "drizzle-orm";
+import { z } from "zod";
 import { pushNotificationService } from "./push-notification.service.js";
+import { CloudinaryService, UploadResult } from "./cloudinary.service.js";
+import { GeoPointInput, parseGeoPoint } from "../utils/geo.js";
+import { parseCsvRecords } from "../utils/csv.js";
+import {
+  organizationService,
+  pickupPointColumns,
+  toPickupPoint,
+} from "./organization.service.js";
+import { deliveryCodeService } from "./delivery-code.service.js";
+import {
+  deliveryAttemptService,
+  FailedDeliveryDTO,
+  parseFailedDelivery,
+} from "./delivery-attempt.service.js";
+import { orderEventService, OrderStatus } from "./order-event.service.js";
+import { dispatchService } from "./dispatch.service.js";
+import {
+  checkVehicleCapacity,
+  PackageDetails,
+  PackageDetailsInput,
+  packageService,
+  parsePackageDetails,
+} from "./package.service.js";
+import { locationHistoryService } from "./location-history.service.js";
+import {
+  MAX_LOCATION_BATCH_SIZE,
+  RejectedPointReason,
+  screenLocationBatch,
+} from "../utils/location-screening.js";
+import { etaService } from "./eta.service.js";
+import {
+  detectGeofenceEntry,
+  geofenceService,
+  TransitionSource,
+} from "./geofence.service.js";
+import { getLocationWebSocketServer } from "../websocket/location.server.js";
+import { fleetService } from "./fleet.service.js";
+import { orderEvents, OrderRecord } from "../events/order.events.js";
 
 export interface CreateOrderDTO {
   packageDescription: string;
   customerId: string;
-  riderId: string;
+  // Leave out to put the order in the organization's open pool
+  riderId?: string;
+  // Let the dispatcher pick the rider instead
+  autoAssign?: boolean;
+  // ISO 8601 times of a booked delivery; scheduledFor defaults to the start
+  // of the window
+  scheduledFor?: string;
+  windowStart?: string;
+  windowEnd?: string;
+  // One of the organization's pickup locations; the organization's own
+  // address when left out
+  pickupLocationId?: string;
+  // Size, weight, value and handling of the package
+  packageDetails?: PackageDetailsInput;
+  // One of the customer's saved locations to deliver to; the customer sets
+  // the location in the app when left out
+  locationLabel?: string;
+}
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Empty values count as left out, as they do for empty CSV cells
+const optionalImportValue = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => value || undefined);
+
+const orderImportRowSchema = z
+  .object({
+    // Email or user ID
+    customer: z.string().trim().min(1),
+    // Email or user ID, "auto" for the dispatcher, left out for the open pool
+    rider: optionalImportValue,
+    packageDescription: z.string().trim().min(1),
+    locationLabel: optionalImportValue,
+  })
+  .strict();
+
+const orderImportSchema = z
+  .object({
+    rows: z.array(z.unknown()).min(1).optional(),
+    csv: z.string().min(1).optional(),
+    dryRun: z.boolean().default(false),
+    // "atomic" creates nothing unless every row is valid; "partial" creates
+    // the valid rows and reports the others
+    mode: z.enum(["atomic", "partial"]).default("atomic"),
+  })
+  .strict()
+  .refine((input) => (input.rows === undefined) !== (input.csv === undefined), {
+    message: "provide either rows or csv",
+  });
+
+export type OrderImportInput = z.input<typeof orderImportSchema>;
+
+const IMPORT_CSV_COLUMNS: Record<string, string> = {
+  customer: "customer",
+  rider: "rider",
+  packagedescription: "packageDescription",
+  locationlabel: "locationLabel",
+};
+
+// "Package Description", "package_description" and "packageDescription"
+// all name the same column
+const normalizeImportHeader = (header: string) =>
+  IMPORT_CSV_COLUMNS[header.toLowerCase().replace(/[\s_-]/g, "")] ?? null;
+
+// An import names users by email or ID
+const resolveImportUser = (
+  value: string,
+  role: "Customer" | "Rider",
+  userIdsByEmail: Map<string, string>,
+): string => {
+  if (value.includes("@")) {
+    const userId = userIdsByEmail.get(value.toLowerCase());
+    if (!userId) {
+      throw new Error(`No ${role.toLowerCase()} with email ${value}`);
+    }
+    return userId;
+  }
+
+  if (!z.uuid().safeParse(value).success) {
+    throw new Error(`${role} must be an email or a user ID`);
+  }
+
+  return value;
+};
+
+const toImportedOrderDTO = (
+  row: z.output<typeof orderImportRowSchema>,
+  userIdsByEmail: Map<string, string>,
+): CreateOrderDTO => {
+  const autoAssign = row.rider?.toLowerCase() === "auto";
+
+  return {
+    customerId: resolveImportUser(row.customer, "Customer", userIdsByEmail),
+    riderId:
+      row.rider && !autoAssign
+        ? resolveImportUser(row.rider, "Rider", userIdsByEmail)
+        : undefined,
+    autoAssign,
+    packageDescription: row.packageDescription,
+    locationLabel: row.locationLabel,
+  };
+};
+
+export interface OrderImportRowResult {
+  // 1-based; the first row after the CSV header is row 1
+  row: number;
+  // "valid" rows passed every check but were not created: the import was a
+  // dry run, or an atomic import with failed rows
+  status: "created" | "valid" | "failed";
+  orderId?: string;
+  orderNumber?: string;
+  error?: string;
+}
+
+export interface OrderImportResult {
+  dryRun: boolean;
+  mode: "atomic" | "partial";
+  // Whether the created rows were saved
+  committed: boolean;
+  total: number;
+  created: number;
+  failed: number;
+  rows: OrderImportRowResult[];
 }
 
 export interface AssignLocationDTO {
   locationLabel: string;
-  locationPrecise?: string;
+  // Defaults to the customer's saved location with the same label
+  locationPrecise?: GeoPointInput;
+}
+
+export interface ReassignOrderDTO {
+  riderId: string;
+  reason?: string;
+}
+
+export interface ConfirmDeliveryDTO {
+  deliveryCode?: string;
+  photo?: string;
+  signature?: string;
+  recipientName?: string;
+  note?: string;
+}
+
+// Six digits, as issued by the delivery code service
+const deliveryCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/);
+
+export interface ScheduleReattemptDTO {
+  // Deliver the next attempt to another of the customer's saved locations
+  locationLabel?: string;
+}
+
+export interface ReturnToSenderDTO {
+  reason?: string;
+}
+
+// Where a batched order sits in its rider's run, e.g. stop 3 of 5
+export interface BatchStop {
+  batchId: string;
+  stopNumber: number;
+  totalStops: number;
+  // Stops before this one that are not delivered or cancelled yet
+  stopsAhead: number;
+}
+
+export interface LocationUpdateResult {
+  accepted: number;
+  // Accepted points written to the history; the rest were already stored
+  // or barely moved from the point before them
+  stored: number;
+  rejected: Array<{ recordedAt: string; reason: RejectedPointReason }>;
+  // Set when the newest accepted point became the rider's current location
+  currentLocation: GeoPoint | null;
 }
 
 const ORDER_STATUS_TRANSITIONS: Record<string, string[]> = {
+  scheduled: ["pending", "customer_location_set", "cancelled"],
   pending: ["rider_accepted", "customer_location_set", "cancelled"],
   rider_accepted: ["confirmed", "cancelled"],
   customer_location_set: ["confirmed", "cancelled"],
   confirmed: ["package_picked_up", "cancelled"],
   package_picked_up: ["in_transit", "cancelled"],
-  in_transit: ["arrived_at_location", "cancelled"],
-  arrived_at_location: ["delivered", "cancelled"],
+  in_transit: ["arrived_at_location", "delivery_failed", "cancelled"],
+  arrived_at_location: ["delivered", "delivery_failed", "cancelled"],
   delivered: [],
   cancelled: [],
+  // After a failed attempt the rider still has the package, so giving up on
+  // the order goes through returning_to_sender rather than cancelled
+  delivery_failed: ["reattempt_scheduled", "returning_to_sender"],
+  // The rider still has the package and starts the next attempt from here
+  reattempt_scheduled: ["in_transit", "returning_to_sender"],
+  returning_to_sender: ["returned"],
+  returned: [],
 };
 
-export class OrderService {
-  private generateOrderNumber(): string {
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, "0");
-    return `ORD${timestamp}${random}`;
+// Orders that can no longer go to another rider. Once the rider has the
+// package it cannot change hands without a handover, so this starts at pickup
+const NOT_REASSIGNABLE_STATUSES: OrderStatus[] = [
+  "package_picked_up",
+  "in_transit",
+  "arrived_at_location",
+  "delivery_failed",
+  "reattempt_scheduled",
+  "returning_to_sender",
+  "returned",
+  "delivered",
+  "cancelled",
+];
+
+interface OrderSchedule {
+  scheduledFor: Date;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+  releaseAt: Date;
+}
+
+interface ValidatedNewOrder {
+  rider: { id: string } | null;
+  schedule: OrderSchedule | null;
+  status: OrderStatus;
+  savedLocation: SavedLocation | null;
+}
+
+const parseScheduleTime = (value: unknown, field: string): Date => {
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`${field} must be an ISO 8601 date-time`);
+  }
+  return date;
+};
+
+/**
+ * Validate the booking fields of a new order. Returns null for a "deliver
+ * now" order; otherwise the times, with the release set the given number of
+ * minutes before the window (or scheduledFor) starts.
+ */
+const resolveOrderSchedule = (
+  dto: Pick<CreateOrderDTO, "scheduledFor" | "windowStart" | "windowEnd">,
+  releaseLeadMinutes: number,
+  now: Date = new Date(),
+): OrderSchedule | null => {
+  if (!dto.scheduledFor && !dto.windowStart && !dto.windowEnd) return null;
+
+  if (!dto.windowStart !== !dto.windowEnd) {
+    throw new Error("windowStart and windowEnd must be given together");
   }
 
+  const windowStart = dto.windowStart
+    ? parseScheduleTime(dto.windowStart, "windowStart")
+    : null;
+  const windowEnd = dto.windowEnd
+    ? parseScheduleTime(dto.windowEnd, "windowEnd")
+    : null;
+
+  if (windowStart && windowEnd && windowEnd <= windowStart) {
+    throw new Error("windowEnd must be after windowStart");
+  }
+
+  const scheduledFor = dto.scheduledFor
+    ? parseScheduleTime(dto.scheduledFor, "scheduledFor")
+    : windowStart!;
+
+  if (
+    windowStart &&
+    windowEnd &&
+    (scheduledFor < windowStart || scheduledFor > windowEnd)
+  ) {
+    throw new Error("scheduledFor must fall within the delivery window");
+  }
+
+  if ((windowEnd ?? scheduledFor) <= now) {
+    throw new Error("Scheduled deliveries must be booked in the future");
+  }
+
+  const startsAt = windowStart ?? scheduledFor;
+
+  return {
+    scheduledFor,
+    windowStart,
+    windowEnd,
+    releaseAt: new Date(startsAt.getTime() - releaseLeadMinutes * 60 * 1000),
+  };
+};
+
+/**
+ * Whether an order was delivered outside its booked window; null when it
+ * has no window or is not delivered yet
+ */
+export const isDeliveredOutsideWindow = (order: {
+  deliveredAt: Date | null;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+}): boolean | null => {
+  if (!order.deliveredAt || !order.windowStart || !order.windowEnd) {
+    return null;
+  }
+  return (
+    order.deliveredAt < order.windowStart || order.deliveredAt > order.windowEnd
+  );
+};
+
+/**
+ * When an order became confirmed: it needs both the rider's acceptance and
+ * the drop-off location, whichever came last
+ */
+const getConfirmedAt = (order: {
+  riderAcceptedAt: Date | null;
+  customerLocationSetAt: Date | null;
+}): Date | null => {
+  if (!order.riderAcceptedAt || !order.customerLocationSetAt) return null;
+  return order.riderAcceptedAt > order.customerLocationSetAt
+    ? order.riderAcceptedAt
+    : order.customerLocationSetAt;
+};
+
+// Lifecycle timestamps GET /orders can filter on with <field>From/<field>To
+const ORDER_LIST_TIMESTAMPS = {
+  createdAt: orders.createdAt,
+  scheduledFor: orders.scheduledFor,
+  assignedAt: orders.assignedAt,
+  riderAcceptedAt: orders.riderAcceptedAt,
+  customerLocationSetAt: orders.customerLocationSetAt,
+  packagePickedUpAt: orders.packagePickedUpAt,
+  deliveryStartedAt: orders.deliveryStartedAt,
+  arrivedAtLocationAt: orders.arrivedAtLocationAt,
+  deliveredAt: orders.deliveredAt,
+  cancelledAt: orders.cancelledAt,
+  deliveryFailedAt: orders.deliveryFailedAt,
+  returnedAt: orders.returnedAt,
+};
+
+type OrderListTimestamp = keyof typeof ORDER_LIST_TIMESTAMPS;
+
+// Sort keys are never null, so the cursor can page through them with a
+// plain (key, id) comparison
+const ORDER_LIST_SORTS = {
+  createdAt: orders.createdAt,
+  orderNumber: orders.orderNumber,
+  status: orders.status,
+};
+
+export const DEFAULT_ORDER_PAGE_SIZE = 25;
+export const MAX_ORDER_PAGE_SIZE = 100;
+
+// Query string values arrive as "a,b" or as a repeated parameter
+const queryList = (value: unknown) =>
+  (Array.isArray(value) ? value : [value]).flatMap((item) =>
+    typeof item === "string" ? item.split(",").filter(Boolean) : [item],
+  );
+
+const queryDate = z.coerce
+  .date({ error: "expected an ISO 8601 date or date-time" })
+  .optional();
+
+const timestampRangeShape = Object.fromEntries(
+  Object.keys(ORDER_LIST_TIMESTAMPS).flatMap((field) => [
+    [`${field}From`, queryDate],
+    [`${field}To`, queryDate],
+  ]),
+) as Record<
+  `${OrderListTimestamp}${"From" | "To"}`,
+  z.ZodOptional<z.ZodCoercedDate>
+>;
+
+const orderListQuerySchema = z
+  .object({
+    status: z
+      .preprocess(queryList, z.array(z.enum(orderStatusEnum.enumValues)))
+      .optional(),
+    riderId: z.uuid().optional(),
+    customerId: z.uuid().optional(),
+    // Matched against orderNumber and packageDescription
+    search: z.string().trim().min(1).max(100).optional(),
+    sortBy: z
+      .enum(Object.keys(ORDER_LIST_SORTS) as [keyof typeof ORDER_LIST_SORTS])
+      .default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_ORDER_PAGE_SIZE)
+      .default(DEFAULT_ORDER_PAGE_SIZE),
+    cursor: z.string().min(1).optional(),
+    ...timestampRangeShape,
+  })
+  .strict();
+
+export type OrderListQuery = z.output<typeof orderListQuerySchema>;
+
+interface OrderListCursor {
+  sortBy: OrderListQuery["sortBy"];
+  sortOrder: OrderListQuery["sortOrder"];
+  // The sort key as Postgres prints it, so timestamps keep their
+  // microseconds
+  value: string;
+  id: string;
+}
+
+const encodeOrderListCursor = (cursor: OrderListCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeOrderListCursor = (
+  token: string,
+  query: OrderListQuery,
+): OrderListCursor => {
+  let cursor: Partial<OrderListCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (typeof cursor?.value !== "string" || typeof cursor.id !== "string") {
+    throw new Error("Invalid cursor");
+  }
+
+  if (cursor.sortBy !== query.sortBy || cursor.sortOrder !== query.sortOrder) {
+    throw new Error("Cursor was issued for a different sort order");
+  }
+
+  return cursor as OrderListCursor;
+};
+
+/**
+ * Validate the query string of GET /orders, throwing an Error that names
+ * the offending parameters
+ */
+export const parseOrderListQuery = (input: unknown): OrderListQuery => {
+  const parsed = orderListQuerySchema.safeParse(input ?? {});
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid order query: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "query"} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return parsed.data;
+};
+
+/**
+ * SQL conditions for the filters of an order listing, on top of the ones
+ * limiting it to what the user may see
+ */
+const getOrderListFilters = (query: OrderListQuery): SQL[] => {
+  const filters: SQL[] = [];
+
+  if (query.status?.length) {
+    filters.push(inArray(orders.status, query.status));
+  }
+  if (query.riderId) filters.push(eq(orders.riderId, query.riderId));
+  if (query.customerId) filters.push(eq(orders.customerId, query.customerId));
+
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+    filters.push(
+      or(
+        ilike(orders.orderNumber, pattern),
+        ilike(orders.packageDescription, pattern),
+      )!,
+    );
+  }
+
+  for (const [field, column] of Object.entries(ORDER_LIST_TIMESTAMPS)) {
+    const from = query[`${field as OrderListTimestamp}From`];
+    const to = query[`${field as OrderListTimestamp}To`];
+    if (from) filters.push(gte(column, from));
+    if (to) filters.push(lte(column, to));
+  }
+
+  return filters;
+};
+
+// Events published when a rider moves an order on through updateOrderStatus
+const RIDER_TRANSITION_EVENTS: Record<
+  string,
+  | "order.picked_up"
+  | "order.delivery_started"
+  | "order.arrived"
+  | "order.returned"
+> = {
+  package_picked_up: "order.picked_up",
+  in_transit: "order.delivery_started",
+  arrived_at_location: "order.arrived",
+  returned: "order.returned",
+};
+
+export class OrderService {
   private canTransitionTo(currentStatus: string, newStatus: string): boolean {
     return (
       ORDER_STATUS_TRANSITIONS[currentStatus]?.includes(newStatus) ?? false
@@ -105,129 +633,630 @@ export class OrderService {
     }
   }
 
-  async createOrder(orgId: string, ownerUserId: string, dto: CreateOrderDTO) {
-    return await db.transaction(async (tx) => {
-      const ownerMembership = await tx.query.userOrganizations.findFirst({
-        where: and(
-          eq(userOrganizations.userId, ownerUserId),
+  private async validateRiderAssignment(
+    tx: any,
+    riderId: string,
+    orgId: string,
+  ) {
+    const riderMembership = await tx.query.userOrganizations.findFirst({
+      where: and(
+        eq(userOrganizations.userId, riderId),
+        eq(userOrganizations.orgId, orgId),
+        eq(userOrganizations.role, "rider"),
+        eq(userOrganizations.isActive, true),
+      ),
+    });
+
+    if (!riderMembership) {
+      throw new Error("Rider is not an active member of this organization");
+    }
+
+    if (riderMembership.isSuspended) {
+      throw new Error("Cannot assign orders to suspended riders");
+    }
+
+    const rider = await tx.query.users.findFirst({
+      where: eq(users.id, riderId),
+      columns: {
+        id: true,
+        email: true,
+        name: true,
+        isActive: true,
+        role: true,
+      },
+    });
+
+    if (!rider) {
+      throw new Error("Rider not found");
+    }
+
+    if (rider.role !== "rider") {
+      throw new Error("Assigned user is not a rider");
+    }
+
+    if (!rider.isActive) {
+      throw new Error(
+        "Rider is currently inactive and cannot be assigned orders",
+      );
+    }
+
+    return rider;
+  }
+
+  private async getAvailableRiderIds(tx: any, orgId: string) {
+    const riders = await tx
+      .select({ id: users.id })
+      .from(userOrganizations)
+      .innerJoin(users, eq(userOrganizations.userId, users.id))
+      .where(
+        and(
           eq(userOrganizations.orgId, orgId),
-          eq(userOrganizations.role, "owner"),
+          eq(userOrganizations.role, "rider"),
           eq(userOrganizations.isActive, true),
+          eq(userOrganizations.isSuspended, false),
+          eq(users.isActive, true),
         ),
-      });
+      );
 
-      if (!ownerMembership) {
-        throw new Error("Only organization owners can create orders");
-      }
+    return riders.map((rider: { id: string }) => rider.id);
+  }
 
-      const customer = await tx.query.users.findFirst({
-        where: and(
-          eq(users.id, dto.customerId),
-          eq(users.role, "customer"),
-          eq(users.emailVerified, true),
-        ),
-      });
+  private async assertOrgOwner(
+    tx: any,
+    ownerUserId: string,
+    orgId: string,
+    action = "create orders",
+  ) {
+    const ownerMembership = await tx.query.userOrganizations.findFirst({
+      where: and(
+        eq(userOrganizations.userId, ownerUserId),
+        eq(userOrganizations.orgId, orgId),
+        eq(userOrganizations.role, "owner"),
+        eq(userOrganizations.isActive, true),
+      ),
+    });
 
-      if (!customer) {
-        throw new Error("Customer not found or not verified");
-      }
+    if (!ownerMembership) {
+      throw new Error(`Only organization owners can ${action}`);
+    }
+  }
 
-      const riderMembership = await tx.query.userOrganizations.findFirst({
+  /**
+   * Check a new order against the organization's customers, riders,
+   * pickup locations and categories, and work out the status it starts in
+   */
+  private async validateNewOrder(
+    tx: any,
+    orgId: string,
+    dto: CreateOrderDTO,
+    details: PackageDetails,
+  ): Promise<ValidatedNewOrder> {
+    const customer = await tx.query.users.findFirst({
+      where: and(
+        eq(users.id, dto.customerId),
+        eq(users.role, "customer"),
+        eq(users.emailVerified, true),
+      ),
+      columns: { id: true, locations: true },
+    });
+
+    if (!customer) {
+      throw new Error("Customer not found or not verified");
+    }
+
+    if (dto.riderId && dto.autoAssign) {
+      throw new Error("Provide either a rider or autoAssign, not both");
+    }
+
+    const rider = dto.riderId
+      ? await this.validateRiderAssignment(tx, dto.riderId, orgId)
+      : null;
+
+    if (dto.pickupLocationId) {
+      const pickupLocation = await tx.query.pickupLocations.findFirst({
         where: and(
-          eq(userOrganizations.userId, dto.riderId),
-          eq(userOrganizations.orgId, orgId),
-          eq(userOrganizations.role, "rider"),
-          eq(userOrganizations.isActive, true),
+          eq(pickupLocations.id, dto.pickupLocationId),
+          eq(pickupLocations.orgId, orgId),
+          eq(pickupLocations.isActive, true),
         ),
+        columns: { id: true },
       });
 
-      if (!riderMembership) {
-        throw new Error("Rider is not an active member of this organization");
+      if (!pickupLocation) {
+        throw new Error("Pickup location not found");
       }
+    }
+
+    if (details.categoryId) {
+      await packageService.assertActiveCategory(tx, orgId, details.categoryId);
+    }
+
+    let savedLocation: SavedLocation | null = null;
+    if (dto.locationLabel) {
+      savedLocation =
+        (customer.locations as SavedLocation[] | null)?.find(
+          (loc) => loc.label === dto.locationLabel,
+        ) ?? null;
 
-      if (riderMembership.isSuspended) {
-        throw new Error("Cannot assign orders to suspended riders");
+      if (!savedLocation) {
+        throw new Error(
+          "Location label not found in customer's saved locations",
+        );
       }
+    }
 
-      const rider = await tx.query.users.findFirst({
-        where: eq(users.id, dto.riderId),
-        columns: {
-          id: true,
-          email: true,
-          name: true,
-          isActive: true,
-          role: true,
-        },
+    const settings = await organizationService.getSettings(orgId, tx);
+    const schedule = resolveOrderSchedule(
+      dto,
+      settings.scheduledReleaseLeadMinutes,
+    );
+
+    // Bookings whose release time has already come start out as usual
+    let status: OrderStatus =
+      schedule && schedule.releaseAt > new Date() ? "scheduled" : "pending";
+    if (status === "pending" && savedLocation) {
+      status = "customer_location_set";
+    }
+
+    return { rider, schedule, status, savedLocation };
+  }
+
+  /**
+   * Insert a validated order and record its creation, then dispatch it or
+   * find the riders to tell about it in the open pool
+   */
+  private async insertNewOrder(
+    tx: any,
+    orgId: string,
+    ownerUserId: string,
+    dto: CreateOrderDTO,
+    details: PackageDetails,
+    validated: ValidatedNewOrder,
+    packagePhotos: PackagePhoto[],
+  ): Promise<{ order: OrderRecord; openPoolRiderIds: string[] }> {
+    const { schedule, status, savedLocation } = validated;
+    let rider = validated.rider;
+
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        orderNumber: await organizationService.nextOrderNumber(orgId, tx),
+        orgId,
+        packageDescription: dto.packageDescription,
+        packageCategoryId: details.categoryId ?? null,
+        packageLengthCm: details.lengthCm ?? null,
+        packageWidthCm: details.widthCm ?? null,
+        packageHeightCm: details.heightCm ?? null,
+        packageWeightKg: details.weightKg ?? null,
+        declaredValue: details.declaredValue ?? null,
+        isFragile: details.isFragile ?? false,
+        isPerishable: details.isPerishable ?? false,
+        itemCount: details.itemCount ?? 1,
+        packagePhotos,
+        pickupLocationId: dto.pickupLocationId ?? null,
+        customerId: dto.customerId,
+        riderId: rider?.id ?? null,
+        customerLocationLabel: savedLocation ? dto.locationLabel : null,
+        customerLocationPrecise: savedLocation?.preciseLocation ?? null,
+        customerLocationSetAt: savedLocation ? new Date() : null,
+        status,
+        autoAssign: dto.autoAssign === true,
+        scheduledFor: schedule?.scheduledFor ?? null,
+        windowStart: schedule?.windowStart ?? null,
+        windowEnd: schedule?.windowEnd ?? null,
+        releaseAt: schedule?.releaseAt ?? null,
+        assignedAt: rider ? new Date() : null,
+      })
+      .returning();
+
+    await orderEventService.record(tx, {
+      orderId: order.id,
+      orgId,
+      eventType: "order_created",
+      actorId: ownerUserId,
+      actorRole: "owner",
+      toStatus: status,
+      metadata: {
+        riderId: rider?.id ?? null,
+        autoAssign: order.autoAssign,
+        pickupLocationId: order.pickupLocationId,
+        locationLabel: order.customerLocationLabel,
+        scheduledFor: order.scheduledFor,
+        windowStart: order.windowStart,
+        windowEnd: order.windowEnd,
+      },
+    });
+
+    // Scheduled orders are dispatched and announced when released
+    if (status === "scheduled") {
+      return { order, openPoolRiderIds: [] };
+    }
+
+    if (order.autoAssign) {
+      rider = (await dispatchService.offerToNextRider(tx, order)) ?? null;
+      order.riderId = rider?.id ?? null;
+    }
+
+    const openPoolRiderIds = rider
+      ? []
+      : await this.getAvailableRiderIds(tx, orgId);
+
+    return { order, openPoolRiderIds };
+  }
+
+  async createOrder(orgId: string, ownerUserId: string, dto: CreateOrderDTO) {
+    const details = parsePackageDetails(dto.packageDetails);
+    let packagePhotos: PackagePhoto[] = [];
+
+    try {
+      const { order, openPoolRiderIds } = await db.transaction(async (tx) => {
+        await this.assertOrgOwner(tx, ownerUserId, orgId);
+
+        const validated = await this.validateNewOrder(tx, orgId, dto, details);
+
+        packagePhotos = await packageService.uploadPhotos(details.photos ?? []);
+
+        return await this.insertNewOrder(
+          tx,
+          orgId,
+          ownerUserId,
+          dto,
+          details,
+          validated,
+          packagePhotos,
+        );
       });
 
-      if (!rider) {
-        throw new Error("Rider not found");
-      }
+      await orderEvents.publish("order.created", {
+        order,
+        fromStatus: null,
+        actorId: ownerUserId,
+        actorRole: "owner",
+        openPoolRiderIds,
+      });
 
-      if (rider.role !== "rider") {
-        throw new Error("Assigned user is not a rider");
-      }
+      return order;
+    } catch (error) {
+      // Don't leave orphaned package photos behind if the order failed
+      await packageService.deletePhotos(packagePhotos);
+      throw error;
+    }
+  }
 
-      if (!rider.isActive) {
-        throw new Error(
-          "Rider is currently inactive and cannot be assigned orders",
+  /**
+   * Create many orders at once from JSON rows or CSV. Every row goes
+   * through the same checks as createOrder, in its own savepoint so one bad
+   * row does not hide the problems of the rows after it. Dry runs, and
+   * atomic imports with a failed row, are rolled back.
+   */
+  async importOrders(
+    orgId: string,
+    ownerUserId: string,
+    input: unknown,
+  ): Promise<OrderImportResult> {
+    const parsed = orderImportSchema.safeParse(input ?? {});
+
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid import: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".") || "body"} ${issue.message}`)
+          .join(", ")}`,
+      );
+    }
+
+    const { dryRun, mode } = parsed.data;
+    const rawRows =
+      parsed.data.csv !== undefined
+        ? parseCsvRecords(parsed.data.csv, normalizeImportHeader)
+        : parsed.data.rows!;
+
+    if (rawRows.length === 0) {
+      throw new Error("The import has no rows");
+    }
+
+    if (rawRows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`An import can have at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const rows = rawRows.map((raw) => orderImportRowSchema.safeParse(raw));
+    const userIdsByEmail = await this.getUserIdsByEmail(
+      rows.flatMap((row) =>
+        row.success ? [row.data.customer, row.data.rider] : [],
+      ),
+    );
+    const details = parsePackageDetails(undefined);
+
+    const results: OrderImportRowResult[] = [];
+    const created: Array<{ order: OrderRecord; openPoolRiderIds: string[] }> =
+      [];
+    let committed = false;
+
+    try {
+      await db.transaction(async (tx) => {
+        await this.assertOrgOwner(tx, ownerUserId, orgId);
+
+        for (const [index, parsedRow] of rows.entries()) {
+          const row = index + 1;
+
+          if (!parsedRow.success) {
+            results.push({
+              row,
+              status: "failed",
+              error: parsedRow.error.issues
+                .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+                .join(", "),
+            });
+            continue;
+          }
+
+          try {
+            const dto = toImportedOrderDTO(parsedRow.data, userIdsByEmail);
+
+            const result = await tx.transaction(async (rowTx) => {
+              const validated = await this.validateNewOrder(
+                rowTx,
+                orgId,
+                dto,
+                details,
+              );
+
+              return await this.insertNewOrder(
+                rowTx,
+                orgId,
+                ownerUserId,
+                dto,
+                details,
+                validated,
+                [],
+              );
+            });
+
+            created.push(result);
+            results.push({
+              row,
+              status: "created",
+              orderId: result.order.id,
+              orderNumber: result.order.orderNumber,
+            });
+          } catch (error: any) {
+            results.push({ row, status: "failed", error: error.message });
+          }
+        }
+
+        const hasFailures = results.some(
+          (result) => result.status === "failed",
+        );
+        if (dryRun || (mode === "atomic" && hasFailures)) {
+          tx.rollback();
+        }
+
+        committed = true;
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) throw error;
+    }
+
+    if (committed && created.length > 0) {
+      // Notifications go out after the response, grouped per recipient by
+      // the notification subscriber
+      this.publishImportedOrders(ownerUserId, created).catch((error) => {
+        console.error("❌ Failed to publish imported orders:", error);
+      });
+    }
+
+    const rowResults = committed
+      ? results
+      : results.map(({ orderId, orderNumber, ...result }) =>
+          result.status === "created"
+            ? { ...result, status: "valid" as const }
+            : result,
         );
+
+    return {
+      dryRun,
+      mode,
+      committed,
+      total: rowResults.length,
+      created: committed ? created.length : 0,
+      failed: rowResults.filter((result) => result.status === "failed").length,
+      rows: rowResults,
+    };
+  }
+
+  /**
+   * Publish the orders of an import as one event, so subscribers can send
+   * their notifications together
+   */
+  private async publishImportedOrders(
+    ownerUserId: string,
+    created: Array<{ order: OrderRecord; openPoolRiderIds: string[] }>,
+  ) {
+    await orderEvents.publish("orders.imported", {
+      orders: created,
+      actorId: ownerUserId,
+      actorRole: "owner",
+    });
+  }
+
+  /**
+   * Look up the users named by email among import values, keyed by the
+   * lower-cased email
+   */
+  private async getUserIdsByEmail(values: Array<string | undefined>) {
+    const emails = [
+      ...new Set(
+        values
+          .filter((value): value is string => !!value && value.includes("@"))
+          .map((value) => value.toLowerCase()),
+      ),
+    ];
+
+    if (emails.length === 0) return new Map<string, string>();
+
+    const found = await db
+      .select({ id: users.id, email: users.email })
+      .from(users)
+      .where(inArray(sql`lower(${users.email})`, emails));
+
+    return new Map(found.map((user) => [user.email.toLowerCase(), user.id]));
+  }
+
+  /**
+   * Release the scheduled orders whose release time has come. Returns how
+   * many were released.
+   */
+  async releaseScheduledOrders(): Promise<number> {
+    const due = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(eq(orders.status, "scheduled"), lte(orders.releaseAt, new Date())),
+      )
+      .orderBy(asc(orders.releaseAt))
+      .limit(50);
+
+    let released = 0;
+
+    for (const { id } of due) {
+      try {
+        if (await this.releaseScheduledOrder(id)) {
+          released++;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to release scheduled order ${id}:`, error);
       }
+    }
 
-      const [order] = await tx
-        .insert(orders)
-        .values({
-          orderNumber: this.generateOrderNumber(),
-          orgId,
-          packageDescription: dto.packageDescription,
-          customerId: dto.customerId,
-          riderId: dto.riderId,
-          status: "pending",
-          assignedAt: new Date(),
+    return released;
+  }
+
+  /**
+   * Move a scheduled order to the state it would have been created in, then
+   * dispatch it or open it to the pool like a new order. Returns false when
+   * another instance released or cancelled it first.
+   */
+  private async releaseScheduledOrder(orderId: string): Promise<boolean> {
+    const result = await db.transaction(async (tx) => {
+      const order = await tx.query.orders.findFirst({
+        where: and(eq(orders.id, orderId), eq(orders.status, "scheduled")),
+      });
+
+      if (!order) return null;
+
+      const nextStatus: OrderStatus = order.customerLocationSetAt
+        ? "customer_location_set"
+        : "pending";
+
+      const [released] = await tx
+        .update(orders)
+        .set({
+          status: nextStatus,
+          releasedAt: new Date(),
+          updatedAt: new Date(),
         })
+        .where(and(eq(orders.id, orderId), eq(orders.status, "scheduled")))
         .returning();
 
-      // Send notifications
-      await Promise.allSettled([
-        this.sendAssignmentNotifications(order, customer, rider),
-        pushNotificationService.notifyOrderCreated(
-          dto.customerId,
-          dto.riderId,
-          order.orderNumber,
-          dto.packageDescription,
-        ),
-      ]);
+      if (!released) return null;
+
+      await orderEventService.record(tx, {
+        orderId,
+        orgId: order.orgId,
+        eventType: "order_released",
+        actorRole: "system",
+        fromStatus: "scheduled",
+        toStatus: nextStatus,
+        metadata: {
+          scheduledFor: order.scheduledFor,
+          windowStart: order.windowStart,
+          windowEnd: order.windowEnd,
+        },
+      });
 
-      return order;
+      if (released.autoAssign && !released.riderId) {
+        const rider = await dispatchService.offerToNextRider(tx, released);
+        released.riderId = rider?.id ?? null;
+      }
+
+      const openPoolRiderIds = released.riderId
+        ? []
+        : await this.getAvailableRiderIds(tx, released.orgId);
+
+      return { released, openPoolRiderIds };
+    });
+
+    if (!result) return false;
+
+    await orderEvents.publish("order.released", {
+      order: result.released,
+      fromStatus: "scheduled",
+      actorId: null,
+      actorRole: "system",
+      openPoolRiderIds: result.openPoolRiderIds,
     });
+
+    return true;
   }
 
-  async getOrders(userId: string, userRole: string, orgId?: string) {
-    let conditions: any[] = [];
+  /**
+   * One page of the orders the user can see, newest first unless another
+   * sort is asked for. Pass pageInfo.nextCursor back as cursor, with the
+   * same filters and sort, for the next page.
+   */
+  async getOrders(
+    userId: string,
+    userRole: string,
+    orgId?: string,
+    queryInput: unknown = {},
+  ) {
+    const query = parseOrderListQuery(queryInput);
+    const conditions = this.getAccessConditions(userId, userRole, orgId);
 
-    if (userRole === "customer") {
-      conditions.push(eq(orders.customerId, userId));
-    } else if (userRole === "rider") {
-      if (!orgId) throw new Error("Organization context required for riders");
-      conditions.push(eq(orders.orgId, orgId));
-      conditions.push(eq(orders.riderId, userId));
-    } else {
-      if (!orgId) throw new Error("Organization context required for owners");
-      conditions.push(eq(orders.orgId, orgId));
+    conditions.push(...getOrderListFilters(query));
+
+    const sortColumn = ORDER_LIST_SORTS[query.sortBy];
+    const sortKey = sql<string>`${sortColumn}::text`;
+    const pageConditions = [...conditions];
+
+    if (query.cursor) {
+      const cursor = decodeOrderListCursor(query.cursor, query);
+      pageConditions.push(
+        query.sortOrder === "desc"
+          ? sql`(${sortColumn}, ${orders.id}) < (${cursor.value}, ${cursor.id})`
+          : sql`(${sortColumn}, ${orders.id}) > (${cursor.value}, ${cursor.id})`,
+      );
     }
 
-    const ordersList = await db
+    const direction = query.sortOrder === "desc" ? desc : asc;
+
+    const rowsQuery = db
       .select({
         id: orders.id,
         orderNumber: orders.orderNumber,
         orgId: orders.orgId,
         packageDescription: orders.packageDescription,
+        packageCategoryId: orders.packageCategoryId,
+        packageCategoryName: packageCategories.name,
+        packageLengthCm: orders.packageLengthCm,
+        packageWidthCm: orders.packageWidthCm,
+        packageHeightCm: orders.packageHeightCm,
+        packageWeightKg: orders.packageWeightKg,
+        declaredValue: orders.declaredValue,
+        isFragile: orders.isFragile,
+        isPerishable: orders.isPerishable,
+        itemCount: orders.itemCount,
+        packagePhotos: orders.packagePhotos,
         customerId: orders.customerId,
         riderId: orders.riderId,
         riderCurrentLocation: orders.riderCurrentLocation,
         customerLocationLabel: orders.customerLocationLabel,
         customerLocationPrecise: orders.customerLocationPrecise,
         status: orders.status,
+        scheduledFor: orders.scheduledFor,
+        windowStart: orders.windowStart,
+        windowEnd: orders.windowEnd,
+        releasedAt: orders.releasedAt,
+        batchId: orders.batchId,
         assignedAt: orders.assignedAt,
         riderAcceptedAt: orders.riderAcceptedAt,
         customerLocationSetAt: orders.customerLocationSetAt,
@@ -243,17 +1272,50 @@ export class OrderService {
         orgName: organizations.name,
         orgAddress: organizations.address,
         orgOwnerUserId: organizations.ownerUserId,
+        ...pickupPointColumns,
         customerEmail: users.email,
         customerName: users.name,
         customerPhone: users.phoneNumber,
         customerLocations: users.locations,
         customerProfileImage: users.profileImage,
+        sortKey,
       })
       .from(orders)
       .innerJoin(organizations, eq(orders.orgId, organizations.id))
+      .leftJoin(
+        pickupLocations,
+        eq(orders.pickupLocationId, pickupLocations.id),
+      )
+      .leftJoin(
+        packageCategories,
+        eq(orders.packageCategoryId, packageCategories.id),
+      )
       .innerJoin(users, eq(orders.customerId, users.id))
-      .where(and(...conditions))
-      .orderBy(desc(orders.createdAt));
+      .where(and(...pageConditions))
+      .orderBy(direction(sortColumn), direction(orders.id))
+      // One extra row tells whether there is a next page
+      .limit(query.limit + 1);
+
+    const [rows, [{ totalCount }]] = await Promise.all([
+      rowsQuery,
+      db
+        .select({ totalCount: sql<number>`count(*)::int` })
+        .from(orders)
+        .where(and(...conditions)),
+    ]);
+
+    const hasMore = rows.length > query.limit;
+    const ordersList = hasMore ? rows.slice(0, query.limit) : rows;
+    const lastOrder = ordersList[ordersList.length - 1];
+    const nextCursor =
+      hasMore && lastOrder
+        ? encodeOrderListCursor({
+            sortBy: query.sortBy,
+            sortOrder: query.sortOrder,
+            value: lastOrder.sortKey,
+            id: lastOrder.id,
+          })
+        : null;
 
     const riderIds = [
       ...new Set(
@@ -302,18 +1364,37 @@ export class OrderService {
 
     const riderMap = new Map(riders.map((r) => [r.id, r]));
     const ownerMap = new Map(owners.map((o) => [o.id, o]));
+    const etaMap = await etaService.getEtas(ordersList);
+    const batchStops = await this.getBatchStops(ordersList);
 
-    return ordersList.map((order) => ({
+    const mappedOrders = ordersList.map((order) => ({
       id: order.id,
       orderNumber: order.orderNumber,
       orgId: order.orgId,
       packageDescription: order.packageDescription,
+      packageCategoryId: order.packageCategoryId,
+      packageCategoryName: order.packageCategoryName,
+      packageLengthCm: order.packageLengthCm,
+      packageWidthCm: order.packageWidthCm,
+      packageHeightCm: order.packageHeightCm,
+      packageWeightKg: order.packageWeightKg,
+      declaredValue: order.declaredValue,
+      isFragile: order.isFragile,
+      isPerishable: order.isPerishable,
+      itemCount: order.itemCount,
+      packagePhotos: order.packagePhotos,
       customerId: order.customerId,
       riderId: order.riderId,
       riderCurrentLocation: order.riderCurrentLocation,
       customerLocationLabel: order.customerLocationLabel,
       customerLocationPrecise: order.customerLocationPrecise,
       status: order.status,
+      scheduledFor: order.scheduledFor,
+      windowStart: order.windowStart,
+      windowEnd: order.windowEnd,
+      releasedAt: order.releasedAt,
+      deliveredOutsideWindow: isDeliveredOutsideWindow(order),
+      batchStop: batchStops.get(order.id) ?? null,
       assignedAt: order.assignedAt,
       riderAcceptedAt: order.riderAcceptedAt,
       customerLocationSetAt: order.customerLocationSetAt,
@@ -326,6 +1407,8 @@ export class OrderService {
       cancellationReason: order.cancellationReason,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
+      eta: etaMap.get(order.id) || null,
+      pickup: toPickupPoint(order),
       organization: {
         id: order.orgId,
         name: order.orgName,
@@ -344,6 +1427,75 @@ export class OrderService {
       },
       rider: order.riderId ? riderMap.get(order.riderId) || null : null,
     }));
+
+    return {
+      orders: mappedOrders,
+      totalCount,
+      pageInfo: { limit: query.limit, hasMore, nextCursor },
+    };
+  }
+
+  /**
+   * Conditions limiting orders to the ones the user can see: customers
+   * their own, riders the released orders assigned to them in their
+   * organization, owners all of their organization's
+   */
+  private getAccessConditions(
+    userId: string,
+    userRole: string,
+    orgId?: string,
+  ): SQL[] {
+    if (userRole === "customer") {
+      return [eq(orders.customerId, userId)];
+    }
+
+    if (userRole === "rider") {
+      if (!orgId) throw new Error("Organization context required for riders");
+      return [
+        eq(orders.orgId, orgId),
+        eq(orders.riderId, userId),
+        // Riders see scheduled orders once they are released
+        ne(orders.status, "scheduled"),
+      ];
+    }
+
+    if (!orgId) throw new Error("Organization context required for owners");
+    return [eq(orders.orgId, orgId)];
+  }
+
+  /**
+   * Look an order up by the number printed on labels and receipts. Numbers
+   * are unique per organization, so a customer with orders from several
+   * organizations can have more than one match.
+   */
+  async getOrderByNumber(
+    orderNumber: string,
+    userId: string,
+    userRole: string,
+    orgId?: string,
+  ) {
+    const matches = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.orderNumber, orderNumber.trim().toUpperCase()),
+          ...this.getAccessConditions(userId, userRole, orgId),
+        ),
+      )
+      .limit(2);
+
+    if (matches.length === 0) {
+      throw new Error("Order not found or you don't have access to it");
+    }
+
+    if (matches.length > 1) {
+      throw new Error(
+        "More than one of your orders has this number; open it from your order list instead",
+      );
+    }
+
+    return await this.getOrderById(matches[0].id, userId, userRole, orgId);
   }
 
   async getOrderById(
@@ -351,6 +1503,183 @@ export class OrderService {
     userId: string,
     userRole: string,
     orgId?: string,
+  ) {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.id, orderId),
+          ...this.getAccessConditions(userId, userRole, orgId),
+        ),
+      )
+      .limit(1);
+
+    if (!order) {
+      throw new Error("Order not found or you don't have access to it");
+    }
+
+    const [
+      org,
+      customer,
+      rider,
+      proofOfDelivery,
+      packageCategory,
+      deliveryAttempts,
+    ] = await Promise.all([
+      db.query.organizations.findFirst({
+        where: eq(organizations.id, order.orgId),
+        columns: {
+          id: true,
+          name: true,
+          address: true,
+          ownerUserId: true,
+        },
+      }),
+      db.query.users.findFirst({
+        where: eq(users.id, order.customerId),
+        columns: {
+          id: true,
+          email: true,
+          name: true,
+          phoneNumber: true,
+          locations: true,
+          profileImage: true, // Added profile image for customer
+        },
+      }),
+      order.riderId
+        ? db.query.users.findFirst({
+            where: eq(users.id, order.riderId),
+            columns: {
+              id: true,
+              email: true,
+              name: true,
+              phoneNumber: true,
+              currentLocation: true,
+              isActive: true,
+              profileImage: true, // Added profile image for rider
+            },
+          })
+        : Promise.resolve(null),
+      db.query.proofOfDeliveries.findFirst({
+        where: eq(proofOfDeliveries.orderId, order.id),
+        columns: {
+          id: true,
+          photoUrl: true,
+          signatureUrl: true,
+          recipientName: true,
+          note: true,
+          createdAt: true,
+        },
+      }),
+      order.packageCategoryId
+        ? db.query.packageCategories.findFirst({
+            where: eq(packageCategories.id, order.packageCategoryId),
+            columns: { name: true },
+          })
+        : Promise.resolve(null),
+      order.deliveryAttemptCount > 0
+        ? deliveryAttemptService.listAttempts(order.id)
+        : Promise.resolve([]),
+    ]);
+
+    let owner = null;
+    if (org?.ownerUserId) {
+      owner = await db.query.users.findFirst({
+        where: eq(users.id, org.ownerUserId),
+        columns: {
+          id: true,
+          name: true,
+          email: true,
+          profileImage: true, // Added profile image for owner
+        },
+      });
+    }
+
+    const pickup = await organizationService.getPickupPoint(order);
+    const eta = await etaService.getEta(order, pickup.coordinates);
+    const batchStops = await this.getBatchStops([order]);
+
+    return {
+      ...order,
+      packageCategoryName: packageCategory?.name ?? null,
+      deliveredOutsideWindow: isDeliveredOutsideWindow(order),
+      batchStop: batchStops.get(order.id) ?? null,
+      eta,
+      pickup,
+      organization: {
+        id: org?.id,
+        name: org?.name,
+        address: org?.address,
+        owner: owner
+          ? {
+              id: owner.id,
+              name: owner.name,
+              email: owner.email,
+              profileImage: owner.profileImage, // Added profile image for owner
+            }
+          : null,
+      },
+      customer,
+      rider,
+      proofOfDelivery: proofOfDelivery || null,
+      deliveryAttempts,
+    };
+  }
+
+  /**
+   * Find where each batched order sits in its batch
+   */
+  private async getBatchStops(
+    orderList: Array<{ id: string; batchId: string | null }>,
+  ): Promise<Map<string, BatchStop>> {
+    const batchStops = new Map<string, BatchStop>();
+    const batchIds = [
+      ...new Set(
+        orderList
+          .map((order) => order.batchId)
+          .filter((id): id is string => id !== null),
+      ),
+    ];
+
+    if (batchIds.length === 0) return batchStops;
+
+    const stops = await db
+      .select({
+        id: orders.id,
+        batchId: orders.batchId,
+        status: orders.status,
+      })
+      .from(orders)
+      .where(inArray(orders.batchId, batchIds))
+      .orderBy(asc(orders.stopSequence));
+
+    for (const batchId of batchIds) {
+      const batch = stops.filter((stop) => stop.batchId === batchId);
+      let stopsAhead = 0;
+
+      batch.forEach((stop, index) => {
+        batchStops.set(stop.id, {
+          batchId,
+          stopNumber: index + 1,
+          totalStops: batch.length,
+          stopsAhead,
+        });
+
+        if (stop.status !== "delivered" && stop.status !== "cancelled") {
+          stopsAhead++;
+        }
+      });
+    }
+
+    return batchStops;
+  }
+
+  async getOrderTimeline(
+    orderId: string,
+    userId: string,
+    userRole: string,
+    orgId?: string,
   ) {
     let conditions: any[] = [eq(orders.id, orderId)];
 
@@ -360,97 +1689,248 @@ export class OrderService {
       if (!orgId) throw new Error("Organization context required for riders");
       conditions.push(eq(orders.orgId, orgId));
       conditions.push(eq(orders.riderId, userId));
+      // Riders see scheduled orders once they are released
+      conditions.push(ne(orders.status, "scheduled"));
     } else {
       if (!orgId) throw new Error("Organization context required for owners");
       conditions.push(eq(orders.orgId, orgId));
     }
 
-    const [order] = await db
-      .select()
+    const order = await db.query.orders.findFirst({
+      where: and(...conditions),
+      columns: { id: true, orderNumber: true, status: true },
+    });
+
+    if (!order) {
+      throw new Error("Order not found or you don't have access to it");
+    }
+
+    const events = await orderEventService.getTimeline(order.id, userRole);
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      events,
+    };
+  }
+
+  /**
+   * List the open pool. Each order reports which limits of the rider's
+   * vehicle it exceeds; fitsVehicle leaves those orders out.
+   */
+  async getAvailableOrders(
+    riderId: string,
+    orgId?: string,
+    options: { fitsVehicle?: boolean } = {},
+  ) {
+    if (!orgId) throw new Error("Organization context required for riders");
+
+    await this.validateRiderForOrder(
+      db,
+      riderId,
+      orgId,
+      "view available orders",
+    );
+
+    const vehicle = await this.getRiderVehicle(db, riderId);
+
+    const available = await db
+      .select({
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        packageDescription: orders.packageDescription,
+        packageCategoryName: packageCategories.name,
+        packageLengthCm: orders.packageLengthCm,
+        packageWidthCm: orders.packageWidthCm,
+        packageHeightCm: orders.packageHeightCm,
+        packageWeightKg: orders.packageWeightKg,
+        isFragile: orders.isFragile,
+        isPerishable: orders.isPerishable,
+        itemCount: orders.itemCount,
+        customerLocationLabel: orders.customerLocationLabel,
+        status: orders.status,
+        createdAt: orders.createdAt,
+        orgName: organizations.name,
+        orgAddress: organizations.address,
+        ...pickupPointColumns,
+      })
       .from(orders)
-      .where(and(...conditions))
-      .limit(1);
+      .innerJoin(organizations, eq(orders.orgId, organizations.id))
+      .leftJoin(
+        pickupLocations,
+        eq(orders.pickupLocationId, pickupLocations.id),
+      )
+      .leftJoin(
+        packageCategories,
+        eq(orders.packageCategoryId, packageCategories.id),
+      )
+      .where(
+        and(
+          eq(orders.orgId, orgId),
+          isNull(orders.riderId),
+          sql`${orders.status} IN ('pending', 'customer_location_set')`,
+        ),
+      )
+      .orderBy(asc(orders.createdAt));
+
+    return available
+      .map((order) => ({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        packageDescription: order.packageDescription,
+        packageCategoryName: order.packageCategoryName,
+        packageLengthCm: order.packageLengthCm,
+        packageWidthCm: order.packageWidthCm,
+        packageHeightCm: order.packageHeightCm,
+        packageWeightKg: order.packageWeightKg,
+        isFragile: order.isFragile,
+        isPerishable: order.isPerishable,
+        itemCount: order.itemCount,
+        exceedsVehicleCapacity: checkVehicleCapacity(order, vehicle),
+        customerLocationLabel: order.customerLocationLabel,
+        status: order.status,
+        createdAt: order.createdAt,
+        orgName: order.orgName,
+        orgAddress: order.orgAddress,
+        pickup: toPickupPoint(order),
+      }))
+      .filter(
+        (order) =>
+          !options.fitsVehicle || order.exceedsVehicleCapacity.length === 0,
+      );
+  }
+
+  private async getRiderVehicle(tx: any, riderId: string) {
+    const rider = await tx.query.users.findFirst({
+      where: eq(users.id, riderId),
+      columns: { vehicle: true },
+    });
+
+    return (rider?.vehicle as RiderVehicle | null | undefined) ?? null;
+  }
+
+  async claimOrder(
+    orderId: string,
+    riderId: string,
+    orgId: string | undefined,
+    currentLocationInput: GeoPointInput,
+  ) {
+    if (!orgId) throw new Error("Organization context required for riders");
+
+    const currentLocation = parseGeoPoint(
+      currentLocationInput,
+      "currentLocation",
+    );
+
+    const { claimedOrder, fromStatus } = await db.transaction(async (tx) => {
+      await this.validateRiderForOrder(tx, riderId, orgId, "claim orders");
+
+      const order = await tx.query.orders.findFirst({
+        where: and(eq(orders.id, orderId), eq(orders.orgId, orgId)),
+      });
+
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      if (order.riderId) {
+        throw new Error("Order has already been claimed by another rider");
+      }
+
+      const exceeded = checkVehicleCapacity(
+        order,
+        await this.getRiderVehicle(tx, riderId),
+      );
+      if (exceeded.length > 0) {
+        throw new Error(
+          `Order exceeds your vehicle's ${exceeded.join(" and ")} capacity`,
+        );
+      }
+
+      let nextStatus: "rider_accepted" | "confirmed";
+      if (order.status === "pending") {
+        nextStatus = "rider_accepted";
+      } else if (order.status === "customer_location_set") {
+        nextStatus = "confirmed";
+      } else {
+        throw new Error("Order cannot be claimed in current state");
+      }
+
+      if (!this.canTransitionTo(order.status, nextStatus)) {
+        throw new Error(
+          `Cannot transition from ${order.status} to ${nextStatus}`,
+        );
+      }
+
+      // The rider_id IS NULL guard makes the claim atomic: a concurrent claim
+      // blocks on the row lock and then matches nothing.
+      const [claimedOrder] = await tx
+        .update(orders)
+        .set({
+          riderId,
+          status: nextStatus,
+          riderCurrentLocation: currentLocation,
+          assignedAt: new Date(),
+          riderAcceptedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(orders.id, orderId),
+            isNull(orders.riderId),
+            eq(orders.status, order.status),
+          ),
+        )
+        .returning();
 
-    if (!order) {
-      throw new Error("Order not found or you don't have access to it");
-    }
+      if (!claimedOrder) {
+        throw new Error("Order has already been claimed by another rider");
+      }
 
-    const [org, customer, rider] = await Promise.all([
-      db.query.organizations.findFirst({
-        where: eq(organizations.id, order.orgId),
-        columns: {
-          id: true,
-          name: true,
-          address: true,
-          ownerUserId: true,
-        },
-      }),
-      db.query.users.findFirst({
-        where: eq(users.id, order.customerId),
-        columns: {
-          id: true,
-          email: true,
-          name: true,
-          phoneNumber: true,
-          locations: true,
-          profileImage: true, // Added profile image for customer
-        },
-      }),
-      order.riderId
-        ? db.query.users.findFirst({
-            where: eq(users.id, order.riderId),
-            columns: {
-              id: true,
-              email: true,
-              name: true,
-              phoneNumber: true,
-              currentLocation: true,
-              isActive: true,
-              profileImage: true, // Added profile image for rider
-            },
-          })
-        : Promise.resolve(null),
-    ]);
+      await tx
+        .update(users)
+        .set({
+          currentLocation: currentLocation,
+        })
+        .where(eq(users.id, riderId));
 
-    let owner = null;
-    if (org?.ownerUserId) {
-      owner = await db.query.users.findFirst({
-        where: eq(users.id, org.ownerUserId),
-        columns: {
-          id: true,
-          name: true,
-          email: true,
-          profileImage: true, // Added profile image for owner
-        },
+      await orderEventService.record(tx, {
+        orderId,
+        orgId,
+        eventType: "order_claimed",
+        actorId: riderId,
+        actorRole: "rider",
+        fromStatus: order.status,
+        toStatus: nextStatus,
+        riderLocation: currentLocation,
       });
-    }
 
-    return {
-      ...order,
-      organization: {
-        id: org?.id,
-        name: org?.name,
-        address: org?.address,
-        owner: owner
-          ? {
-              id: owner.id,
-              name: owner.name,
-              email: owner.email,
-              profileImage: owner.profileImage, // Added profile image for owner
-            }
-          : null,
-      },
-      customer,
-      rider,
-    };
+      return { claimedOrder, fromStatus: order.status };
+    });
+
+    await orderEvents.publish("order.accepted", {
+      order: claimedOrder,
+      fromStatus,
+      actorId: riderId,
+      actorRole: "rider",
+      claimed: true,
+    });
+
+    return claimedOrder;
   }
 
   async riderAcceptOrder(
     orderId: string,
     riderId: string,
-    currentLocation: string,
+    currentLocationInput: GeoPointInput,
   ) {
-    return await db.transaction(async (tx) => {
+    const currentLocation = parseGeoPoint(
+      currentLocationInput,
+      "currentLocation",
+    );
+
+    const { acceptedOrder, fromStatus } = await db.transaction(async (tx) => {
       const order = await tx.query.orders.findFirst({
         where: and(
           eq(orders.id, orderId),
@@ -495,9 +1975,35 @@ export class OrderService {
           riderAcceptedAt: new Date(),
           updatedAt: new Date(),
         })
-        .where(eq(orders.id, orderId))
+        .where(
+          and(
+            eq(orders.id, orderId),
+            eq(orders.riderId, riderId),
+            eq(orders.status, order.status),
+          ),
+        )
         .returning();
 
+      // The dispatcher may have timed the offer out and moved the order on
+      if (!updatedOrder) {
+        throw new Error("Order is no longer offered to you");
+      }
+
+      await orderEventService.record(tx, {
+        orderId,
+        orgId: order.orgId,
+        eventType: "status_changed",
+        actorId: riderId,
+        actorRole: "rider",
+        fromStatus: order.status,
+        toStatus: nextStatus,
+        riderLocation: currentLocation,
+      });
+
+      if (order.autoAssign) {
+        await dispatchService.markAccepted(tx, orderId, riderId);
+      }
+
       await tx
         .update(users)
         .set({
@@ -505,21 +2011,108 @@ export class OrderService {
         })
         .where(eq(users.id, riderId));
 
-      // Get rider name for notification
-      const rider = await tx.query.users.findFirst({
-        where: eq(users.id, riderId),
-        columns: { name: true },
-      });
+      return { acceptedOrder: updatedOrder, fromStatus: order.status };
+    });
 
-      // Send push notification to customer
-      await pushNotificationService.notifyRiderAccepted(
-        order.customerId,
-        order.orderNumber,
-        rider?.name || "Rider",
-      );
+    await orderEvents.publish("order.accepted", {
+      order: acceptedOrder,
+      fromStatus,
+      actorId: riderId,
+      actorRole: "rider",
+      claimed: false,
+    });
+
+    return acceptedOrder;
+  }
+
+  /**
+   * Hand back an order assigned to the rider that their vehicle cannot
+   * carry. Auto-assigned orders are offered to the next rider; others go
+   * back to the open pool.
+   */
+  async declineOrder(orderId: string, riderId: string) {
+    const { declinedOrder, fromStatus, exceeded, openPoolRiderIds } =
+      await db.transaction(async (tx) => {
+        const order = await tx.query.orders.findFirst({
+          where: and(
+            eq(orders.id, orderId),
+            eq(orders.riderId, riderId),
+            isNull(orders.riderAcceptedAt),
+            sql`${orders.status} IN ('pending', 'customer_location_set')`,
+          ),
+        });
+
+        if (!order) {
+          throw new Error("Order not found or already accepted");
+        }
+
+        await this.validateRiderForOrder(
+          tx,
+          riderId,
+          order.orgId,
+          "decline orders",
+        );
 
-      return updatedOrder;
+        const exceeded = checkVehicleCapacity(
+          order,
+          await this.getRiderVehicle(tx, riderId),
+        );
+        if (exceeded.length === 0) {
+          throw new Error(
+            "Only orders that exceed your vehicle's capacity can be declined",
+          );
+        }
+
+        await orderEventService.record(tx, {
+          orderId,
+          orgId: order.orgId,
+          eventType: "rider_declined",
+          actorId: riderId,
+          actorRole: "rider",
+          fromStatus: order.status,
+          toStatus: order.status,
+          metadata: { exceedsVehicleCapacity: exceeded },
+        });
+
+        if (order.autoAssign) {
+          await dispatchService.markDeclined(tx, orderId, riderId);
+          await dispatchService.offerToNextRider(tx, order);
+        } else {
+          await tx
+            .update(orders)
+            .set({ riderId: null, assignedAt: null, updatedAt: new Date() })
+            .where(eq(orders.id, orderId));
+        }
+
+        const declinedOrder = await tx.query.orders.findFirst({
+          where: eq(orders.id, orderId),
+        });
+
+        const openPoolRiderIds = declinedOrder!.riderId
+          ? []
+          : (await this.getAvailableRiderIds(tx, order.orgId)).filter(
+              (id: string) => id !== riderId,
+            );
+
+        return {
+          declinedOrder: declinedOrder!,
+          fromStatus: order.status,
+          exceeded,
+          openPoolRiderIds,
+        };
+      });
+
+    await orderEvents.publish("order.declined", {
+      order: declinedOrder,
+      fromStatus,
+      actorId: riderId,
+      actorRole: "rider",
+      previousRiderId: riderId,
+      exceedsVehicleCapacity: exceeded,
+      openPoolRiderIds,
     });
+
+    return declinedOrder;
   }
 
   async setCustomerLocation(
@@ -527,12 +2120,17 @@ export class OrderService {
     customerId: string,
     dto: AssignLocationDTO,
   ) {
-    return await db.transaction(async (tx) => {
+    const locationPrecise =
+      dto.locationPrecise !== undefined
+        ? parseGeoPoint(dto.locationPrecise, "locationPrecise")
+        : null;
+
+    const { updatedOrder, fromStatus } = await db.transaction(async (tx) => {
       const order = await tx.query.orders.findFirst({
         where: and(
           eq(orders.id, orderId),
           eq(orders.customerId, customerId),
-          sql`${orders.status} IN ('pending', 'rider_accepted')`,
+          sql`${orders.status} IN ('scheduled', 'pending', 'rider_accepted')`,
         ),
       });
 
@@ -542,8 +2140,11 @@ export class OrderService {
         );
       }
 
-      let nextStatus: "customer_location_set" | "confirmed";
-      if (order.status === "pending") {
+      // A scheduled order keeps waiting for its release with the location set
+      let nextStatus: "scheduled" | "customer_location_set" | "confirmed";
+      if (order.status === "scheduled") {
+        nextStatus = "scheduled";
+      } else if (order.status === "pending") {
         nextStatus = "customer_location_set";
       } else if (order.status === "rider_accepted") {
         nextStatus = "confirmed";
@@ -551,17 +2152,32 @@ export class OrderService {
         throw new Error("Location cannot be set in current state");
       }
 
-      if (!this.canTransitionTo(order.status, nextStatus)) {
+      if (
+        nextStatus !== order.status &&
+        !this.canTransitionTo(order.status, nextStatus)
+      ) {
         throw new Error(
           `Cannot transition from ${order.status} to ${nextStatus}`,
         );
       }
 
+      let preciseLocation = locationPrecise;
+      if (!preciseLocation) {
+        const customer = await tx.query.users.findFirst({
+          where: eq(users.id, customerId),
+          columns: { locations: true },
+        });
+
+        preciseLocation =
+          customer?.locations?.find((loc) => loc.label === dto.locationLabel)
+            ?.preciseLocation ?? null;
+      }
+
       const [updatedOrder] = await tx
         .update(orders)
         .set({
           customerLocationLabel: dto.locationLabel,
-          customerLocationPrecise: dto.locationPrecise || dto.locationLabel,
+          customerLocationPrecise: preciseLocation,
           status: nextStatus,
           customerLocationSetAt: new Date(),
           updatedAt: new Date(),
@@ -569,17 +2185,30 @@ export class OrderService {
         .where(eq(orders.id, orderId))
         .returning();
 
-      // Send push notification to rider
-      if (order.riderId) {
-        await pushNotificationService.notifyLocationSet(
-          order.riderId,
-          order.orderNumber,
-          dto.locationLabel,
-        );
-      }
+      await orderEventService.record(tx, {
+        orderId,
+        orgId: order.orgId,
+        eventType: "customer_location_set",
+        actorId: customerId,
+        actorRole: "customer",
+        fromStatus: order.status,
+        toStatus: nextStatus,
+        riderLocation: order.riderCurrentLocation,
+        metadata: { locationLabel: dto.locationLabel },
+      });
+
+      return { updatedOrder, fromStatus: order.status };
+    });
 
-      return updatedOrder;
+    await orderEvents.publish("order.location_set", {
+      order: updatedOrder,
+      fromStatus,
+      actorId: customerId,
+      actorRole: "customer",
+      locationLabel: dto.locationLabel,
     });
+
+    return updatedOrder;
   }
 
   async ownerSetCustomerLocation(
@@ -588,7 +2217,7 @@ export class OrderService {
     orgId: string,
     dto: AssignLocationDTO,
   ) {
-    return await db.transaction(async (tx) => {
+    const { updatedOrder, fromStatus } = await db.transaction(async (tx) => {
       const ownerMembership = await tx.query.userOrganizations.findFirst({
         where: and(
           eq(userOrganizations.userId, ownerId),
@@ -606,187 +2235,607 @@ export class OrderService {
         where: and(
           eq(orders.id, orderId),
           eq(orders.orgId, orgId),
-          sql`${orders.status} IN ('pending', 'rider_accepted')`,
+          sql`${orders.status} IN ('scheduled', 'pending', 'rider_accepted')`,
+        ),
+      });
+
+      if (!order) {
+        throw new Error(
+          "Order not found or not in a state that can have location set",
+        );
+      }
+
+      const customer = await tx.query.users.findFirst({
+        where: eq(users.id, order.customerId),
+        columns: {
+          locations: true,
+        },
+      });
+
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+
+      const customerLocations = customer.locations as
+        SavedLocation[] | undefined;
+
+      const savedLocation = customerLocations?.find(
+        (loc) => loc.label === dto.locationLabel,
+      );
+
+      if (!savedLocation) {
+        throw new Error(
+          "Location label not found in customer's saved locations",
+        );
+      }
+
+      // A scheduled order keeps waiting for its release with the location set
+      let nextStatus: "scheduled" | "customer_location_set" | "confirmed";
+      if (order.status === "scheduled") {
+        nextStatus = "scheduled";
+      } else if (order.status === "pending") {
+        nextStatus = "customer_location_set";
+      } else if (order.status === "rider_accepted") {
+        nextStatus = "confirmed";
+      } else {
+        throw new Error("Location cannot be set in current state");
+      }
+
+      if (
+        nextStatus !== order.status &&
+        !this.canTransitionTo(order.status, nextStatus)
+      ) {
+        throw new Error(
+          `Cannot transition from ${order.status} to ${nextStatus}`,
+        );
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({
+          customerLocationLabel: dto.locationLabel,
+          customerLocationPrecise: savedLocation.preciseLocation,
+          status: nextStatus,
+          customerLocationSetAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      await orderEventService.record(tx, {
+        orderId,
+        orgId,
+        eventType: "customer_location_set",
+        actorId: ownerId,
+        actorRole: "owner",
+        fromStatus: order.status,
+        toStatus: nextStatus,
+        riderLocation: order.riderCurrentLocation,
+        metadata: { locationLabel: dto.locationLabel },
+      });
+
+      return { updatedOrder, fromStatus: order.status };
+    });
+
+    await orderEvents.publish("order.location_set", {
+      order: updatedOrder,
+      fromStatus,
+      actorId: ownerId,
+      actorRole: "owner",
+      locationLabel: dto.locationLabel,
+    });
+
+    return updatedOrder;
+  }
+
+  async markPackagePickedUp(
+    orderId: string,
+    riderId: string,
+    source: TransitionSource = "manual",
+  ) {
+    return await this.updateOrderStatus(
+      orderId,
+      riderId,
+      "package_picked_up",
+      "packagePickedUpAt",
+      source,
+    );
+  }
+
+  async startDelivery(orderId: string, riderId: string) {
+    return await this.updateOrderStatus(
+      orderId,
+      riderId,
+      "in_transit",
+      "deliveryStartedAt",
+    );
+  }
+
+  async markArrivedAtLocation(
+    orderId: string,
+    riderId: string,
+    source: TransitionSource = "manual",
+  ) {
+    const order = await this.updateOrderStatus(
+      orderId,
+      riderId,
+      "arrived_at_location",
+      "arrivedAtLocationAt",
+      source,
+    );
+
+    try {
+      await deliveryCodeService.issueAndSendCode(order);
+    } catch (error) {
+      console.error(`Error issuing delivery code for order ${orderId}:`, error);
+    }
+
+    return order;
+  }
+
+  async confirmDelivery(
+    orderId: string,
+    riderId: string,
+    dto: ConfirmDeliveryDTO = {},
+  ) {
+    if (dto.deliveryCode === undefined || dto.deliveryCode === "") {
+      throw new Error(
+        "Delivery code is required. Ask the customer for the code shown in their app",
+      );
+    }
+
+    const deliveryCode = deliveryCodeSchema.safeParse(dto.deliveryCode);
+    if (!deliveryCode.success) {
+      throw new Error("Delivery code must be a string of 6 digits");
+    }
+
+    await deliveryCodeService.verifyCode(orderId, riderId, deliveryCode.data);
+
+    const uploadedPublicIds: string[] = [];
+
+    try {
+      const { delivered, fromStatus } = await db.transaction(async (tx) => {
+        const order = await tx.query.orders.findFirst({
+          where: and(
+            eq(orders.id, orderId),
+            eq(orders.riderId, riderId),
+            eq(orders.status, "arrived_at_location"),
+          ),
+        });
+
+        if (!order) {
+          throw new Error("Order not found or not arrived at location");
+        }
+
+        await this.validateRiderForOrder(
+          tx,
+          riderId,
+          order.orgId,
+          "confirm deliveries",
+        );
+
+        if (!this.canTransitionTo(order.status, "delivered")) {
+          throw new Error(
+            `Cannot transition from ${order.status} to delivered`,
+          );
+        }
+
+        const settings = await organizationService.getSettings(order.orgId, tx);
+
+        if (settings.requireProofOfDelivery && !dto.photo && !dto.signature) {
+          throw new Error(
+            "Proof of delivery is required. Please attach a photo or signature",
+          );
+        }
+
+        let proofOfDelivery = null;
+        if (dto.photo || dto.signature || dto.recipientName || dto.note) {
+          const photo = dto.photo
+            ? await this.uploadProofImage(dto.photo, "photo")
+            : null;
+          if (photo) uploadedPublicIds.push(photo.publicId);
+
+          const signature = dto.signature
+            ? await this.uploadProofImage(dto.signature, "signature")
+            : null;
+          if (signature) uploadedPublicIds.push(signature.publicId);
+
+          [proofOfDelivery] = await tx
+            .insert(proofOfDeliveries)
+            .values({
+              orderId,
+              riderId,
+              photoUrl: photo?.secureUrl,
+              photoPublicId: photo?.publicId,
+              signatureUrl: signature?.secureUrl,
+              signaturePublicId: signature?.publicId,
+              recipientName: dto.recipientName?.trim() || null,
+              note: dto.note?.trim() || null,
+            })
+            .returning({
+              id: proofOfDeliveries.id,
+              photoUrl: proofOfDeliveries.photoUrl,
+              signatureUrl: proofOfDeliveries.signatureUrl,
+              recipientName: proofOfDeliveries.recipientName,
+              note: proofOfDeliveries.note,
+              createdAt: proofOfDeliveries.createdAt,
+            });
+        }
+
+        const [updatedOrder] = await tx
+          .update(orders)
+          .set({
+            status: "delivered",
+            deliveredAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(orders.id, orderId))
+          .returning();
+
+        await deliveryCodeService.markVerified(tx, orderId);
+
+        await orderEventService.record(tx, {
+          orderId,
+          orgId: order.orgId,
+          eventType: "status_changed",
+          actorId: riderId,
+          actorRole: "rider",
+          fromStatus: order.status,
+          toStatus: "delivered",
+          riderLocation: order.riderCurrentLocation,
+          metadata: { proofOfDelivery: proofOfDelivery !== null },
+        });
+
+        return {
+          delivered: { ...updatedOrder, proofOfDelivery },
+          fromStatus: order.status,
+        };
+      });
+
+      await orderEvents.publish("order.delivered", {
+        order: delivered,
+        fromStatus,
+        actorId: riderId,
+        actorRole: "rider",
+        proofOfDelivery: delivered.proofOfDelivery !== null,
+      });
+
+      return delivered;
+    } catch (error) {
+      // Don't leave orphaned proof images behind if the delivery failed
+      await Promise.all(
+        uploadedPublicIds.map((publicId) =>
+          CloudinaryService.deleteImage(publicId),
+        ),
+      );
+      throw error;
+    }
+  }
+
+  private async uploadProofImage(
+    image: string,
+    kind: "photo" | "signature",
+  ): Promise<UploadResult> {
+    if (typeof image !== "string" || !image.startsWith("data:image/")) {
+      throw new Error(
+        `Invalid ${kind} format. Expected a base64 encoded data:image/ string`,
+      );
+    }
+
+    return CloudinaryService.uploadImage(image, {
+      folder: "proof_of_delivery",
+      transformation:
+        kind === "photo"
+          ? [{ width: 1280, crop: "limit" }, { quality: "auto" }]
+          : undefined,
+    });
+  }
+
+  /**
+   * Record that the rider could not hand the package over. The order waits
+   * for an owner to schedule a reattempt, or goes back to the sender right
+   * away when this was the last attempt the organization allows.
+   */
+  async recordFailedDelivery(
+    orderId: string,
+    riderId: string,
+    dto: FailedDeliveryDTO,
+  ) {
+    const input = parseFailedDelivery(dto);
+    const uploadedPublicIds: string[] = [];
+
+    try {
+      const { updatedOrder, fromStatus, attempt, maxAttempts } =
+        await db.transaction(async (tx) => {
+          const order = await tx.query.orders.findFirst({
+            where: and(eq(orders.id, orderId), eq(orders.riderId, riderId)),
+          });
+
+          if (!order) {
+            throw new Error("Order not found");
+          }
+
+          await this.validateRiderForOrder(
+            tx,
+            riderId,
+            order.orgId,
+            "record failed deliveries",
+          );
+
+          if (!this.canTransitionTo(order.status, "delivery_failed")) {
+            throw new Error(
+              `Cannot transition from ${order.status} to delivery_failed`,
+            );
+          }
+
+          const settings = await organizationService.getSettings(
+            order.orgId,
+            tx,
+          );
+          const attemptNumber = order.deliveryAttemptCount + 1;
+          const returning = attemptNumber >= settings.maxDeliveryAttempts;
+
+          const photo = input.photo
+            ? await deliveryAttemptService.uploadPhoto(input.photo)
+            : null;
+          if (photo) uploadedPublicIds.push(photo.publicId);
+
+          const attempt = await deliveryAttemptService.recordAttempt(tx, {
+            orderId,
+            orgId: order.orgId,
+            riderId,
+            attemptNumber,
+            attempt: input,
+            photo,
+          });
+
+          const [updatedOrder] = await tx
+            .update(orders)
+            .set({
+              status: returning ? "returning_to_sender" : "delivery_failed",
+              deliveryAttemptCount: attemptNumber,
+              deliveryFailedAt: new Date(),
+              // The next attempt gets its own "almost there" push
+              riderNearbyNotifiedAt: null,
+              updatedAt: new Date(),
+            })
+            .where(eq(orders.id, orderId))
+            .returning();
+
+          // A new code is issued when the rider arrives again
+          await deliveryCodeService.revokeCode(tx, orderId);
+
+          await orderEventService.record(tx, {
+            orderId,
+            orgId: order.orgId,
+            eventType: "delivery_failed",
+            actorId: riderId,
+            actorRole: "rider",
+            fromStatus: order.status,
+            toStatus: "delivery_failed",
+            riderLocation: input.location,
+            metadata: {
+              attemptNumber,
+              reason: input.reason,
+              note: input.note ?? null,
+            },
+          });
+
+          if (returning) {
+            await orderEventService.record(tx, {
+              orderId,
+              orgId: order.orgId,
+              eventType: "returning_to_sender",
+              actorRole: "system",
+              fromStatus: "delivery_failed",
+              toStatus: "returning_to_sender",
+              riderLocation: input.location,
+              metadata: {
+                reason: "max_delivery_attempts_reached",
+                maxAttempts: settings.maxDeliveryAttempts,
+              },
+            });
+          }
+
+          return {
+            updatedOrder,
+            fromStatus: order.status,
+            attempt,
+            maxAttempts: settings.maxDeliveryAttempts,
+          };
+        });
+
+      await geofenceService.clearPrompts(orderId);
+
+      await orderEvents.publish("order.delivery_failed", {
+        order: updatedOrder,
+        fromStatus,
+        actorId: riderId,
+        actorRole: "rider",
+        attemptNumber: attempt.attemptNumber,
+        maxAttempts,
+        reason: attempt.reason,
+      });
+
+      return { ...updatedOrder, deliveryAttempt: attempt };
+    } catch (error) {
+      // Don't leave an orphaned photo behind if recording failed
+      await Promise.all(
+        uploadedPublicIds.map((publicId) =>
+          CloudinaryService.deleteImage(publicId),
         ),
-      });
+      );
+      throw error;
+    }
+  }
 
-      if (!order) {
-        throw new Error(
-          "Order not found or not in a state that can have location set",
-        );
-      }
+  /**
+   * Send the rider out again with an order whose delivery failed,
+   * optionally to another of the customer's saved locations
+   */
+  async scheduleReattempt(
+    orderId: string,
+    ownerId: string,
+    orgId: string,
+    dto: ScheduleReattemptDTO = {},
+  ) {
+    const { updatedOrder, fromStatus } = await db.transaction(async (tx) => {
+      await this.assertOrgOwner(tx, ownerId, orgId, "schedule reattempts");
 
-      const customer = await tx.query.users.findFirst({
-        where: eq(users.id, order.customerId),
-        columns: {
-          locations: true,
-        },
+      const order = await tx.query.orders.findFirst({
+        where: and(eq(orders.id, orderId), eq(orders.orgId, orgId)),
       });
 
-      if (!customer) {
-        throw new Error("Customer not found");
+      if (!order) {
+        throw new Error("Order not found");
       }
 
-      const customerLocations = customer.locations as
-        | Array<{
-            label: string;
-            preciseLocation: string;
-          }>
-        | undefined;
-
-      const savedLocation = customerLocations?.find(
-        (loc) => loc.label === dto.locationLabel,
-      );
-
-      if (!savedLocation) {
+      if (!this.canTransitionTo(order.status, "reattempt_scheduled")) {
         throw new Error(
-          "Location label not found in customer's saved locations",
+          `Cannot transition from ${order.status} to reattempt_scheduled`,
         );
       }
 
-      let nextStatus: "customer_location_set" | "confirmed";
-      if (order.status === "pending") {
-        nextStatus = "customer_location_set";
-      } else if (order.status === "rider_accepted") {
-        nextStatus = "confirmed";
-      } else {
-        throw new Error("Location cannot be set in current state");
-      }
-
-      if (!this.canTransitionTo(order.status, nextStatus)) {
+      // The limit may have been lowered since the last attempt failed
+      const settings = await organizationService.getSettings(orgId, tx);
+      if (order.deliveryAttemptCount >= settings.maxDeliveryAttempts) {
         throw new Error(
-          `Cannot transition from ${order.status} to ${nextStatus}`,
+          `Order ${order.orderNumber} has used all ${settings.maxDeliveryAttempts} delivery attempts. Return it to the sender instead`,
         );
       }
 
+      const locationUpdate: {
+        customerLocationLabel?: string;
+        customerLocationPrecise?: GeoPoint | null;
+      } = {};
+
+      if (dto.locationLabel) {
+        const customer = await tx.query.users.findFirst({
+          where: eq(users.id, order.customerId),
+          columns: { locations: true },
+        });
+
+        const savedLocation = (
+          customer?.locations as SavedLocation[] | undefined
+        )?.find((loc) => loc.label === dto.locationLabel);
+
+        if (!savedLocation) {
+          throw new Error(
+            "Location label not found in customer's saved locations",
+          );
+        }
+
+        locationUpdate.customerLocationLabel = dto.locationLabel;
+        locationUpdate.customerLocationPrecise = savedLocation.preciseLocation;
+      }
+
       const [updatedOrder] = await tx
         .update(orders)
         .set({
-          customerLocationLabel: dto.locationLabel,
-          customerLocationPrecise: savedLocation.preciseLocation,
-          status: nextStatus,
-          customerLocationSetAt: new Date(),
+          ...locationUpdate,
+          status: "reattempt_scheduled",
           updatedAt: new Date(),
         })
         .where(eq(orders.id, orderId))
         .returning();
 
-      return updatedOrder;
-    });
-  }
-
-  async markPackagePickedUp(orderId: string, riderId: string) {
-    const order = await this.updateOrderStatus(
-      orderId,
-      riderId,
-      "package_picked_up",
-      "packagePickedUpAt",
-    );
+      await orderEventService.record(tx, {
+        orderId,
+        orgId,
+        eventType: "reattempt_scheduled",
+        actorId: ownerId,
+        actorRole: "owner",
+        fromStatus: order.status,
+        toStatus: "reattempt_scheduled",
+        riderLocation: order.riderCurrentLocation,
+        metadata: {
+          attemptNumber: order.deliveryAttemptCount + 1,
+          locationLabel: dto.locationLabel ?? null,
+        },
+      });
 
-    // Get rider name and send notification to customer
-    const rider = await db.query.users.findFirst({
-      where: eq(users.id, riderId),
-      columns: { name: true },
+      return { updatedOrder, fromStatus: order.status };
     });
 
-    await pushNotificationService.notifyPackagePickedUp(
-      order.customerId,
-      order.orderNumber,
-      rider?.name || "Rider",
-    );
-
-    return order;
-  }
-
-  async startDelivery(orderId: string, riderId: string) {
-    const order = await this.updateOrderStatus(
-      orderId,
-      riderId,
-      "in_transit",
-      "deliveryStartedAt",
-    );
-
-    // Get rider name and send notification to customer
-    const rider = await db.query.users.findFirst({
-      where: eq(users.id, riderId),
-      columns: { name: true },
+    await orderEvents.publish("order.reattempt_scheduled", {
+      order: updatedOrder,
+      fromStatus,
+      actorId: ownerId,
+      actorRole: "owner",
+      locationLabel: dto.locationLabel ?? null,
     });
 
-    await pushNotificationService.notifyDeliveryStarted(
-      order.customerId,
-      order.orderNumber,
-      rider?.name || "Rider",
-    );
-
-    return order;
+    return updatedOrder;
   }
 
-  async markArrivedAtLocation(orderId: string, riderId: string) {
-    const order = await this.updateOrderStatus(
-      orderId,
-      riderId,
-      "arrived_at_location",
-      "arrivedAtLocationAt",
-    );
-
-    // Get rider name and send notification to customer
-    const rider = await db.query.users.findFirst({
-      where: eq(users.id, riderId),
-      columns: { name: true },
-    });
-
-    await pushNotificationService.notifyRiderArrived(
-      order.customerId,
-      order.orderNumber,
-      rider?.name || "Rider",
-    );
+  /**
+   * Give up on delivering an order whose delivery failed and have the
+   * rider bring the package back
+   */
+  async returnToSender(
+    orderId: string,
+    ownerId: string,
+    orgId: string,
+    dto: ReturnToSenderDTO = {},
+  ) {
+    const reason = dto.reason?.trim() || null;
 
-    return order;
-  }
+    const { updatedOrder, fromStatus } = await db.transaction(async (tx) => {
+      await this.assertOrgOwner(tx, ownerId, orgId, "return orders to sender");
 
-  async confirmDelivery(orderId: string, riderId: string) {
-    return await db.transaction(async (tx) => {
       const order = await tx.query.orders.findFirst({
-        where: and(
-          eq(orders.id, orderId),
-          eq(orders.riderId, riderId),
-          eq(orders.status, "arrived_at_location"),
-        ),
+        where: and(eq(orders.id, orderId), eq(orders.orgId, orgId)),
       });
 
       if (!order) {
-        throw new Error("Order not found or not arrived at location");
+        throw new Error("Order not found");
       }
 
-      await this.validateRiderForOrder(
-        tx,
-        riderId,
-        order.orgId,
-        "confirm deliveries",
-      );
-
-      if (!this.canTransitionTo(order.status, "delivered")) {
-        throw new Error(`Cannot transition from ${order.status} to delivered`);
+      if (!this.canTransitionTo(order.status, "returning_to_sender")) {
+        throw new Error(
+          `Cannot transition from ${order.status} to returning_to_sender`,
+        );
       }
 
       const [updatedOrder] = await tx
         .update(orders)
-        .set({
-          status: "delivered",
-          deliveredAt: new Date(),
-          updatedAt: new Date(),
-        })
+        .set({ status: "returning_to_sender", updatedAt: new Date() })
         .where(eq(orders.id, orderId))
         .returning();
 
-      // Send push notification to customer
-      await pushNotificationService.notifyDeliveryCompleted(
-        order.customerId,
-        order.orderNumber,
-      );
+      await orderEventService.record(tx, {
+        orderId,
+        orgId,
+        eventType: "returning_to_sender",
+        actorId: ownerId,
+        actorRole: "owner",
+        fromStatus: order.status,
+        toStatus: "returning_to_sender",
+        riderLocation: order.riderCurrentLocation,
+        metadata: { reason },
+      });
+
+      return { updatedOrder, fromStatus: order.status };
+    });
 
-      return updatedOrder;
+    await orderEvents.publish("order.returning_to_sender", {
+      order: updatedOrder,
+      fromStatus,
+      actorId: ownerId,
+      actorRole: "owner",
+      reason,
     });
+
+    return updatedOrder;
+  }
+
+  async markReturned(orderId: string, riderId: string) {
+    return await this.updateOrderStatus(
+      orderId,
+      riderId,
+      "returned",
+      "returnedAt",
+    );
   }
 
   async updateOrderStatus(
@@ -794,8 +2843,9 @@ export class OrderService {
     riderId: string,
     newStatus: string,
     timestampField?: string,
+    source: TransitionSource = "manual",
   ) {
-    return await db.transaction(async (tx) => {
+    const { updatedOrder, fromStatus } = await db.transaction(async (tx) => {
       const order = await tx.query.orders.findFirst({
         where: and(eq(orders.id, orderId), eq(orders.riderId, riderId)),
       });
@@ -832,21 +2882,72 @@ export class OrderService {
         .where(eq(orders.id, orderId))
         .returning();
 
-      return updatedOrder;
+      await orderEventService.record(tx, {
+        orderId,
+        orgId: order.orgId,
+        eventType: "status_changed",
+        actorId: riderId,
+        actorRole: "rider",
+        fromStatus: order.status,
+        toStatus: newStatus as OrderStatus,
+        riderLocation: order.riderCurrentLocation,
+        metadata:
+          newStatus === "package_picked_up"
+            ? { source, pickupLocationId: order.pickupLocationId }
+            : { source },
+      });
+
+      return { updatedOrder, fromStatus: order.status };
     });
+
+    await geofenceService.clearPrompts(orderId);
+
+    const eventName = RIDER_TRANSITION_EVENTS[newStatus];
+    if (eventName) {
+      await orderEvents.publish(eventName, {
+        order: updatedOrder,
+        fromStatus,
+        actorId: riderId,
+        actorRole: "rider",
+        source,
+      });
+    }
+
+    return updatedOrder;
   }
 
+  /**
+   * Take one ping, or a batch buffered while the rider was offline. Every
+   * point that passes screenLocationBatch goes into the location history;
+   * only the newest one moves the rider's current location, and only when
+   * it is newer than the position already stored.
+   */
   async updateRiderLocation(
     orderId: string,
     riderId: string,
-    location: string,
-  ) {
-    await db.transaction(async (tx) => {
+    input: GeoPointInput | GeoPointInput[],
+  ): Promise<LocationUpdateResult> {
+    if (Array.isArray(input)) {
+      if (input.length === 0) {
+        throw new Error("At least one location is required");
+      }
+      if (input.length > MAX_LOCATION_BATCH_SIZE) {
+        throw new Error(
+          `A batch may carry at most ${MAX_LOCATION_BATCH_SIZE} locations`,
+        );
+      }
+    }
+
+    const points = Array.isArray(input)
+      ? input.map((point, index) => parseGeoPoint(point, `locations[${index}]`))
+      : [parseGeoPoint(input, "currentLocation")];
+
+    const result = await db.transaction(async (tx) => {
       const order = await tx.query.orders.findFirst({
         where: and(
           eq(orders.id, orderId),
           eq(orders.riderId, riderId),
-          sql`${orders.status} IN ('confirmed', 'package_picked_up', 'in_transit', 'arrived_at_location')`,
+          sql`${orders.status} IN ('confirmed', 'package_picked_up', 'in_transit', 'arrived_at_location', 'reattempt_scheduled', 'returning_to_sender')`,
         ),
       });
 
@@ -854,21 +2955,181 @@ export class OrderService {
         throw new Error("Order not in a trackable state");
       }
 
-      await tx
-        .update(orders)
-        .set({
-          riderCurrentLocation: location,
-          updatedAt: new Date(),
-        })
-        .where(eq(orders.id, orderId));
+      const { accepted, rejected } = screenLocationBatch(points, {
+        notBefore: getConfirmedAt(order),
+        lastKnown: order.riderCurrentLocation,
+      });
 
-      await tx
-        .update(users)
-        .set({
-          currentLocation: location,
+      const stored = await locationHistoryService.recordPoints(
+        orderId,
+        riderId,
+        accepted,
+        tx,
+      );
+
+      const newest = accepted[accepted.length - 1];
+      const current = order.riderCurrentLocation;
+      const isNewer =
+        !!newest &&
+        (!current ||
+          new Date(newest.recordedAt) > new Date(current.recordedAt));
+
+      if (isNewer) {
+        await tx
+          .update(orders)
+          .set({
+            riderCurrentLocation: newest,
+            updatedAt: new Date(),
+          })
+          .where(eq(orders.id, orderId));
+
+        // The rider may have reported a later position on another order
+        await tx
+          .update(users)
+          .set({
+            currentLocation: newest,
+          })
+          .where(
+            and(
+              eq(users.id, riderId),
+              sql`(${users.currentLocation} IS NULL OR (${users.currentLocation}->>'recordedAt')::timestamptz < ${newest.recordedAt}::timestamptz)`,
+            ),
+          );
+      }
+
+      return {
+        orgId: order.orgId,
+        currentLocation: isNewer ? newest : null,
+        summary: {
+          accepted: accepted.length,
+          stored,
+          rejected,
+        },
+      };
+    });
+
+    if (result.currentLocation) {
+      getLocationWebSocketServer()?.sendLocationUpdate(
+        orderId,
+        result.orgId,
+        result.currentLocation,
+      );
+      await fleetService.publishRiderUpdate(riderId);
+
+      const eta = await etaService.handleLocationUpdate(orderId);
+      if (eta) {
+        getLocationWebSocketServer()?.sendEtaUpdate(orderId, result.orgId, eta);
+      }
+
+      await this.applyGeofence(orderId, riderId);
+    }
+
+    return {
+      ...result.summary,
+      currentLocation: result.currentLocation,
+    };
+  }
+
+  /**
+   * Check the rider's latest position against the pickup and drop-off
+   * geofences. Depending on the organization's geofenceMode the order is
+   * moved on automatically or the rider is prompted to do it. Errors are
+   * logged rather than thrown so they never fail the location update.
+   */
+  async applyGeofence(orderId: string, riderId: string) {
+    try {
+      const [order] = await db
+        .select({
+          orgId: orders.orgId,
+          orderNumber: orders.orderNumber,
+          status: orders.status,
+          riderCurrentLocation: orders.riderCurrentLocation,
+          customerLocationPrecise: orders.customerLocationPrecise,
+          pickupCoordinates: pickupPointColumns.pickupCoordinates,
         })
-        .where(eq(users.id, riderId));
+        .from(orders)
+        .innerJoin(organizations, eq(orders.orgId, organizations.id))
+        .leftJoin(
+          pickupLocations,
+          eq(orders.pickupLocationId, pickupLocations.id),
+        )
+        .where(and(eq(orders.id, orderId), eq(orders.riderId, riderId)))
+        .limit(1);
+
+      if (!order) return;
+
+      const settings = await organizationService.getSettings(order.orgId);
+      if (settings.geofenceMode === "off") return;
+
+      const entry = detectGeofenceEntry({
+        status: order.status,
+        riderLocation: order.riderCurrentLocation,
+        pickup: order.pickupCoordinates,
+        dropoff: order.customerLocationPrecise,
+        radiusMeters: settings.geofenceRadiusMeters,
+      });
+
+      if (!entry) return;
+
+      if (settings.geofenceMode === "auto") {
+        if (entry.target === "pickup") {
+          await this.markPackagePickedUp(orderId, riderId, "geofence");
+        } else {
+          await this.markArrivedAtLocation(orderId, riderId, "geofence");
+        }
+        return;
+      }
+
+      if (!(await geofenceService.shouldPrompt(orderId))) return;
+
+      getLocationWebSocketServer()?.sendGeofencePrompt(orderId, entry);
+      await pushNotificationService.notifyGeofencePrompt(
+        riderId,
+        order.orderNumber,
+        entry.target,
+      );
+    } catch (error) {
+      console.error(`Error applying geofence for order ${orderId}:`, error);
+    }
+  }
+
+  async getOrderRoute(
+    orderId: string,
+    userId: string,
+    userRole: string,
+    orgId?: string,
+  ) {
+    let conditions: any[] = [eq(orders.id, orderId)];
+
+    if (userRole === "customer") {
+      conditions.push(eq(orders.customerId, userId));
+    } else {
+      if (!orgId) throw new Error("Organization context required for owners");
+      conditions.push(eq(orders.orgId, orgId));
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: and(...conditions),
+      columns: { id: true, orderNumber: true, status: true },
     });
+
+    if (!order) {
+      throw new Error("Order not found or you don't have access to it");
+    }
+
+    // Customers only get to replay the route once the delivery is done
+    if (userRole === "customer" && order.status !== "delivered") {
+      throw new Error("Route is available once the order has been delivered");
+    }
+
+    const route = await locationHistoryService.getRoute(order.id);
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      ...route,
+    };
   }
 
   async getCustomerLocationLabels(
@@ -910,12 +3171,7 @@ export class OrderService {
       throw new Error("Customer not found");
     }
 
-    const customerLocations = customer.locations as
-      | Array<{
-          label: string;
-          preciseLocation: string;
-        }>
-      | undefined;
+    const customerLocations = customer.locations as SavedLocation[] | undefined;
 
     return (
       customerLocations?.map((loc) => ({
@@ -959,89 +3215,175 @@ export class OrderService {
       throw new Error("Order is already cancelled");
     }
 
+    if (this.canTransitionTo(order.status, "returning_to_sender")) {
+      throw new Error(
+        "The rider still has the package, return the order to sender instead",
+      );
+    }
+
     if (!this.canTransitionTo(order.status, "cancelled")) {
       throw new Error(`Orders in ${order.status} status cannot be cancelled`);
     }
 
-    const [updatedOrder] = await db
-      .update(orders)
-      .set({
-        status: "cancelled",
-        cancelledAt: new Date(),
-        cancelledBy: userId,
-        cancellationReason: `Cancelled by ${userRole}`,
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
+    const cancellationReason = `Cancelled by ${userRole}`;
 
-    // Notify all parties about cancellation
-    const notifyUsers: string[] = [order.customerId];
-    if (order.riderId) {
-      notifyUsers.push(order.riderId);
-    }
+    const updatedOrder = await db.transaction(async (tx) => {
+      const [cancelled] = await tx
+        .update(orders)
+        .set({
+          status: "cancelled",
+          cancelledAt: new Date(),
+          cancelledBy: userId,
+          cancellationReason,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(orders.id, orderId), eq(orders.status, order.status)))
+        .returning();
 
-    await pushNotificationService.notifyOrderCancelled(
-      notifyUsers,
-      order.orderNumber,
-      userRole,
-    );
+      if (!cancelled) {
+        throw new Error("Order changed while cancelling, please try again");
+      }
+
+      await orderEventService.record(tx, {
+        orderId,
+        orgId: order.orgId,
+        eventType: "order_cancelled",
+        actorId: userId,
+        actorRole: userRole as "owner" | "rider" | "customer",
+        fromStatus: order.status,
+        toStatus: "cancelled",
+        riderLocation: order.riderCurrentLocation,
+        metadata: { reason: cancellationReason },
+      });
+
+      return cancelled;
+    });
+
+    await orderEvents.publish("order.cancelled", {
+      order: updatedOrder,
+      fromStatus: order.status,
+      actorId: userId,
+      actorRole: userRole as "owner" | "rider" | "customer",
+      reason: cancellationReason,
+    });
 
     return updatedOrder;
   }
 
-  private async sendAssignmentNotifications(
-    order: any,
-    customer: any,
-    rider: any,
+  async reassignOrder(
+    orderId: string,
+    ownerId: string,
+    orgId: string,
+    dto: ReassignOrderDTO,
   ) {
-    try {
-      const notifications = [];
-
-      if (customer.email) {
-        notifications.push(
-          sendEmail({
-            to: customer.email,
-            subject: `New Package Assigned - ${order.orderNumber}`,
-            html: `
-            <h2>New Package Assigned</h2>
-            <p>Hello ${customer.name || "Customer"},</p>
-            <p>A new package has been assigned to you:</p>
-            <ul>
-              <li><strong>Order Number:</strong> ${order.orderNumber}</li>
-              <li><strong>Package:</strong> ${order.packageDescription}</li>
-              <li><strong>Assigned Rider:</strong> ${rider.name || "Rider"}</li>
-            </ul>
-            <p>Please go to the mobile app to set your delivery location.</p>
-          `,
-          }),
+    const { updatedOrder, previousRiderId, fromStatus } = await db.transaction(
+      async (tx) => {
+        const ownerMembership = await tx.query.userOrganizations.findFirst({
+          where: and(
+            eq(userOrganizations.userId, ownerId),
+            eq(userOrganizations.orgId, orgId),
+            eq(userOrganizations.role, "owner"),
+            eq(userOrganizations.isActive, true),
+          ),
+        });
+
+        if (!ownerMembership) {
+          throw new Error("Only organization owners can reassign orders");
+        }
+
+        const order = await tx.query.orders.findFirst({
+          where: and(eq(orders.id, orderId), eq(orders.orgId, orgId)),
+        });
+
+        if (!order) {
+          throw new Error("Order not found");
+        }
+
+        if (NOT_REASSIGNABLE_STATUSES.includes(order.status)) {
+          throw new Error(
+            `Orders in ${order.status} status cannot be reassigned. Orders can only move to another rider before the package is picked up`,
+          );
+        }
+
+        if (order.riderId === dto.riderId) {
+          throw new Error("Order is already assigned to this rider");
+        }
+
+        await this.validateRiderForOrder(
+          tx,
+          dto.riderId,
+          orgId,
+          "be assigned orders",
         );
-      }
 
-      if (rider.email) {
-        notifications.push(
-          sendEmail({
-            to: rider.email,
-            subject: `New Delivery Assignment - ${order.orderNumber}`,
-            html: `
-            <h2>New Delivery Assignment</h2>
-            <p>Hello ${rider.name || "Rider"},</p>
-            <p>You have been assigned a new delivery:</p>
-            <ul>
-              <li><strong>Order Number:</strong> ${order.orderNumber}</li>
-              <li><strong>Package:</strong> ${order.packageDescription}</li>
-              <li><strong>Customer:</strong> ${customer.name || "Customer"}</li>
-            </ul>
-            <p>Please go to the mobile app to accept this delivery.</p>
-          `,
-          }),
-        );
-      }
+        // Go back to the state the order would be in before any rider
+        // accepted; a scheduled order keeps waiting for its release
+        const nextStatus: OrderStatus =
+          order.status === "scheduled"
+            ? "scheduled"
+            : order.customerLocationSetAt
+              ? "customer_location_set"
+              : "pending";
+
+        const [reassigned] = await tx
+          .update(orders)
+          .set({
+            riderId: dto.riderId,
+            status: nextStatus,
+            assignedAt: new Date(),
+            riderAcceptedAt: null,
+            packagePickedUpAt: null,
+            deliveryStartedAt: null,
+            arrivedAtLocationAt: null,
+            riderNearbyNotifiedAt: null,
+            geofencePromptedAt: null,
+            riderCurrentLocation: null,
+            updatedAt: new Date(),
+          })
+          // The rider may have picked the package up since it was read
+          .where(and(eq(orders.id, orderId), eq(orders.status, order.status)))
+          .returning();
 
-      await Promise.all(notifications);
-    } catch (error) {
-      console.error("Failed to send assignment notifications:", error);
-    }
+        if (!reassigned) {
+          throw new Error("Order changed while reassigning, please try again");
+        }
+
+        await deliveryCodeService.revokeCode(tx, orderId);
+
+        await orderEventService.record(tx, {
+          orderId,
+          orgId,
+          eventType: "rider_reassigned",
+          actorId: ownerId,
+          actorRole: "owner",
+          fromStatus: order.status,
+          toStatus: nextStatus,
+          riderLocation: order.riderCurrentLocation,
+          metadata: {
+            previousRiderId: order.riderId,
+            newRiderId: dto.riderId,
+            reason: dto.reason,
+          },
+        });
+
+        return {
+          updatedOrder: reassigned,
+          previousRiderId: order.riderId,
+          fromStatus: order.status,
+        };
+      },
+    );
+
+    await orderEvents.publish("order.reassigned", {
+      order: updatedOrder,
+      fromStatus,
+      actorId: ownerId,
+      actorRole: "owner",
+      previousRiderId,
+      reason: dto.reason,
+    });
+
+    return updatedOrder;
   }
 }
 
@@ -0,0 +1,435 @@
+import { eq, and, asc, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../config/database.js";
+import {
+  organizations,
+  pickupLocations,
+  OrganizationSettings,
+  GeoPoint,
+} from "../models/schema.js";
+import { createAuditLog } from "./audit.service.js";
+import {
+  GeoPointInput,
+  geoPointInputSchema,
+  parseGeoPoint,
+} from "../utils/geo.js";
+
+export const DEFAULT_ORGANIZATION_SETTINGS: Required<OrganizationSettings> = {
+  requireProofOfDelivery: false,
+  dispatchAcceptWindowSeconds: 120,
+  averageSpeedKmh: 25,
+  geofenceMode: "prompt",
+  geofenceRadiusMeters: 100,
+  scheduledReleaseLeadMinutes: 60,
+  orderNumberPrefix: "ORD",
+  maxDeliveryAttempts: 3,
+};
+
+export const organizationSettingsSchema = z
+  .object({
+    requireProofOfDelivery: z.boolean(),
+    dispatchAcceptWindowSeconds: z.number().int().min(30).max(3600),
+    averageSpeedKmh: z.number().min(5).max(120),
+    geofenceMode: z.enum(["off", "prompt", "auto"]),
+    geofenceRadiusMeters: z.number().int().min(20).max(2000),
+    scheduledReleaseLeadMinutes: z.number().int().min(5).max(1440),
+    orderNumberPrefix: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9]{1,10}$/, "must be 1 to 10 letters or digits"),
+    maxDeliveryAttempts: z.number().int().min(1).max(10),
+  })
+  .partial()
+  .strict();
+
+const pickupLocationSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    address: z.string().trim().min(1).nullish(),
+    coordinates: geoPointInputSchema,
+    contactName: z.string().trim().min(1).nullish(),
+    contactPhone: z.string().trim().min(1).nullish(),
+  })
+  .strict();
+
+export interface PickupLocationDTO {
+  name?: string;
+  address?: string | null;
+  coordinates?: GeoPointInput;
+  contactName?: string | null;
+  contactPhone?: string | null;
+}
+
+/**
+ * Where a rider collects an order: its pickup location, or the organization
+ * itself when the order has none
+ */
+export interface PickupPoint {
+  pickupLocationId: string | null;
+  name: string;
+  address: string | null;
+  coordinates: GeoPoint | null;
+  contactName: string | null;
+  contactPhone: string | null;
+}
+
+/**
+ * Select columns resolving an order's pickup point. Queries using them must
+ * join organizations and left join pickupLocations on
+ * orders.pickupLocationId; toPickupPoint turns the row into a PickupPoint.
+ */
+export const pickupPointColumns = {
+  pickupLocationId: pickupLocations.id,
+  pickupName: sql<string>`coalesce(${pickupLocations.name}, ${organizations.name})`,
+  pickupAddress: sql<
+    string | null
+  >`coalesce(${pickupLocations.address}, ${organizations.address})`,
+  pickupCoordinates: sql<GeoPoint | null>`coalesce(${pickupLocations.coordinates}, ${organizations.coordinates})`,
+  pickupContactName: pickupLocations.contactName,
+  pickupContactPhone: pickupLocations.contactPhone,
+};
+
+export const toPickupPoint = (row: {
+  pickupLocationId: string | null;
+  pickupName: string;
+  pickupAddress: string | null;
+  pickupCoordinates: GeoPoint | null;
+  pickupContactName: string | null;
+  pickupContactPhone: string | null;
+}): PickupPoint => ({
+  pickupLocationId: row.pickupLocationId,
+  name: row.pickupName,
+  address: row.pickupAddress,
+  coordinates: row.pickupCoordinates,
+  contactName: row.pickupContactName,
+  contactPhone: row.pickupContactPhone,
+});
+
+/**
+ * An order number as customers see it: the prefix and the sequence number
+ * padded to six digits, e.g. ACME-000123
+ */
+export const formatOrderNumber = (prefix: string, sequence: number) =>
+  `${prefix}-${sequence.toString().padStart(6, "0")}`;
+
+const parsePickupLocation = <T extends z.ZodType>(
+  schema: T,
+  input: unknown,
+): z.output<T> => {
+  const parsed = schema.safeParse(input);
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid pickup location: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return parsed.data;
+};
+
+export class OrganizationService {
+  /**
+   * Get an organization's settings merged over the defaults
+   */
+  async getSettings(
+    orgId: string,
+    tx: any = db,
+  ): Promise<Required<OrganizationSettings>> {
+    const org = await tx.query.organizations.findFirst({
+      where: eq(organizations.id, orgId),
+      columns: { settings: true },
+    });
+
+    if (!org) {
+      throw new Error("Organization not found");
+    }
+
+    return { ...DEFAULT_ORGANIZATION_SETTINGS, ...(org.settings || {}) };
+  }
+
+  /**
+   * Update an organization's settings (owner only, enforced by the route)
+   */
+  async updateSettings(
+    orgId: string,
+    actorUserId: string,
+    updates: unknown,
+  ): Promise<Required<OrganizationSettings>> {
+    const parsed = organizationSettingsSchema.safeParse(updates);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid settings: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".") || "body"} ${issue.message}`)
+          .join(", ")}`,
+      );
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      throw new Error("No valid settings to update");
+    }
+
+    const current = await this.getSettings(orgId);
+    const settings = { ...current, ...parsed.data };
+
+    await db
+      .update(organizations)
+      .set({ settings, updatedAt: new Date() })
+      .where(eq(organizations.id, orgId));
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.settings_updated",
+      resourceType: "organization",
+      resourceId: orgId,
+      details: { changes: parsed.data },
+      severity: "info",
+    });
+
+    return settings;
+  }
+
+  /**
+   * Take the next order number of the organization. The increment locks
+   * the organization's row until the transaction ends, so concurrent orders
+   * wait for each other instead of sharing a number, and a rolled back
+   * order gives its number back.
+   */
+  async nextOrderNumber(orgId: string, tx: any): Promise<string> {
+    const [org] = await tx
+      .update(organizations)
+      .set({
+        lastOrderNumber: sql`${organizations.lastOrderNumber} + 1`,
+        // Handing out a number is not a change to the organization
+        updatedAt: sql`${organizations.updatedAt}`,
+      })
+      .where(eq(organizations.id, orgId))
+      .returning({
+        lastOrderNumber: organizations.lastOrderNumber,
+        settings: organizations.settings,
+      });
+
+    if (!org) {
+      throw new Error("Organization not found");
+    }
+
+    return formatOrderNumber(
+      org.settings?.orderNumberPrefix ??
+        DEFAULT_ORGANIZATION_SETTINGS.orderNumberPrefix,
+      org.lastOrderNumber,
+    );
+  }
+
+  /**
+   * Update the organization's address and pickup coordinates
+   */
+  async updateLocation(
+    orgId: string,
+    actorUserId: string,
+    updates: { address?: string; coordinates?: GeoPointInput },
+  ) {
+    const updateData: { address?: string; coordinates?: GeoPoint } = {};
+
+    if (updates.address !== undefined) {
+      if (!updates.address.trim()) {
+        throw new Error("Address cannot be empty");
+      }
+      updateData.address = updates.address.trim();
+    }
+
+    if (updates.coordinates !== undefined) {
+      updateData.coordinates = parseGeoPoint(
+        updates.coordinates,
+        "coordinates",
+      );
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error("No valid fields to update");
+    }
+
+    const [organization] = await db
+      .update(organizations)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(organizations.id, orgId))
+      .returning();
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.location_updated",
+      resourceType: "organization",
+      resourceId: orgId,
+      details: updateData,
+      severity: "info",
+    });
+
+    return organization;
+  }
+
+  /**
+   * List the organization's active pickup locations
+   */
+  async listPickupLocations(orgId: string) {
+    return await db
+      .select()
+      .from(pickupLocations)
+      .where(
+        and(
+          eq(pickupLocations.orgId, orgId),
+          eq(pickupLocations.isActive, true),
+        ),
+      )
+      .orderBy(asc(pickupLocations.name));
+  }
+
+  /**
+   * Add a pickup location to the organization
+   */
+  async createPickupLocation(
+    orgId: string,
+    actorUserId: string,
+    dto: PickupLocationDTO,
+  ) {
+    const data = parsePickupLocation(pickupLocationSchema, dto);
+
+    const [pickupLocation] = await db
+      .insert(pickupLocations)
+      .values({
+        orgId,
+        name: data.name,
+        address: data.address ?? null,
+        coordinates: data.coordinates,
+        contactName: data.contactName ?? null,
+        contactPhone: data.contactPhone ?? null,
+      })
+      .returning();
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.pickup_location_created",
+      resourceType: "pickup_location",
+      resourceId: pickupLocation.id,
+      details: { name: pickupLocation.name },
+      severity: "info",
+    });
+
+    return pickupLocation;
+  }
+
+  /**
+   * Update one of the organization's active pickup locations
+   */
+  async updatePickupLocation(
+    orgId: string,
+    actorUserId: string,
+    pickupLocationId: string,
+    dto: PickupLocationDTO,
+  ) {
+    const updates = parsePickupLocation(pickupLocationSchema.partial(), dto);
+
+    if (Object.keys(updates).length === 0) {
+      throw new Error("No valid fields to update");
+    }
+
+    const [pickupLocation] = await db
+      .update(pickupLocations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(
+        and(
+          eq(pickupLocations.id, pickupLocationId),
+          eq(pickupLocations.orgId, orgId),
+          eq(pickupLocations.isActive, true),
+        ),
+      )
+      .returning();
+
+    if (!pickupLocation) {
+      throw new Error("Pickup location not found");
+    }
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.pickup_location_updated",
+      resourceType: "pickup_location",
+      resourceId: pickupLocationId,
+      details: { changes: updates },
+      severity: "info",
+    });
+
+    return pickupLocation;
+  }
+
+  /**
+   * Remove a pickup location. It is only deactivated, so orders that were
+   * collected there keep showing it.
+   */
+  async deletePickupLocation(
+    orgId: string,
+    actorUserId: string,
+    pickupLocationId: string,
+  ) {
+    const [pickupLocation] = await db
+      .update(pickupLocations)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(
+        and(
+          eq(pickupLocations.id, pickupLocationId),
+          eq(pickupLocations.orgId, orgId),
+          eq(pickupLocations.isActive, true),
+        ),
+      )
+      .returning({ id: pickupLocations.id, name: pickupLocations.name });
+
+    if (!pickupLocation) {
+      throw new Error("Pickup location not found");
+    }
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.pickup_location_deleted",
+      resourceType: "pickup_location",
+      resourceId: pickupLocationId,
+      details: { name: pickupLocation.name },
+      severity: "info",
+    });
+  }
+
+  /**
+   * Resolve where an order is collected: its pickup location when set,
+   * the organization's address and coordinates otherwise
+   */
+  async getPickupPoint(
+    order: { orgId: string; pickupLocationId: string | null },
+    tx: any = db,
+  ): Promise<PickupPoint> {
+    const [row] = await tx
+      .select(pickupPointColumns)
+      .from(organizations)
+      .leftJoin(
+        pickupLocations,
+        and(
+          eq(pickupLocations.orgId, organizations.id),
+          order.pickupLocationId
+            ? eq(pickupLocations.id, order.pickupLocationId)
+            : sql`false`,
+        ),
+      )
+      .where(eq(organizations.id, order.orgId))
+      .limit(1);
+
+    if (!row) {
+      throw new Error("Organization not found");
+    }
+
+    return toPickupPoint(row);
+  }
+}
+
+export const organizationService = new OrganizationService();
@@ -0,0 +1,361 @@
+import { eq, and, asc, ne, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../config/database.js";
+import {
+  packageCategories,
+  PackagePhoto,
+  RiderVehicle,
+} from "../models/schema.js";
+import { createAuditLog } from "./audit.service.js";
+import { CloudinaryService } from "./cloudinary.service.js";
+
+export const MAX_PACKAGE_PHOTOS = 5;
+
+const dimensionCm = z.number().positive().max(1000).nullish();
+
+export const packageDetailsSchema = z
+  .object({
+    categoryId: z.uuid().nullish(),
+    lengthCm: dimensionCm,
+    widthCm: dimensionCm,
+    heightCm: dimensionCm,
+    weightKg: z.number().positive().max(10000).nullish(),
+    // In the organization's currency; numeric(12, 2) in the database
+    declaredValue: z.number().nonnegative().max(9999999999.99).nullish(),
+    isFragile: z.boolean().optional(),
+    isPerishable: z.boolean().optional(),
+    itemCount: z.number().int().min(1).max(1000).optional(),
+    // Base64 encoded data:image/ strings, uploaded when the order is created
+    photos: z
+      .array(
+        z
+          .string()
+          .startsWith(
+            "data:image/",
+            "expected a base64 encoded data:image/ string",
+          ),
+      )
+      .max(MAX_PACKAGE_PHOTOS)
+      .optional(),
+  })
+  .strict()
+  .refine(
+    (details) =>
+      [details.lengthCm, details.widthCm, details.heightCm].every(
+        (side) => side == null,
+      ) ||
+      [details.lengthCm, details.widthCm, details.heightCm].every(
+        (side) => side != null,
+      ),
+    { message: "lengthCm, widthCm and heightCm must be given together" },
+  );
+
+export type PackageDetailsInput = z.input<typeof packageDetailsSchema>;
+export type PackageDetails = z.output<typeof packageDetailsSchema>;
+
+export const riderVehicleSchema = z
+  .object({
+    type: z.enum(["bicycle", "motorcycle", "car", "van", "truck"]),
+    maxWeightKg: z
+      .number()
+      .positive()
+      .max(50000)
+      .nullish()
+      .transform((value) => value ?? null),
+    maxLengthCm: z
+      .number()
+      .positive()
+      .max(2000)
+      .nullish()
+      .transform((value) => value ?? null),
+  })
+  .strict();
+
+export type RiderVehicleInput = z.input<typeof riderVehicleSchema>;
+
+const packageCategorySchema = z
+  .object({
+    name: z.string().trim().min(1),
+    description: z.string().trim().min(1).nullish(),
+  })
+  .strict();
+
+export interface PackageCategoryDTO {
+  name?: string;
+  description?: string | null;
+}
+
+export type CapacityLimit = "weight" | "size";
+
+/**
+ * Which limits of a rider's vehicle a package breaks: its weight, or its
+ * longest side. Empty when the package fits, when the rider has not
+ * described a vehicle, or when the package was not measured.
+ */
+export const checkVehicleCapacity = (
+  pkg: {
+    packageWeightKg: number | null;
+    packageLengthCm: number | null;
+    packageWidthCm: number | null;
+    packageHeightCm: number | null;
+  },
+  vehicle: RiderVehicle | null,
+): CapacityLimit[] => {
+  if (!vehicle) return [];
+
+  const exceeded: CapacityLimit[] = [];
+
+  if (
+    vehicle.maxWeightKg !== null &&
+    pkg.packageWeightKg !== null &&
+    pkg.packageWeightKg > vehicle.maxWeightKg
+  ) {
+    exceeded.push("weight");
+  }
+
+  const longestSideCm = Math.max(
+    pkg.packageLengthCm ?? 0,
+    pkg.packageWidthCm ?? 0,
+    pkg.packageHeightCm ?? 0,
+  );
+  if (vehicle.maxLengthCm !== null && longestSideCm > vehicle.maxLengthCm) {
+    exceeded.push("size");
+  }
+
+  return exceeded;
+};
+
+/**
+ * Validate a request body with a zod schema, throwing an Error that names
+ * the offending fields
+ */
+const parseWith = <T extends z.ZodType>(
+  schema: T,
+  input: unknown,
+  label: string,
+): z.output<T> => {
+  const parsed = schema.safeParse(input);
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid ${label}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+
+  return parsed.data;
+};
+
+export const parsePackageDetails = (input: unknown): PackageDetails =>
+  parseWith(packageDetailsSchema, input ?? {}, "package details");
+
+export const parseRiderVehicle = (input: unknown): RiderVehicle =>
+  parseWith(riderVehicleSchema, input, "vehicle");
+
+export class PackageService {
+  /**
+   * List the organization's active package categories
+   */
+  async listCategories(orgId: string) {
+    return await db
+      .select()
+      .from(packageCategories)
+      .where(
+        and(
+          eq(packageCategories.orgId, orgId),
+          eq(packageCategories.isActive, true),
+        ),
+      )
+      .orderBy(asc(packageCategories.name));
+  }
+
+  /**
+   * Add a package category to the organization
+   */
+  async createCategory(
+    orgId: string,
+    actorUserId: string,
+    dto: PackageCategoryDTO,
+  ) {
+    const data = parseWith(packageCategorySchema, dto, "package category");
+
+    await this.assertNameAvailable(orgId, data.name);
+
+    const [category] = await db
+      .insert(packageCategories)
+      .values({
+        orgId,
+        name: data.name,
+        description: data.description ?? null,
+      })
+      .returning();
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.package_category_created",
+      resourceType: "package_category",
+      resourceId: category.id,
+      details: { name: category.name },
+      severity: "info",
+    });
+
+    return category;
+  }
+
+  /**
+   * Update one of the organization's active package categories
+   */
+  async updateCategory(
+    orgId: string,
+    actorUserId: string,
+    categoryId: string,
+    dto: PackageCategoryDTO,
+  ) {
+    const updates = parseWith(
+      packageCategorySchema.partial(),
+      dto,
+      "package category",
+    );
+
+    if (Object.keys(updates).length === 0) {
+      throw new Error("No valid fields to update");
+    }
+
+    if (updates.name) {
+      await this.assertNameAvailable(orgId, updates.name, categoryId);
+    }
+
+    const [category] = await db
+      .update(packageCategories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(
+        and(
+          eq(packageCategories.id, categoryId),
+          eq(packageCategories.orgId, orgId),
+          eq(packageCategories.isActive, true),
+        ),
+      )
+      .returning();
+
+    if (!category) {
+      throw new Error("Package category not found");
+    }
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.package_category_updated",
+      resourceType: "package_category",
+      resourceId: categoryId,
+      details: { changes: updates },
+      severity: "info",
+    });
+
+    return category;
+  }
+
+  /**
+   * Remove a package category. It is only deactivated, so orders that used
+   * it keep showing it.
+   */
+  async deleteCategory(orgId: string, actorUserId: string, categoryId: string) {
+    const [category] = await db
+      .update(packageCategories)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(
+        and(
+          eq(packageCategories.id, categoryId),
+          eq(packageCategories.orgId, orgId),
+          eq(packageCategories.isActive, true),
+        ),
+      )
+      .returning({ id: packageCategories.id, name: packageCategories.name });
+
+    if (!category) {
+      throw new Error("Package category not found");
+    }
+
+    await createAuditLog({
+      orgId,
+      userId: actorUserId,
+      action: "organization.package_category_deleted",
+      resourceType: "package_category",
+      resourceId: categoryId,
+      details: { name: category.name },
+      severity: "info",
+    });
+  }
+
+  /**
+   * Check that a category can be used on a new order of the organization
+   */
+  async assertActiveCategory(tx: any, orgId: string, categoryId: string) {
+    const category = await tx.query.packageCategories.findFirst({
+      where: and(
+        eq(packageCategories.id, categoryId),
+        eq(packageCategories.orgId, orgId),
+        eq(packageCategories.isActive, true),
+      ),
+      columns: { id: true },
+    });
+
+    if (!category) {
+      throw new Error("Package category not found");
+    }
+  }
+
+  /**
+   * Upload package photos. If one fails, the ones already uploaded are
+   * deleted again before the error is rethrown.
+   */
+  async uploadPhotos(photos: string[]): Promise<PackagePhoto[]> {
+    const uploaded: PackagePhoto[] = [];
+
+    try {
+      for (const photo of photos) {
+        const result = await CloudinaryService.uploadImage(photo, {
+          folder: "package_photos",
+          transformation: [{ width: 1280, crop: "limit" }, { quality: "auto" }],
+        });
+        uploaded.push({ url: result.secureUrl, publicId: result.publicId });
+      }
+    } catch (error) {
+      await this.deletePhotos(uploaded);
+      throw error;
+    }
+
+    return uploaded;
+  }
+
+  async deletePhotos(photos: PackagePhoto[]) {
+    await Promise.all(
+      photos.map((photo) => CloudinaryService.deleteImage(photo.publicId)),
+    );
+  }
+
+  private async assertNameAvailable(
+    orgId: string,
+    name: string,
+    exceptCategoryId?: string,
+  ) {
+    const existing = await db.query.packageCategories.findFirst({
+      where: and(
+        eq(packageCategories.orgId, orgId),
+        eq(packageCategories.isActive, true),
+        sql`lower(${packageCategories.name}) = lower(${name})`,
+        exceptCategoryId
+          ? ne(packageCategories.id, exceptCategoryId)
+          : undefined,
+      ),
+      columns: { id: true },
+    });
+
+    if (existing) {
+      throw new Error(`A package category named "${name}" already exists`);
+    }
+  }
+}
+
+export const packageService = new PackageService();
@@ -31,6 +31,16 @@ interface NotificationPayload {
   data?: Record<string, string>;
 }
 
+// Window of a scheduled delivery as shown in notification text
+const describeWindow = (from: Date, until: Date | null) => {
+  const format = (date: Date) =>
+    date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+  return until
+    ? `between ${format(from)} and ${format(until)}`
+    : `at ${format(from)}`;
+};
+
 export class PushNotificationService {
   /**
    * Send push notification to a specific user
@@ -126,7 +136,7 @@ export class PushNotificationService {
 
   async notifyOrderCreated(
     customerId: string,
-    riderId: string,
+    riderId: string | null,
     orderNumber: string,
     packageDescription: string,
   ): Promise<void> {
@@ -139,17 +149,157 @@ export class PushNotificationService {
           orderNumber,
         },
       }),
-      this.sendToUser(riderId, {
-        title: "🚴 New Delivery Assignment",
-        body: `Order ${orderNumber}: ${packageDescription}`,
-        data: {
-          type: "order_assigned",
-          orderNumber,
-        },
+      riderId
+        ? this.sendToUser(riderId, {
+            title: "🚴 New Delivery Assignment",
+            body: `Order ${orderNumber}: ${packageDescription}`,
+            data: {
+              type: "order_assigned",
+              orderNumber,
+            },
+          })
+        : Promise.resolve(),
+    ]);
+  }
+
+  async notifyDeliveryScheduled(
+    customerId: string,
+    orderNumber: string,
+    from: Date,
+    until: Date | null,
+  ): Promise<void> {
+    await this.sendToUser(customerId, {
+      title: "📅 Delivery Scheduled",
+      body: `Order ${orderNumber} is booked for delivery ${describeWindow(from, until)}`,
+      data: {
+        type: "delivery_scheduled",
+        orderNumber,
+        windowStart: from.toISOString(),
+        windowEnd: until?.toISOString() ?? "",
+      },
+    });
+  }
+
+  async notifyScheduledDeliveryReminder(
+    customerId: string,
+    riderId: string | null,
+    orderNumber: string,
+    from: Date,
+    until: Date | null,
+  ): Promise<void> {
+    const data = {
+      orderNumber,
+      windowStart: from.toISOString(),
+      windowEnd: until?.toISOString() ?? "",
+    };
+
+    await Promise.allSettled([
+      this.sendToUser(customerId, {
+        title: "⏰ Delivery Coming Up",
+        body: `Your delivery (${orderNumber}) is due ${describeWindow(from, until)}`,
+        data: { type: "scheduled_delivery_reminder", ...data },
       }),
+      riderId
+        ? this.sendToUser(riderId, {
+            title: "⏰ Scheduled Delivery Released",
+            body: `Order ${orderNumber} is due ${describeWindow(from, until)}`,
+            data: { type: "order_assigned", ...data },
+          })
+        : Promise.resolve(),
     ]);
   }
 
+  async notifyOrderAvailable(
+    riderIds: string[],
+    orderNumber: string,
+    packageDescription: string,
+  ): Promise<void> {
+    if (riderIds.length === 0) return;
+
+    await this.sendToMultipleUsers(riderIds, {
+      title: "📦 New Order Available",
+      body: `Order ${orderNumber} is open for pickup: ${packageDescription}`,
+      data: {
+        type: "order_available",
+        orderNumber,
+      },
+    });
+  }
+
+  /**
+   * One notification per user for the orders of a bulk import: customers
+   * and riders about the orders assigned to them, open pool riders about
+   * how many orders became available
+   */
+  async notifyOrdersImported(
+    customerOrders: Map<string, string[]>,
+    riderOrders: Map<string, string[]>,
+    openPoolOrders: Map<string, string[]>,
+  ): Promise<void> {
+    const describe = (orderNumbers: string[]) =>
+      orderNumbers.length === 1
+        ? `Order ${orderNumbers[0]}`
+        : `Orders ${orderNumbers.join(", ")}`;
+
+    await Promise.allSettled([
+      ...[...customerOrders].map(([customerId, orderNumbers]) =>
+        this.sendToUser(customerId, {
+          title:
+            orderNumbers.length === 1
+              ? "📦 New Package Assigned"
+              : `📦 ${orderNumbers.length} New Packages Assigned`,
+          body: describe(orderNumbers),
+          data: {
+            type: "order_created",
+            orderNumbers: orderNumbers.join(","),
+          },
+        }),
+      ),
+      ...[...riderOrders].map(([riderId, orderNumbers]) =>
+        this.sendToUser(riderId, {
+          title:
+            orderNumbers.length === 1
+              ? "🚴 New Delivery Assignment"
+              : `🚴 ${orderNumbers.length} New Delivery Assignments`,
+          body: describe(orderNumbers),
+          data: {
+            type: "order_assigned",
+            orderNumbers: orderNumbers.join(","),
+          },
+        }),
+      ),
+      ...[...openPoolOrders].map(([riderId, orderNumbers]) =>
+        this.sendToUser(riderId, {
+          title:
+            orderNumbers.length === 1
+              ? "📦 New Order Available"
+              : `📦 ${orderNumbers.length} New Orders Available`,
+          body: `${describe(orderNumbers)} ${orderNumbers.length === 1 ? "is" : "are"} open for pickup`,
+          data: {
+            type: "order_available",
+            orderNumbers: orderNumbers.join(","),
+          },
+        }),
+      ),
+    ]);
+  }
+
+  async notifyRiderNearby(
+    customerId: string,
+    orderNumber: string,
+    riderName: string,
+    minutesAway: number,
+  ): Promise<void> {
+    await this.sendToUser(customerId, {
+      title: "🛵 Rider Almost There",
+      body: `${riderName} is about ${minutesAway} minute${minutesAway === 1 ? "" : "s"} away with your delivery (${orderNumber})`,
+      data: {
+        type: "rider_nearby",
+        orderNumber,
+      },
+    });
+  }
+
   async notifyRiderAccepted(
     customerId: string,
     orderNumber: string,
@@ -225,6 +375,41 @@ export class PushNotificationService {
     });
   }
 
+  async notifyGeofencePrompt(
+    riderId: string,
+    orderNumber: string,
+    target: "pickup" | "dropoff",
+  ): Promise<void> {
+    await this.sendToUser(riderId, {
+      title:
+        target === "pickup" ? "📦 At the Pickup Point?" : "🎯 At the Customer?",
+      body:
+        target === "pickup"
+          ? `Looks like you've reached the pickup point. Tap to mark order ${orderNumber} as picked up`
+          : `Looks like you've arrived. Tap to mark order ${orderNumber} as arrived`,
+      data: {
+        type: "geofence_prompt",
+        orderNumber,
+        target,
+      },
+    });
+  }
+
+  async notifyDeliveryCode(
+    customerId: string,
+    orderNumber: string,
+    code: string,
+  ): Promise<void> {
+    await this.sendToUser(customerId, {
+      title: "🔐 Your Delivery Code",
+      body: `Share code ${code} with your rider to receive your package (${orderNumber})`,
+      data: {
+        type: "delivery_code",
+        orderNumber,
+      },
+    });
+  }
+
   async notifyDeliveryCompleted(
     customerId: string,
     orderNumber: string,
@@ -239,6 +424,43 @@ export class PushNotificationService {
     });
   }
 
+  async notifyOrderReassigned(
+    previousRiderId: string | null,
+    newRiderId: string,
+    customerId: string,
+    orderNumber: string,
+    newRiderName: string,
+  ): Promise<void> {
+    await Promise.allSettled([
+      previousRiderId
+        ? this.sendToUser(previousRiderId, {
+            title: "🔄 Delivery Reassigned",
+            body: `Order ${orderNumber} has been reassigned to another rider`,
+            data: {
+              type: "order_unassigned",
+              orderNumber,
+            },
+          })
+        : Promise.resolve(),
+      this.sendToUser(newRiderId, {
+        title: "🚴 New Delivery Assignment",
+        body: `Order ${orderNumber} has been reassigned to you`,
+        data: {
+          type: "order_assigned",
+          orderNumber,
+        },
+      }),
+      this.sendToUser(customerId, {
+        title: "🔄 New Rider Assigned",
+        body: `${newRiderName} is now handling your delivery (${orderNumber})`,
+        data: {
+          type: "rider_reassigned",
+          orderNumber,
+        },
+      }),
+    ]);
+  }
+
   async notifyOrderCancelled(
     userIds: string[],
     orderNumber: string,
@@ -253,6 +475,134 @@ export class PushNotificationService {
       },
     });
   }
+
+  async notifyDeliveryFailed(
+    customerId: string,
+    ownerIds: string[],
+    orderNumber: string,
+    reason: string,
+    returningToSender: boolean,
+  ): Promise<void> {
+    await Promise.allSettled([
+      this.sendToUser(customerId, {
+        title: "⚠️ Delivery Attempt Failed",
+        body: returningToSender
+          ? `${reason}. Your package is being returned to the sender (${orderNumber})`
+          : `${reason}. Another attempt will be arranged (${orderNumber})`,
+        data: {
+          type: "delivery_failed",
+          orderNumber,
+        },
+      }),
+      this.sendToMultipleUsers(ownerIds, {
+        title: "⚠️ Delivery Attempt Failed",
+        body: returningToSender
+          ? `Order ${orderNumber} used its last attempt and is on its way back: ${reason}`
+          : `Order ${orderNumber} could not be delivered: ${reason}. Schedule a reattempt or return it`,
+        data: {
+          type: "delivery_failed",
+          orderNumber,
+        },
+      }),
+    ]);
+  }
+
+  async notifyReattemptScheduled(
+    customerId: string,
+    riderId: string | null,
+    ownerIds: string[],
+    orderNumber: string,
+  ): Promise<void> {
+    await Promise.allSettled([
+      this.sendToUser(customerId, {
+        title: "🔁 Delivery Reattempt Scheduled",
+        body: `We'll try to deliver your package again (${orderNumber})`,
+        data: {
+          type: "reattempt_scheduled",
+          orderNumber,
+        },
+      }),
+      riderId
+        ? this.sendToUser(riderId, {
+            title: "🔁 Deliver Again",
+            body: `Order ${orderNumber} is ready for another delivery attempt`,
+            data: {
+              type: "reattempt_scheduled",
+              orderNumber,
+            },
+          })
+        : Promise.resolve(),
+      this.sendToMultipleUsers(ownerIds, {
+        title: "🔁 Delivery Reattempt Scheduled",
+        body: `Order ${orderNumber} will be delivered again`,
+        data: {
+          type: "reattempt_scheduled",
+          orderNumber,
+        },
+      }),
+    ]);
+  }
+
+  async notifyReturningToSender(
+    customerId: string,
+    riderId: string | null,
+    ownerIds: string[],
+    orderNumber: string,
+  ): Promise<void> {
+    await Promise.allSettled([
+      this.sendToUser(customerId, {
+        title: "↩️ Package Being Returned",
+        body: `Your package is being returned to the sender (${orderNumber})`,
+        data: {
+          type: "returning_to_sender",
+          orderNumber,
+        },
+      }),
+      riderId
+        ? this.sendToUser(riderId, {
+            title: "↩️ Return to Sender",
+            body: `Please bring order ${orderNumber} back to its pickup point`,
+            data: {
+              type: "returning_to_sender",
+              orderNumber,
+            },
+          })
+        : Promise.resolve(),
+      this.sendToMultipleUsers(ownerIds, {
+        title: "↩️ Package Being Returned",
+        body: `Order ${orderNumber} is on its way back to the sender`,
+        data: {
+          type: "returning_to_sender",
+          orderNumber,
+        },
+      }),
+    ]);
+  }
+
+  async notifyOrderReturned(
+    customerId: string,
+    ownerIds: string[],
+    orderNumber: string,
+  ): Promise<void> {
+    await Promise.allSettled([
+      this.sendToUser(customerId, {
+        title: "📦 Package Returned",
+        body: `Your package has been returned to the sender (${orderNumber})`,
+        data: {
+          type: "order_returned",
+          orderNumber,
+        },
+      }),
+      this.sendToMultipleUsers(ownerIds, {
+        title: "📦 Package Returned",
+        body: `Order ${orderNumber} is back at its pickup point`,
+        data: {
+          type: "order_returned",
+          orderNumber,
+        },
+      }),
+    ]);
+  }
 }
 
 export const pushNotificationService = new PushNotificationService();
@@ -1,8 +1,15 @@
 import { eq, and, desc, inArray } from "drizzle-orm";
 import { db } from "../config/database.js";
-import { users, organizations, userOrganizations } from "../models/schema.js";
+import {
+  users,
+  organizations,
+  userOrganizations,
+  RiderVehicle,
+} from "../models/schema.js";
 import { sendEmail } from "./email.service.js";
 import { createAuditLog } from "./audit.service.js";
+import { fleetService } from "./fleet.service.js";
+import { parseRiderVehicle, RiderVehicleInput } from "./package.service.js";
 
 // Define a union type for registration status
 export type RegistrationStatus =
@@ -901,6 +908,8 @@ export class RiderService {
         });
       }
 
+      await fleetService.publishRiderUpdate(riderId);
+
       return {
         isActive: newStatus,
         riderId,
@@ -911,6 +920,47 @@ export class RiderService {
       throw error;
     }
   }
+
+  /**
+   * Get the vehicle a rider has described, or null
+   */
+  async getVehicle(riderId: string): Promise<RiderVehicle | null> {
+    const [rider] = await db
+      .select({ vehicle: users.vehicle })
+      .from(users)
+      .where(eq(users.id, riderId))
+      .limit(1);
+
+    if (!rider) {
+      throw new Error("Rider not found");
+    }
+
+    return rider.vehicle ?? null;
+  }
+
+  /**
+   * Describe the rider's vehicle and what it can carry. Orders exceeding
+   * it are flagged in the open pool, cannot be claimed, can be declined,
+   * and are not offered to the rider by the dispatcher.
+   */
+  async updateVehicle(
+    riderId: string,
+    input: RiderVehicleInput,
+  ): Promise<RiderVehicle> {
+    const vehicle = parseRiderVehicle(input);
+
+    const [rider] = await db
+      .update(users)
+      .set({ vehicle, updatedAt: new Date() })
+      .where(and(eq(users.id, riderId), eq(users.role, "rider")))
+      .returning({ id: users.id });
+
+    if (!rider) {
+      throw new Error("Rider not found");
+    }
+
+    return vehicle;
+  }
 }
 
 export const riderService = new RiderService();
@@ -0,0 +1,170 @@
+import jwt from "jsonwebtoken";
+import { eq } from "drizzle-orm";
+import { db } from "../config/database.js";
+import {
+  orders,
+  organizations,
+  pickupLocations,
+  users,
+  GeoPoint,
+} from "../models/schema.js";
+import { OrderEta } from "../utils/eta.js";
+import { etaService } from "./eta.service.js";
+import { orderEventService, OrderStatus } from "./order-event.service.js";
+import { pickupPointColumns } from "./organization.service.js";
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+// Long enough to outlast deliveries booked a few weeks ahead
+const TRACKING_TOKEN_EXPIRES_IN = "30d";
+
+// The rider's position is only shared once they are on the way to the
+// recipient
+export const PUBLIC_LOCATION_STATUSES: OrderStatus[] = [
+  "in_transit",
+  "arrived_at_location",
+];
+
+// Nothing more happens to these orders, so their streams can end
+export const FINAL_STATUSES: OrderStatus[] = [
+  "delivered",
+  "cancelled",
+  "returned",
+];
+
+export interface PublicLocation {
+  lat: number;
+  lng: number;
+  recordedAt: string;
+}
+
+export const toPublicLocation = (point: GeoPoint): PublicLocation => ({
+  lat: point.lat,
+  lng: point.lng,
+  recordedAt: point.recordedAt,
+});
+
+/**
+ * What anyone holding an order's tracking link may see. Leaves out the
+ * customer, the drop-off location and everything about the rider but their
+ * first name and photo.
+ */
+export interface TrackingView {
+  orderNumber: string;
+  status: OrderStatus;
+  organizationName: string;
+  packageDescription: string;
+  scheduledFor: Date | null;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+  deliveredAt: Date | null;
+  rider: { firstName: string; profileImage: string | null } | null;
+  eta: OrderEta | null;
+  riderLocation: PublicLocation | null;
+  timeline: Awaited<ReturnType<typeof orderEventService.getTimeline>>;
+}
+
+export class TrackingService {
+  /**
+   * Sign a token that lets anyone follow one order without logging in
+   */
+  createToken(orderId: string): string {
+    return jwt.sign({ orderId, type: "tracking" }, JWT_SECRET, {
+      expiresIn: TRACKING_TOKEN_EXPIRES_IN,
+    });
+  }
+
+  /**
+   * Link to the web page that shows an order's tracking view
+   */
+  getTrackingLink(orderId: string): string {
+    return `${FRONTEND_URL}/track/${this.createToken(orderId)}`;
+  }
+
+  /**
+   * Check a tracking token and return the order it is for
+   */
+  verifyToken(token: string): string {
+    try {
+      const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+
+      if (payload.type !== "tracking" || typeof payload.orderId !== "string") {
+        throw new Error("Not a tracking token");
+      }
+
+      return payload.orderId;
+    } catch {
+      throw new Error("Invalid or expired tracking link");
+    }
+  }
+
+  async getTrackingView(orderId: string): Promise<TrackingView> {
+    const [order] = await db
+      .select({
+        id: orders.id,
+        orgId: orders.orgId,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+        packageDescription: orders.packageDescription,
+        scheduledFor: orders.scheduledFor,
+        windowStart: orders.windowStart,
+        windowEnd: orders.windowEnd,
+        deliveredAt: orders.deliveredAt,
+        riderId: orders.riderId,
+        riderCurrentLocation: orders.riderCurrentLocation,
+        customerLocationPrecise: orders.customerLocationPrecise,
+        organizationName: organizations.name,
+        pickupCoordinates: pickupPointColumns.pickupCoordinates,
+        riderName: users.name,
+        riderProfileImage: users.profileImage,
+      })
+      .from(orders)
+      .innerJoin(organizations, eq(orders.orgId, organizations.id))
+      .leftJoin(
+        pickupLocations,
+        eq(orders.pickupLocationId, pickupLocations.id),
+      )
+      .leftJoin(users, eq(orders.riderId, users.id))
+      .where(eq(orders.id, orderId))
+      .limit(1);
+
+    if (!order) {
+      throw new Error("Invalid or expired tracking link");
+    }
+
+    // Riders only take on scheduled orders once they are released
+    const showRider = order.riderId !== null && order.status !== "scheduled";
+
+    const [eta, timeline] = await Promise.all([
+      showRider ? etaService.getEta(order, order.pickupCoordinates) : null,
+      orderEventService.getTimeline(order.id, "public"),
+    ]);
+
+    return {
+      orderNumber: order.orderNumber,
+      status: order.status,
+      organizationName: order.organizationName,
+      packageDescription: order.packageDescription,
+      scheduledFor: order.scheduledFor,
+      windowStart: order.windowStart,
+      windowEnd: order.windowEnd,
+      deliveredAt: order.deliveredAt,
+      rider: showRider
+        ? {
+            firstName: order.riderName?.trim().split(/\s+/)[0] || "Rider",
+            profileImage: order.riderProfileImage,
+          }
+        : null,
+      eta,
+      riderLocation:
+        order.riderCurrentLocation &&
+        PUBLIC_LOCATION_STATUSES.includes(order.status)
+          ? toPublicLocation(order.riderCurrentLocation)
+          : null,
+      timeline,
+    };
+  }
+}
+
+export const trackingService = new TrackingService();
@@ -0,0 +1,97 @@
+/**
+ * Parse CSV text (RFC 4180) into rows of cells. Fields may be quoted, with
+ * "" for a quote inside them; quoted fields can span lines. Blank lines are
+ * skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV text whose first row names the columns into one object per
+ * row. Headers are passed through normalizeHeader, which returns null for
+ * columns it does not know.
+ */
+export const parseCsvRecords = (
+  text: string,
+  normalizeHeader: (header: string) => string | null,
+): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+
+  if (!header) {
+    throw new Error("Invalid CSV: missing header row");
+  }
+
+  const columns = header.map((name) => {
+    const column = normalizeHeader(name.trim());
+    if (!column) {
+      throw new Error(`Invalid CSV: unknown column "${name.trim()}"`);
+    }
+    return column;
+  });
+
+  return rows.map((cells) => {
+    if (cells.length > columns.length) {
+      throw new Error(
+        `Invalid CSV: a row has ${cells.length} fields but the header has ${columns.length}`,
+      );
+    }
+
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim();
+      // Empty cells count as left out
+      if (value) record[column] = value;
+    });
+    return record;
+  });
+};
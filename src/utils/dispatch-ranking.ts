@@ -0,0 +1,50 @@
+import type { RiderVehicle } from "../models/schema.js";
+import { Coordinates, DistanceFn, haversineDistanceKm } from "./geo.js";
+
+// Riders without a known position rank as if they were this far away
+const UNKNOWN_DISTANCE_KM = 50;
+// Each order a rider is already carrying counts as this much extra distance
+const ACTIVE_ORDER_PENALTY_KM = 3;
+
+export interface DispatchCandidate {
+  riderId: string;
+  name: string | null;
+  location: Coordinates | null;
+  vehicle: RiderVehicle | null;
+  activeOrders: number;
+  isActive: boolean;
+  isSuspended: boolean;
+}
+
+export interface RankedDispatchCandidate extends DispatchCandidate {
+  distanceKm: number | null;
+  score: number;
+}
+
+/**
+ * Rank riders for an order, best first. Inactive and suspended riders are
+ * dropped; ties are broken by rider ID so the result is deterministic.
+ */
+export const rankDispatchCandidates = (
+  candidates: DispatchCandidate[],
+  pickup: Coordinates | null,
+  distanceFn: DistanceFn = haversineDistanceKm,
+): RankedDispatchCandidate[] => {
+  return candidates
+    .filter((candidate) => candidate.isActive && !candidate.isSuspended)
+    .map((candidate) => {
+      const distanceKm =
+        pickup && candidate.location
+          ? distanceFn(candidate.location, pickup)
+          : null;
+
+      return {
+        ...candidate,
+        distanceKm,
+        score:
+          (distanceKm ?? UNKNOWN_DISTANCE_KM) +
+          candidate.activeOrders * ACTIVE_ORDER_PENALTY_KM,
+      };
+    })
+    .sort((a, b) => a.score - b.score || a.riderId.localeCompare(b.riderId));
+};
@@ -0,0 +1,77 @@
+import type { OrderStatus } from "../services/order-event.service.js";
+import { Coordinates, DistanceFn, haversineDistanceKm } from "./geo.js";
+
+// Before pickup the rider still has to pass by the pickup point
+const PRE_PICKUP_STATUSES: OrderStatus[] = ["confirmed"];
+const EN_ROUTE_STATUSES: OrderStatus[] = ["package_picked_up", "in_transit"];
+
+// Statuses in which an order has an ETA
+export const ETA_STATUSES: OrderStatus[] = [
+  ...PRE_PICKUP_STATUSES,
+  ...EN_ROUTE_STATUSES,
+];
+
+export interface OrderEta {
+  distanceKm: number;
+  speedKmh: number;
+  etaSeconds: number;
+  estimatedArrivalAt: string;
+  viaPickup: boolean;
+}
+
+export interface EtaInput {
+  status: OrderStatus;
+  riderLocation: Coordinates | null;
+  pickup: Coordinates | null;
+  destination: Coordinates | null;
+  averageSpeedKmh: number;
+  recentSpeedKmh: number | null;
+}
+
+/**
+ * Estimate when the rider reaches the customer. Uses straight-line distance
+ * (through the pickup point while the package is not collected yet) at the
+ * organization's average speed, blended half and half with the rider's
+ * recent speed when there is one. The recent speed is clamped to half and
+ * one and a half times the average so a red light or a short sprint does
+ * not swing the estimate. Returns null when there is nothing to estimate.
+ */
+export const estimateEta = (
+  input: EtaInput,
+  distanceFn: DistanceFn = haversineDistanceKm,
+  now: Date = new Date(),
+): OrderEta | null => {
+  const { riderLocation, destination, averageSpeedKmh } = input;
+  if (!riderLocation || !destination || averageSpeedKmh <= 0) return null;
+
+  const viaPickup =
+    PRE_PICKUP_STATUSES.includes(input.status) && input.pickup !== null;
+
+  if (!viaPickup && !EN_ROUTE_STATUSES.includes(input.status)) return null;
+
+  const distanceKm = viaPickup
+    ? distanceFn(riderLocation, input.pickup!) +
+      distanceFn(input.pickup!, destination)
+    : distanceFn(riderLocation, destination);
+
+  let speedKmh = averageSpeedKmh;
+  if (input.recentSpeedKmh !== null) {
+    const recent = Math.min(
+      Math.max(input.recentSpeedKmh, averageSpeedKmh * 0.5),
+      averageSpeedKmh * 1.5,
+    );
+    speedKmh = (averageSpeedKmh + recent) / 2;
+  }
+
+  const etaSeconds = Math.round((distanceKm / speedKmh) * 3600);
+
+  return {
+    distanceKm: Math.round(distanceKm * 1000) / 1000,
+    speedKmh: Math.round(speedKmh * 10) / 10,
+    etaSeconds,
+    estimatedArrivalAt: new Date(
+      now.getTime() + etaSeconds * 1000,
+    ).toISOString(),
+    viaPickup,
+  };
+};
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import type { GeoPoint } from "../models/schema.js";
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Distance between two points in kilometres
+ */
+export type DistanceFn = (from: Coordinates, to: Coordinates) => number;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const isValidCoordinates = (lat: number, lng: number) =>
+  Number.isFinite(lat) &&
+  Number.isFinite(lng) &&
+  Math.abs(lat) <= 90 &&
+  Math.abs(lng) <= 180;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export const haversineDistanceKm: DistanceFn = (from, to) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Total length in kilometres of a path through the given points, in order
+ */
+export const pathDistanceKm = (
+  points: Coordinates[],
+  distanceFn: DistanceFn = haversineDistanceKm,
+): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceFn(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+/**
+ * Parse a stored location string. Accepts "lat,lng" as sent by the apps and
+ * the JSON objects ({ lat, lng } or { latitude, longitude }) that the
+ * WebSocket handler has written. Returns null for anything else.
+ */
+export const parseCoordinates = (
+  value: string | null | undefined,
+): Coordinates | null => {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      const lat = Number(parsed.lat ?? parsed.latitude);
+      const lng = Number(parsed.lng ?? parsed.longitude);
+      return isValidCoordinates(lat, lng) ? { lat, lng } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  const match = trimmed.match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return isValidCoordinates(lat, lng) ? { lat, lng } : null;
+};
+
+const toGeoPoint = (input: {
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  heading?: number | null;
+  speed?: number | null;
+  recordedAt?: string | number | null;
+}): GeoPoint => ({
+  lat: input.lat,
+  lng: input.lng,
+  accuracy: input.accuracy ?? null,
+  heading: input.heading ?? null,
+  speed: input.speed ?? null,
+  recordedAt: (input.recordedAt != null
+    ? new Date(input.recordedAt)
+    : new Date()
+  ).toISOString(),
+});
+
+// Devices report -1 for a heading or speed they could not measure
+const deviceReading = z
+  .number()
+  .nullish()
+  .transform((value) => (value != null && value >= 0 ? value : null));
+
+export const geoPointSchema = z
+  .object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    accuracy: z.number().nonnegative().nullish(),
+    heading: z.number().min(0).max(360).nullish(),
+    speed: z.number().nonnegative().nullish(),
+    recordedAt: z.iso.datetime({ offset: true }).nullish(),
+  })
+  .strict()
+  .transform(toGeoPoint);
+
+/**
+ * A position as reported by the mobile location APIs:
+ * { coords: { latitude, longitude, accuracy, heading, speed }, timestamp }
+ */
+export const deviceLocationSchema = z
+  .object({
+    coords: z.object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      accuracy: deviceReading,
+      heading: deviceReading,
+      speed: deviceReading,
+    }),
+    timestamp: z.number().positive().nullish(),
+  })
+  .transform(({ coords, timestamp }) =>
+    toGeoPoint({
+      lat: coords.latitude,
+      lng: coords.longitude,
+      accuracy: coords.accuracy,
+      heading: coords.heading,
+      speed: coords.speed,
+      recordedAt: timestamp,
+    }),
+  );
+
+// Legacy "lat,lng" strings still sent by older app builds
+const coordinatesStringSchema = z.string().transform((value, ctx) => {
+  const coordinates = parseCoordinates(value);
+  if (!coordinates) {
+    ctx.addIssue({
+      code: "custom",
+      message: 'expected a location object or "lat,lng"',
+    });
+    return z.NEVER;
+  }
+  return toGeoPoint(coordinates);
+});
+
+export const geoPointInputSchema = z.union([
+  geoPointSchema,
+  deviceLocationSchema,
+  coordinatesStringSchema,
+]);
+
+export type GeoPointInput = z.input<typeof geoPointInputSchema>;
+
+export const savedLocationInputSchema = z.object({
+  label: z.string().trim().min(1),
+  preciseLocation: geoPointInputSchema,
+  address: z.string().trim().min(1).nullish(),
+});
+
+export type SavedLocationInput = z.input<typeof savedLocationInputSchema>;
+
+/**
+ * Validate a location from a request and normalise it to a GeoPoint.
+ * Throws an Error naming the offending field when it is invalid.
+ */
+export const parseGeoPoint = (input: unknown, field = "location"): GeoPoint => {
+  const parsed = geoPointInputSchema.safeParse(input);
+
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid ${field}: ${parsed.error.issues
+        .map((issue) =>
+          issue.path.length
+            ? `${issue.path.join(".")} ${issue.message}`
+            : issue.message,
+        )
+        .join(", ")}`,
+    );
+  }
+
+  return parsed.data;
+};
@@ -0,0 +1,95 @@
+import type { GeoPoint } from "../models/schema.js";
+import { DistanceFn, haversineDistanceKm } from "./geo.js";
+
+// Limits for points buffered on the device and uploaded together
+export const MAX_LOCATION_BATCH_SIZE = 100;
+// Faster than this between two fixes is treated as a GPS glitch
+const MAX_PLAUSIBLE_SPEED_KMH = 180;
+// Device clocks may run a little ahead of the server
+const MAX_CLOCK_SKEW_SECONDS = 2 * 60;
+
+export type RejectedPointReason =
+  "duplicate" | "before_confirmed" | "in_future" | "implausible_speed";
+
+export interface ScreenedLocationBatch {
+  // Accepted points, oldest first
+  accepted: GeoPoint[];
+  rejected: Array<{ recordedAt: string; reason: RejectedPointReason }>;
+}
+
+/**
+ * Sort a batch of rider pings by device timestamp and drop the ones that
+ * cannot be trusted: repeats of a timestamp already seen, fixes from before
+ * the order was confirmed or from the future, and jumps faster than a rider
+ * can travel since the previous accepted fix (or the last known position).
+ */
+export const screenLocationBatch = (
+  points: GeoPoint[],
+  options: {
+    notBefore: Date | null;
+    lastKnown: GeoPoint | null;
+    now?: Date;
+  },
+  distanceFn: DistanceFn = haversineDistanceKm,
+): ScreenedLocationBatch => {
+  const now = options.now ?? new Date();
+  const latestAllowed = now.getTime() + MAX_CLOCK_SKEW_SECONDS * 1000;
+
+  const sorted = [...points].sort(
+    (a, b) =>
+      new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime(),
+  );
+
+  const accepted: GeoPoint[] = [];
+  const rejected: ScreenedLocationBatch["rejected"] = [];
+  const seen = new Set<number>();
+
+  const lastKnown = options.lastKnown;
+  const lastKnownTime = lastKnown
+    ? new Date(lastKnown.recordedAt).getTime()
+    : null;
+  let lastAccepted: GeoPoint | null = null;
+
+  for (const point of sorted) {
+    const time = new Date(point.recordedAt).getTime();
+    let reason: RejectedPointReason | null = null;
+
+    if (seen.has(time) || time === lastKnownTime) {
+      reason = "duplicate";
+    } else if (options.notBefore && time < options.notBefore.getTime()) {
+      reason = "before_confirmed";
+    } else if (time > latestAllowed) {
+      reason = "in_future";
+    } else {
+      // Compare against the latest trusted fix taken before this one
+      let reference = lastAccepted;
+      if (
+        lastKnown &&
+        lastKnownTime! < time &&
+        (!reference ||
+          lastKnownTime! > new Date(reference.recordedAt).getTime())
+      ) {
+        reference = lastKnown;
+      }
+
+      if (reference) {
+        const hours =
+          (time - new Date(reference.recordedAt).getTime()) / 3600000;
+        if (distanceFn(reference, point) / hours > MAX_PLAUSIBLE_SPEED_KMH) {
+          reason = "implausible_speed";
+        }
+      }
+    }
+
+    seen.add(time);
+
+    if (reason) {
+      rejected.push({ recordedAt: point.recordedAt, reason });
+    } else {
+      accepted.push(point);
+      lastAccepted = point;
+    }
+  }
+
+  return { accepted, rejected };
+};
@@ -0,0 +1,46 @@
+import { Coordinates, DistanceFn, haversineDistanceKm } from "./geo.js";
+
+export interface PlannableStop {
+  orderId: string;
+  location: Coordinates | null;
+}
+
+/**
+ * Order stops by always driving on to the nearest stop not visited yet,
+ * starting at `start` (or the first located stop when it is unknown). Stops
+ * are sorted by order ID first and ties keep the lower ID, so the result
+ * does not depend on input order. Stops without a location go last.
+ */
+export const planStopSequence = <T extends PlannableStop>(
+  start: Coordinates | null,
+  stops: T[],
+  distanceFn: DistanceFn = haversineDistanceKm,
+): T[] => {
+  const byId = [...stops].sort((a, b) => a.orderId.localeCompare(b.orderId));
+  const remaining = byId.filter((stop) => stop.location);
+  const unlocated = byId.filter((stop) => !stop.location);
+
+  const planned: T[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+
+    if (current) {
+      let nearestKm = Infinity;
+      remaining.forEach((stop, index) => {
+        const distanceKm = distanceFn(current!, stop.location!);
+        if (distanceKm < nearestKm) {
+          nearestKm = distanceKm;
+          nearest = index;
+        }
+      });
+    }
+
+    const [next] = remaining.splice(nearest, 1);
+    planned.push(next);
+    current = next.location;
+  }
+
+  return [...planned, ...unlocated];
+};
@@ -1,27 +1,77 @@
 import WebSocket, { WebSocketServer } from "ws";
 import { db } from "../config/database.js";
-import { orders, userOrganizations } from "../models/schema.js";
+import { orders, userOrganizations, GeoPoint } from "../models/schema.js";
 import { eq, and } from "drizzle-orm";
-
-interface OrderConnection {
-  riderWs: WebSocket | null;
-  customerWs: WebSocket | null;
-  ownerWs: WebSocket | null;
-}
+import { OrderEta } from "../utils/eta.js";
+import { GeofenceEntry } from "../services/geofence.service.js";
+import { orderService } from "../services/order.service.js";
+import { verifyWebSocketTicket } from "../services/auth.service.js";
+import { fleetService, LiveRider } from "../services/fleet.service.js";
+import {
+  RoomManager,
+  RoomMessage,
+  RoomRole,
+  RoomSocket,
+  canPublish,
+  isRoomRole,
+  fleetRoom,
+  orderRoom,
+  orgRoom,
+} from "./room-manager.js";
+import { PubSub, createPubSub } from "./pubsub.js";
+
+// How often sockets are pinged; one that misses a round is dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Room traffic goes through pub/sub so a socket on any instance is reached
+const ROOM_EVENTS_TOPIC = "ws_room_events";
+
+type RoomEvent =
+  | { kind: "broadcast"; rooms: string[]; message: RoomMessage }
+  | { kind: "close_user"; userId: string; reason: string }
+  | { kind: "close_riders"; orderId: string; reason: string };
+
+let activeServer: LocationWebSocketServer | null = null;
+
+/**
+ * Get the running WebSocket server so services can reach connected clients
+ */
+export const getLocationWebSocketServer = () => activeServer;
 
 export class LocationWebSocketServer {
   private wss: WebSocketServer;
-  private connections: Map<string, OrderConnection>;
-
-  constructor(server: any) {
+  private rooms: RoomManager<WebSocket>;
+  // Public tracking streams, which are not WebSockets but get the same
+  // order broadcasts
+  private streams = new RoomManager<RoomSocket>();
+  private heartbeat: NodeJS.Timeout;
+  private pubsub: PubSub;
+
+  constructor(server: any, pubsub: PubSub = createPubSub()) {
     this.wss = new WebSocketServer({ server });
-    this.connections = new Map();
+    this.rooms = new RoomManager();
+    this.pubsub = pubsub;
+    activeServer = this;
 
     console.log("🔌 LocationWebSocketServer initialized");
 
+    this.pubsub
+      .subscribe(ROOM_EVENTS_TOPIC, (event) =>
+        this.handleRoomEvent(event as RoomEvent),
+      )
+      .catch((error) => {
+        console.error("❌ Failed to subscribe to room events:", error);
+      });
+
     this.wss.on("connection", (ws, req) => {
       this.handleConnection(ws, req);
     });
+
+    this.heartbeat = setInterval(
+      () => this.checkHeartbeats(),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    this.heartbeat.unref();
   }
 
   private async handleConnection(ws: WebSocket, req: any) {
@@ -29,94 +79,120 @@ export class LocationWebSocketServer {
     const url = req.url || "";
     const params = new URLSearchParams(url.split("?")[1]);
     const orderId = params.get("orderId");
-    const userId = params.get("userId");
-    const role = params.get("role");
+    // "org" subscribes an owner to every order of their organization,
+    // "fleet" to the live positions of its riders
+    const scopeParam = params.get("scope");
+    const scope =
+      scopeParam === "org" || scopeParam === "fleet" ? scopeParam : "order";
+    // Short-lived ticket from POST /api/auth/ws-ticket; never log it
+    const ticket = params.get("ticket");
 
     console.log(`\n[WS-${connectionId}] 🔵 NEW CONNECTION ATTEMPT`);
-    console.log(`[WS-${connectionId}]    URL: ${url}`);
+    console.log(`[WS-${connectionId}]    Scope: ${scope}`);
     console.log(`[WS-${connectionId}]    Order ID: ${orderId}`);
-    console.log(`[WS-${connectionId}]    User ID: ${userId}`);
-    console.log(`[WS-${connectionId}]    Role: ${role}`);
     console.log(`[WS-${connectionId}]    IP: ${req.socket.remoteAddress}`);
 
-    if (!orderId || !userId || !role) {
+    if (!ticket || (scope === "order" && !orderId)) {
       console.log(`[WS-${connectionId}] ❌ REJECTED: Missing parameters`);
       ws.close(1008, "Missing parameters");
       return;
     }
 
-    try {
-      const order = await db.query.orders.findFirst({
-        where: eq(orders.id, orderId),
-      });
+    let userId: string;
+    let role: RoomRole;
+    let ticketOrgId: string | null;
 
-      if (!order) {
-        console.log(`[WS-${connectionId}] ❌ REJECTED: Order not found`);
-        ws.close(1008, "Order not found");
-        return;
+    try {
+      const identity = await verifyWebSocketTicket(ticket);
+      if (!isRoomRole(identity.role)) {
+        throw new Error(`Role ${identity.role} cannot join rooms`);
       }
+      userId = identity.userId;
+      role = identity.role;
+      ticketOrgId = identity.orgId;
+    } catch (error: any) {
+      console.log(`[WS-${connectionId}] ❌ REJECTED: ${error.message}`);
+      ws.close(1008, "Unauthorized");
+      return;
+    }
 
-      if (role === "rider" && order.riderId !== userId) {
-        console.log(`[WS-${connectionId}] ❌ REJECTED: Unauthorized rider`);
-        ws.close(1008, "Unauthorized");
-        return;
-      }
+    console.log(`[WS-${connectionId}]    User ID: ${userId}`);
+    console.log(`[WS-${connectionId}]    Role: ${role}`);
 
-      if (role === "customer" && order.customerId !== userId) {
-        console.log(`[WS-${connectionId}] ❌ REJECTED: Unauthorized customer`);
-        ws.close(1008, "Unauthorized");
-        return;
-      }
+    try {
+      let room: string;
+      let orgId: string;
 
-      if (role === "owner") {
-        const ownerMembership = await db.query.userOrganizations.findFirst({
-          where: and(
-            eq(userOrganizations.userId, userId),
-            eq(userOrganizations.orgId, order.orgId),
-            eq(userOrganizations.role, "owner"),
-            eq(userOrganizations.isActive, true),
-          ),
-        });
+      if (scope === "org" || scope === "fleet") {
+        if (role !== "owner" || !ticketOrgId) {
+          console.log(
+            `[WS-${connectionId}] ❌ REJECTED: ${scope} room is owner only`,
+          );
+          ws.close(1008, "Unauthorized");
+          return;
+        }
 
-        if (!ownerMembership) {
+        if (!(await this.isActiveOwner(userId, ticketOrgId))) {
           console.log(`[WS-${connectionId}] ❌ REJECTED: Unauthorized owner`);
           ws.close(1008, "Unauthorized");
           return;
         }
-      }
 
-      if (!this.connections.has(orderId)) {
-        this.connections.set(orderId, {
-          riderWs: null,
-          customerWs: null,
-          ownerWs: null,
+        orgId = ticketOrgId;
+        room = scope === "org" ? orgRoom(orgId) : fleetRoom(orgId);
+      } else {
+        const order = await db.query.orders.findFirst({
+          where: eq(orders.id, orderId!),
         });
-        console.log(
-          `[WS-${connectionId}] 🆕 Created new connection group for order: ${orderId}`,
-        );
+
+        if (!order) {
+          console.log(`[WS-${connectionId}] ❌ REJECTED: Order not found`);
+          ws.close(1008, "Order not found");
+          return;
+        }
+
+        if (role === "rider" && order.riderId !== userId) {
+          console.log(`[WS-${connectionId}] ❌ REJECTED: Unauthorized rider`);
+          ws.close(1008, "Unauthorized");
+          return;
+        }
+
+        if (role === "customer" && order.customerId !== userId) {
+          console.log(
+            `[WS-${connectionId}] ❌ REJECTED: Unauthorized customer`,
+          );
+          ws.close(1008, "Unauthorized");
+          return;
+        }
+
+        if (
+          role === "owner" &&
+          !(await this.isActiveOwner(userId, order.orgId))
+        ) {
+          console.log(`[WS-${connectionId}] ❌ REJECTED: Unauthorized owner`);
+          ws.close(1008, "Unauthorized");
+          return;
+        }
+
+        orgId = order.orgId;
+        room = orderRoom(order.id);
       }
 
-      const orderConnections = this.connections.get(orderId)!;
+      // The socket may have dropped while the checks above were running
+      if (ws.readyState !== WebSocket.OPEN) return;
 
-      if (role === "rider") {
-        orderConnections.riderWs = ws;
-        console.log(
-          `[WS-${connectionId}] ✅ CONNECTED: Rider for order ${orderId}`,
-        );
-      } else if (role === "customer") {
-        orderConnections.customerWs = ws;
-        console.log(
-          `[WS-${connectionId}] ✅ CONNECTED: Customer for order ${orderId}`,
-        );
-      } else if (role === "owner") {
-        orderConnections.ownerWs = ws;
-        console.log(
-          `[WS-${connectionId}] ✅ CONNECTED: Owner for order ${orderId}`,
-        );
+      this.rooms.join(room, { socket: ws, userId, role });
+      console.log(`[WS-${connectionId}] ✅ CONNECTED: ${role} to room ${room}`);
+
+      this.logConnectionStatus(room, connectionId);
+
+      if (scope === "fleet") {
+        await this.sendFleetSnapshot(ws, orgId);
       }
 
-      // Log current connection status
-      this.logConnectionStatus(orderId, connectionId);
+      ws.on("pong", () => {
+        this.rooms.markAlive(ws);
+      });
 
       ws.on("message", async (data) => {
         console.log(`[WS-${connectionId}] 📨 MESSAGE RECEIVED from ${role}`);
@@ -124,45 +200,28 @@ export class LocationWebSocketServer {
           `[WS-${connectionId}]    Data: ${data.toString().substring(0, 200)}${data.toString().length > 200 ? "..." : ""}`,
         );
 
-        if (role === "rider") {
+        if (scope === "order" && canPublish(role, "location")) {
           await this.handleRiderLocationUpdate(
-            orderId,
+            ws,
+            orderId!,
             userId,
             data.toString(),
             connectionId,
           );
         } else {
           console.log(
-            `[WS-${connectionId}] ℹ️  Message from ${role} - no handler configured`,
+            `[WS-${connectionId}] ℹ️  Message from ${role} ignored - not allowed to publish`,
           );
         }
       });
 
       ws.on("close", () => {
         console.log(
-          `[WS-${connectionId}] 🔴 DISCONNECTED: ${role} for order ${orderId}`,
+          `[WS-${connectionId}] 🔴 DISCONNECTED: ${role} from room ${room}`,
         );
 
-        if (role === "rider") {
-          orderConnections.riderWs = null;
-        } else if (role === "customer") {
-          orderConnections.customerWs = null;
-        } else if (role === "owner") {
-          orderConnections.ownerWs = null;
-        }
-
-        if (
-          !orderConnections.riderWs &&
-          !orderConnections.customerWs &&
-          !orderConnections.ownerWs
-        ) {
-          console.log(
-            `[WS-${connectionId}] 🗑️  All connections closed for order ${orderId} - removing connection group`,
-          );
-          this.connections.delete(orderId);
-        } else {
-          this.logConnectionStatus(orderId, connectionId);
-        }
+        this.rooms.leaveAll(ws);
+        this.logConnectionStatus(room, connectionId);
       });
 
       ws.on("error", (error) => {
@@ -177,7 +236,44 @@ export class LocationWebSocketServer {
     }
   }
 
+  private async isActiveOwner(userId: string, orgId: string) {
+    const ownerMembership = await db.query.userOrganizations.findFirst({
+      where: and(
+        eq(userOrganizations.userId, userId),
+        eq(userOrganizations.orgId, orgId),
+        eq(userOrganizations.role, "owner"),
+        eq(userOrganizations.isActive, true),
+      ),
+    });
+
+    return !!ownerMembership;
+  }
+
+  /**
+   * Drop sockets that missed the last ping and ping the rest
+   */
+  private checkHeartbeats() {
+    const { dead, pending } = this.rooms.sweepHeartbeats();
+
+    for (const ws of dead) {
+      this.rooms.leaveAll(ws);
+      ws.terminate();
+    }
+    for (const ws of pending) {
+      ws.ping();
+    }
+
+    if (dead.length > 0) {
+      console.log(`💔 Dropped ${dead.length} unresponsive WebSocket client(s)`);
+    }
+  }
+
+  /**
+   * Take a ping, or a batch of them as an array or { points: [...] }, and
+   * tell the rider which points were kept so the app can clear its buffer
+   */
   private async handleRiderLocationUpdate(
+    ws: WebSocket,
     orderId: string,
     riderId: string,
     locationData: string,
@@ -185,51 +281,29 @@ export class LocationWebSocketServer {
   ) {
     try {
       console.log(`[WS-${connectionId}] 📍 PROCESSING LOCATION UPDATE`);
-      const location = JSON.parse(locationData);
-      console.log(`[WS-${connectionId}]    Coordinates:`, location.coords);
+      const payload = JSON.parse(locationData);
+      const input = Array.isArray(payload?.points) ? payload.points : payload;
 
-      await db
-        .update(orders)
-        .set({
-          riderCurrentLocation: location.coords,
-          updatedAt: new Date(),
-        })
-        .where(eq(orders.id, orderId));
-
-      console.log(`[WS-${connectionId}] ✅ Database updated with new location`);
-
-      const orderConnections = this.connections.get(orderId);
-
-      const locationUpdate = JSON.stringify({
-        type: "location_update",
-        location: location.coords,
-        timestamp: new Date().toISOString(),
-      });
-
-      let sentCount = 0;
-
-      // Send to rider too
-      if (orderConnections?.riderWs?.readyState === WebSocket.OPEN) {
-        orderConnections.riderWs.send(locationUpdate);
-        console.log(`[WS-${connectionId}] 📤 Sent location update to RIDER`);
-        sentCount++;
-      }
-
-      if (orderConnections?.customerWs?.readyState === WebSocket.OPEN) {
-        orderConnections.customerWs.send(locationUpdate);
-        console.log(`[WS-${connectionId}] 📤 Sent location update to CUSTOMER`);
-        sentCount++;
-      }
-
-      if (orderConnections?.ownerWs?.readyState === WebSocket.OPEN) {
-        orderConnections.ownerWs.send(locationUpdate);
-        console.log(`[WS-${connectionId}] 📤 Sent location update to OWNER`);
-        sentCount++;
-      }
+      const result = await orderService.updateRiderLocation(
+        orderId,
+        riderId,
+        input,
+      );
 
       console.log(
-        `[WS-${connectionId}] ✅ Location broadcast complete - sent to ${sentCount} client(s)`,
+        `[WS-${connectionId}] ✅ ${result.accepted} point(s) accepted, ${result.rejected.length} rejected`,
       );
+
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(
+          JSON.stringify({
+            type: "location_ack",
+            orderId,
+            ...result,
+            timestamp: new Date().toISOString(),
+          }),
+        );
+      }
     } catch (error) {
       console.error(
         `[WS-${connectionId}] ❌ Error handling location update:`,
@@ -238,69 +312,205 @@ export class LocationWebSocketServer {
     }
   }
 
-  public sendOrderStatusUpdate(orderId: string, status: string) {
-    console.log(`\n📢 SENDING STATUS UPDATE for order ${orderId}`);
-    console.log(`   Status: ${status}`);
+  /**
+   * Hand an event to every instance, this one included, through pub/sub
+   */
+  private publish(event: RoomEvent) {
+    this.pubsub.publish(ROOM_EVENTS_TOPIC, event).catch((error) => {
+      console.error(`❌ Failed to publish ${event.kind} event:`, error);
+    });
+  }
 
-    const orderConnections = this.connections.get(orderId);
-    if (!orderConnections) {
-      console.log(`   ⚠️  No active connections for order ${orderId}`);
+  /**
+   * Apply an event published by any instance to the sockets held here
+   */
+  private handleRoomEvent(event: RoomEvent) {
+    if (event.kind === "broadcast") {
+      const sentCount =
+        this.rooms.broadcast(event.rooms, event.message) +
+        this.streams.broadcast(event.rooms, event.message);
+      if (sentCount > 0) {
+        console.log(
+          `📤 ${event.message.type} for ${event.rooms.join(", ")} sent to ${sentCount} local client(s)`,
+        );
+      }
       return;
     }
 
-    const update = JSON.stringify({
-      type: "status_update",
-      status,
-      timestamp: new Date().toISOString(),
-    });
+    if (event.kind === "close_user") {
+      const sockets = this.rooms.socketsOfUser(event.userId);
+      if (sockets.length === 0) return;
 
-    let sentCount = 0;
+      console.log(
+        `🔒 Closing ${sockets.length} connection(s) of user ${event.userId}: ${event.reason}`,
+      );
 
-    if (orderConnections.customerWs?.readyState === WebSocket.OPEN) {
-      orderConnections.customerWs.send(update);
-      console.log(`   📤 Sent to CUSTOMER`);
-      sentCount++;
-    }
-    if (orderConnections.riderWs?.readyState === WebSocket.OPEN) {
-      orderConnections.riderWs.send(update);
-      console.log(`   📤 Sent to RIDER`);
-      sentCount++;
+      for (const ws of sockets) {
+        ws.close(1008, event.reason);
+      }
+      return;
     }
-    if (orderConnections.ownerWs?.readyState === WebSocket.OPEN) {
-      orderConnections.ownerWs.send(update);
-      console.log(`   📤 Sent to OWNER`);
-      sentCount++;
+
+    const riders = this.rooms.members(orderRoom(event.orderId), "rider");
+    if (riders.length === 0) return;
+
+    console.log(`\n🔒 CLOSING RIDER CONNECTION for order ${event.orderId}`);
+    console.log(`   Reason: ${event.reason}`);
+
+    for (const rider of riders) {
+      // Leave right away so nothing more reaches the old rider while closing
+      this.rooms.leaveAll(rider.socket);
+      rider.socket.close(1008, event.reason);
     }
+  }
 
-    console.log(`   ✅ Status update sent to ${sentCount} client(s)\n`);
+  /**
+   * Broadcast a message about an order to its room and to owners watching
+   * the whole organization
+   */
+  private broadcastToOrder(
+    orderId: string,
+    orgId: string,
+    message: RoomMessage,
+  ) {
+    this.publish({
+      kind: "broadcast",
+      rooms: [orderRoom(orderId), orgRoom(orgId)],
+      message: {
+        ...message,
+        orderId,
+        timestamp: new Date().toISOString(),
+      },
+    });
   }
 
-  private logConnectionStatus(orderId: string, connectionId: string) {
-    const orderConnections = this.connections.get(orderId);
-    if (!orderConnections) return;
+  public sendLocationUpdate(
+    orderId: string,
+    orgId: string,
+    location: GeoPoint,
+  ) {
+    this.broadcastToOrder(orderId, orgId, {
+      type: "location_update",
+      location,
+    });
+  }
 
-    console.log(
-      `[WS-${connectionId}] 📊 CONNECTION STATUS for order ${orderId}:`,
-    );
-    console.log(
-      `[WS-${connectionId}]    Rider: ${orderConnections.riderWs ? "🟢 Connected" : "🔴 Disconnected"}`,
-    );
-    console.log(
-      `[WS-${connectionId}]    Customer: ${orderConnections.customerWs ? "🟢 Connected" : "🔴 Disconnected"}`,
-    );
-    console.log(
-      `[WS-${connectionId}]    Owner: ${orderConnections.ownerWs ? "🟢 Connected" : "🔴 Disconnected"}`,
+  public sendOrderStatusUpdate(orderId: string, orgId: string, status: string) {
+    console.log(`\n📢 SENDING STATUS UPDATE for order ${orderId}`);
+    console.log(`   Status: ${status}`);
+
+    this.broadcastToOrder(orderId, orgId, {
+      type: "status_update",
+      status,
+    });
+  }
+
+  public sendEtaUpdate(orderId: string, orgId: string, eta: OrderEta) {
+    console.log(`⏱️  ETA update for order ${orderId} (${eta.etaSeconds}s)`);
+
+    this.broadcastToOrder(orderId, orgId, {
+      type: "eta_update",
+      eta,
+    });
+  }
+
+  /**
+   * Send the current state of every active rider to an owner who just
+   * opened the live map
+   */
+  private async sendFleetSnapshot(ws: WebSocket, orgId: string) {
+    const riders = await fleetService.getLiveRiders(orgId);
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    ws.send(
+      JSON.stringify({
+        type: "fleet_snapshot",
+        riders,
+        timestamp: new Date().toISOString(),
+      }),
     );
+  }
+
+  public sendRiderUpdate(orgId: string, rider: LiveRider) {
+    this.publish({
+      kind: "broadcast",
+      rooms: [fleetRoom(orgId)],
+      message: {
+        type: "rider_update",
+        rider,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  public sendGeofencePrompt(orderId: string, entry: GeofenceEntry) {
+    console.log(`📍 Geofence prompt (${entry.target}) for order ${orderId}`);
+
+    // Only riders may receive prompts, so the org room is left out
+    this.publish({
+      kind: "broadcast",
+      rooms: [orderRoom(orderId)],
+      message: {
+        type: "geofence_prompt",
+        orderId,
+        target: entry.target,
+        suggestedStatus: entry.nextStatus,
+        distanceMeters: entry.distanceMeters,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Forward an order's room broadcasts to a public tracking stream. Returns
+   * a function that stops forwarding.
+   */
+  public watchOrder(orderId: string, stream: RoomSocket): () => void {
+    this.streams.join(orderRoom(orderId), {
+      socket: stream,
+      userId: "tracker",
+      role: "tracker",
+    });
+
+    return () => {
+      this.streams.leaveAll(stream);
+    };
+  }
+
+  public closeUserConnections(userId: string, reason: string) {
+    this.publish({ kind: "close_user", userId, reason });
+  }
+
+  public closeRiderConnection(orderId: string, reason: string) {
+    this.publish({ kind: "close_riders", orderId, reason });
+  }
+
+  private logConnectionStatus(room: string, connectionId: string) {
+    const members = this.rooms.members(room);
+
+    console.log(`[WS-${connectionId}] 📊 CONNECTION STATUS for room ${room}:`);
+    for (const role of ["rider", "customer", "owner"] as RoomRole[]) {
+      const count = members.filter((member) => member.role === role).length;
+      console.log(
+        `[WS-${connectionId}]    ${role}: ${count > 0 ? `🟢 ${count} connected` : "🔴 Disconnected"}`,
+      );
+    }
     console.log(
-      `[WS-${connectionId}]    Total active connections: ${this.connections.size}\n`,
+      `[WS-${connectionId}]    Total active rooms: ${this.rooms.roomCount()}\n`,
     );
   }
 
   public close() {
     console.log("🔴 Closing LocationWebSocketServer");
-    console.log(`   Active connection groups: ${this.connections.size}`);
+    console.log(`   Active rooms: ${this.rooms.roomCount()}`);
+    clearInterval(this.heartbeat);
     this.wss.close();
-    this.connections.clear();
+    this.rooms.clear();
+    this.streams.clear();
+    this.pubsub.close().catch((error) => {
+      console.error("❌ Failed to close pub/sub:", error);
+    });
+    if (activeServer === this) activeServer = null;
     console.log("✅ LocationWebSocketServer closed");
   }
 }
@@ -0,0 +1,215 @@
+import pg from "pg";
+
+export type PubSubHandler = (message: unknown) => void;
+
+/**
+ * Fan-out of JSON messages between API instances. Every subscriber of a
+ * topic, on this instance or another one, receives each published message,
+ * including the instance that published it.
+ */
+export interface PubSub {
+  publish(topic: string, message: unknown): Promise<void>;
+  subscribe(topic: string, handler: PubSubHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+// Topics double as Postgres channel names, which LISTEN takes unquoted
+const TOPIC_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+const assertTopic = (topic: string) => {
+  if (!TOPIC_PATTERN.test(topic)) {
+    throw new Error(`Invalid pub/sub topic: ${topic}`);
+  }
+};
+
+/**
+ * Single-instance pub/sub. Messages go through JSON like they would over
+ * the network, so subscribers see the same shapes with either backend.
+ */
+export class InMemoryPubSub implements PubSub {
+  private handlers = new Map<string, Set<PubSubHandler>>();
+
+  async publish(topic: string, message: unknown) {
+    assertTopic(topic);
+    const payload = JSON.stringify(message);
+
+    for (const handler of this.handlers.get(topic) ?? []) {
+      handler(JSON.parse(payload));
+    }
+  }
+
+  async subscribe(topic: string, handler: PubSubHandler) {
+    assertTopic(topic);
+    if (!this.handlers.has(topic)) {
+      this.handlers.set(topic, new Set());
+    }
+    this.handlers.get(topic)!.add(handler);
+  }
+
+  async close() {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Pub/sub over Postgres LISTEN/NOTIFY, so every API instance sharing the
+ * database sees every message. Uses a dedicated connection rather than the
+ * pool, since a pooled one may be handed to someone else while it listens,
+ * and reconnects when it drops.
+ * Messages sent while the listener is reconnecting are lost.
+ */
+export class PostgresPubSub implements PubSub {
+  private handlers = new Map<string, Set<PubSubHandler>>();
+  private client: pg.Client | null = null;
+  private connecting: Promise<pg.Client> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(private connectionString: string) {}
+
+  async publish(topic: string, message: unknown) {
+    assertTopic(topic);
+    const payload = JSON.stringify(message);
+
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      throw new Error(
+        `Pub/sub message on ${topic} is too large for NOTIFY (${Buffer.byteLength(payload)} bytes)`,
+      );
+    }
+
+    const client = await this.connect();
+    await client.query("SELECT pg_notify($1, $2)", [topic, payload]);
+  }
+
+  async subscribe(topic: string, handler: PubSubHandler) {
+    assertTopic(topic);
+    const isNewTopic = !this.handlers.has(topic);
+    if (isNewTopic) {
+      this.handlers.set(topic, new Set());
+    }
+    this.handlers.get(topic)!.add(handler);
+
+    let client: pg.Client;
+    try {
+      client = await this.connect();
+    } catch (error) {
+      // The handler stays registered and is listened to once reconnected
+      this.scheduleReconnect();
+      throw error;
+    }
+
+    if (isNewTopic) {
+      await client.query(`LISTEN ${topic}`);
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.handlers.clear();
+
+    const client = this.client;
+    this.client = null;
+    await client?.end().catch(() => undefined);
+  }
+
+  private connect(): Promise<pg.Client> {
+    if (this.client) return Promise.resolve(this.client);
+    if (!this.connecting) {
+      this.connecting = this.openClient().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async openClient(): Promise<pg.Client> {
+    const client = new pg.Client({
+      connectionString: this.connectionString,
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    });
+
+    client.on("notification", (notification) => {
+      this.dispatch(notification.channel, notification.payload);
+    });
+
+    client.on("error", (error) => {
+      console.error("❌ Pub/sub listener error:", error.message);
+      this.handleDisconnect(client);
+    });
+
+    client.on("end", () => {
+      this.handleDisconnect(client);
+    });
+
+    await client.connect();
+
+    // Topics subscribed before a reconnect have to be listened to again
+    for (const topic of this.handlers.keys()) {
+      await client.query(`LISTEN ${topic}`);
+    }
+
+    this.client = client;
+    console.log("📡 Pub/sub listener connected to Postgres");
+    return client;
+  }
+
+  private dispatch(topic: string, payload: string | undefined) {
+    if (!payload) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(payload);
+    } catch {
+      console.error(`⚠️  Ignoring malformed pub/sub message on ${topic}`);
+      return;
+    }
+
+    for (const handler of this.handlers.get(topic) ?? []) {
+      handler(message);
+    }
+  }
+
+  private handleDisconnect(client: pg.Client) {
+    if (this.client !== client) return;
+    this.client = null;
+    client.end().catch(() => undefined);
+
+    if (this.closed) return;
+
+    console.log(
+      `🔄 Pub/sub listener disconnected, reconnecting in ${RECONNECT_DELAY_MS / 1000}s`,
+    );
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.closed || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        console.error("❌ Pub/sub reconnect failed:", error.message);
+        this.scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+}
+
+/**
+ * Pick the pub/sub backend from WS_PUBSUB: "postgres" when several API
+ * instances run behind a load balancer, "memory" (the default) otherwise
+ */
+export const createPubSub = (): PubSub => {
+  if (process.env.WS_PUBSUB === "postgres") {
+    return new PostgresPubSub(process.env.DATABASE_URL!);
+  }
+  return new InMemoryPubSub();
+};
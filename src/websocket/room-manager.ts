@@ -0,0 +1,220 @@
+// "tracker" is an anonymous viewer of a public tracking link
+export type RoomRole = "rider" | "customer" | "owner" | "tracker";
+
+// Messages the server pushes to room members
+export type RoomMessageType =
+  | "location_update"
+  | "status_update"
+  | "eta_update"
+  | "geofence_prompt"
+  | "location_ack"
+  | "fleet_snapshot"
+  | "rider_update";
+
+// Messages clients may send into a room
+export type RoomPublishType = "location";
+
+interface RolePermissions {
+  receive: RoomMessageType[];
+  publish: RoomPublishType[];
+}
+
+export const ROOM_PERMISSIONS: Record<RoomRole, RolePermissions> = {
+  rider: {
+    receive: [
+      "location_update",
+      "status_update",
+      "eta_update",
+      "geofence_prompt",
+      "location_ack",
+    ],
+    publish: ["location"],
+  },
+  customer: {
+    receive: ["location_update", "status_update", "eta_update"],
+    publish: [],
+  },
+  owner: {
+    receive: [
+      "location_update",
+      "status_update",
+      "eta_update",
+      "fleet_snapshot",
+      "rider_update",
+    ],
+    publish: [],
+  },
+  tracker: {
+    receive: ["location_update", "status_update", "eta_update"],
+    publish: [],
+  },
+};
+
+// Matches WebSocket.OPEN, kept local so this module does not depend on ws
+const SOCKET_OPEN = 1;
+
+/**
+ * The part of a WebSocket the room logic needs, so tests can pass plain
+ * objects instead of real sockets
+ */
+export interface RoomSocket {
+  readyState: number;
+  send(data: string): void;
+}
+
+export interface RoomMember<S extends RoomSocket = RoomSocket> {
+  socket: S;
+  userId: string;
+  role: RoomRole;
+}
+
+export interface RoomMessage {
+  type: RoomMessageType;
+  [key: string]: unknown;
+}
+
+export const orderRoom = (orderId: string) => `order:${orderId}`;
+export const orgRoom = (orgId: string) => `org:${orgId}`;
+export const fleetRoom = (orgId: string) => `fleet:${orgId}`;
+
+export const isRoomRole = (role: string): role is RoomRole =>
+  role in ROOM_PERMISSIONS;
+
+export const canReceive = (role: RoomRole, type: RoomMessageType) =>
+  ROOM_PERMISSIONS[role].receive.includes(type);
+
+export const canPublish = (role: RoomRole, type: RoomPublishType) =>
+  ROOM_PERMISSIONS[role].publish.includes(type);
+
+/**
+ * Tracks which sockets are in which rooms. A room holds any number of
+ * sockets per role, and a socket may sit in several rooms. Also keeps the
+ * heartbeat state of each socket. Has no knowledge of the database or of
+ * how sockets are authorized.
+ */
+export class RoomManager<S extends RoomSocket = RoomSocket> {
+  private rooms = new Map<string, Map<S, RoomMember<S>>>();
+  private socketRooms = new Map<S, Set<string>>();
+  // Sockets that answered since the last heartbeat sweep
+  private alive = new Set<S>();
+
+  join(room: string, member: RoomMember<S>) {
+    if (!this.rooms.has(room)) {
+      this.rooms.set(room, new Map());
+    }
+    this.rooms.get(room)!.set(member.socket, member);
+
+    if (!this.socketRooms.has(member.socket)) {
+      this.socketRooms.set(member.socket, new Set());
+    }
+    this.socketRooms.get(member.socket)!.add(room);
+    this.alive.add(member.socket);
+  }
+
+  leave(room: string, socket: S) {
+    const members = this.rooms.get(room);
+    members?.delete(socket);
+    if (members?.size === 0) {
+      this.rooms.delete(room);
+    }
+
+    const rooms = this.socketRooms.get(socket);
+    rooms?.delete(room);
+    if (rooms?.size === 0) {
+      this.socketRooms.delete(socket);
+      this.alive.delete(socket);
+    }
+  }
+
+  /**
+   * Remove a socket from every room it joined. Returns the rooms it left.
+   */
+  leaveAll(socket: S): string[] {
+    const rooms = [...(this.socketRooms.get(socket) ?? [])];
+    for (const room of rooms) {
+      this.leave(room, socket);
+    }
+    return rooms;
+  }
+
+  members(room: string, role?: RoomRole): RoomMember<S>[] {
+    const members = [...(this.rooms.get(room)?.values() ?? [])];
+    return role ? members.filter((member) => member.role === role) : members;
+  }
+
+  /**
+   * Every socket of a user, whichever rooms it is in
+   */
+  socketsOfUser(userId: string): S[] {
+    const sockets = new Set<S>();
+    for (const members of this.rooms.values()) {
+      for (const member of members.values()) {
+        if (member.userId === userId) sockets.add(member.socket);
+      }
+    }
+    return [...sockets];
+  }
+
+  roomCount(): number {
+    return this.rooms.size;
+  }
+
+  /**
+   * Send a message to every open socket in the given rooms whose role may
+   * receive it. A socket in several of the rooms gets it once. Returns the
+   * number of sockets reached.
+   */
+  broadcast(rooms: string[], message: RoomMessage): number {
+    const data = JSON.stringify(message);
+    const reached = new Set<S>();
+
+    for (const room of rooms) {
+      for (const member of this.members(room)) {
+        if (reached.has(member.socket)) continue;
+        if (member.socket.readyState !== SOCKET_OPEN) continue;
+        if (!canReceive(member.role, message.type)) continue;
+
+        member.socket.send(data);
+        reached.add(member.socket);
+      }
+    }
+
+    return reached.size;
+  }
+
+  /**
+   * Record a pong from a socket
+   */
+  markAlive(socket: S) {
+    if (this.socketRooms.has(socket)) {
+      this.alive.add(socket);
+    }
+  }
+
+  /**
+   * Start a heartbeat round. Returns the sockets that did not answer since
+   * the previous round, and expects an answer from every other one before
+   * the next round.
+   */
+  sweepHeartbeats(): { dead: S[]; pending: S[] } {
+    const dead: S[] = [];
+    const pending: S[] = [];
+
+    for (const socket of this.socketRooms.keys()) {
+      if (this.alive.has(socket)) {
+        pending.push(socket);
+      } else {
+        dead.push(socket);
+      }
+    }
+
+    this.alive.clear();
+    return { dead, pending };
+  }
+
+  clear() {
+    this.rooms.clear();
+    this.socketRooms.clear();
+    this.alive.clear();
+  }
+}
@@ -0,0 +1,92 @@
+import { Response } from "express";
+import { OrderStatus } from "../services/order-event.service.js";
+import {
+  FINAL_STATUSES,
+  PUBLIC_LOCATION_STATUSES,
+  TrackingView,
+  toPublicLocation,
+  trackingService,
+} from "../services/tracking.service.js";
+import { RoomSocket } from "./room-manager.js";
+
+// Proxies drop connections that stay silent for too long
+const KEEP_ALIVE_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Server-sent events stream of one order's public tracking view. Joins the
+ * order's room like a socket, and turns the room broadcasts into redacted
+ * events: a fresh snapshot on every status change, ETA updates, and the
+ * rider's position while they are on the way.
+ */
+export class TrackingStream implements RoomSocket {
+  readyState = 1;
+  private status: OrderStatus | null = null;
+  private keepAlive: NodeJS.Timeout;
+
+  constructor(
+    private res: Response,
+    private orderId: string,
+  ) {
+    this.keepAlive = setInterval(() => {
+      this.res.write(": keep-alive\n\n");
+    }, KEEP_ALIVE_INTERVAL_MS);
+    this.keepAlive.unref();
+  }
+
+  sendSnapshot(view: TrackingView) {
+    this.status = view.status;
+    this.write("snapshot", view);
+
+    if (FINAL_STATUSES.includes(view.status)) {
+      this.close();
+    }
+  }
+
+  send(data: string) {
+    if (this.readyState !== 1) return;
+
+    const message = JSON.parse(data);
+
+    if (message.type === "status_update") {
+      if (message.status === this.status) return;
+
+      trackingService
+        .getTrackingView(this.orderId)
+        .then((view) => {
+          if (this.readyState === 1) this.sendSnapshot(view);
+        })
+        .catch((error) => {
+          console.error(
+            `❌ Failed to refresh tracking view of order ${this.orderId}:`,
+            error,
+          );
+        });
+      return;
+    }
+
+    if (message.type === "eta_update") {
+      this.write("eta", message.eta);
+      return;
+    }
+
+    if (
+      message.type === "location_update" &&
+      this.status &&
+      PUBLIC_LOCATION_STATUSES.includes(this.status)
+    ) {
+      this.write("location", toPublicLocation(message.location));
+    }
+  }
+
+  close() {
+    if (this.readyState !== 1) return;
+
+    this.readyState = 3;
+    clearInterval(this.keepAlive);
+    this.res.end();
+  }
+
+  private write(event: string, data: unknown) {
+    this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
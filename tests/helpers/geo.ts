@@ -0,0 +1,8 @@
+import { DistanceFn } from "../../src/utils/geo.js";
+
+/**
+ * Distance for points laid out along the equator: the difference in
+ * longitude, so a point at lng 3 is 3 "km" from one at lng 0
+ */
+export const lineDistance: DistanceFn = (from, to) =>
+  Math.abs(from.lng - to.lng);
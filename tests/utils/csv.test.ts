@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, parseCsvRecords } from "../../src/utils/csv.js";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    assert.deepEqual(parseCsv("a,b,c\n1,2,3"), [
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("accepts CRLF line endings and a trailing newline", () => {
+    assert.deepEqual(parseCsv("a,b\r\n1,2\r\n"), [
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps commas, doubled quotes and line breaks inside quoted fields", () => {
+    assert.deepEqual(
+      parseCsv('name,note\n"Doe, Jane","Say ""hi""\nat the door"'),
+      [
+        ["name", "note"],
+        ["Doe, Jane", 'Say "hi"\nat the door'],
+      ],
+    );
+  });
+
+  it("keeps empty cells", () => {
+    assert.deepEqual(parseCsv("a,,c\n,,"), [
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("skips blank lines", () => {
+    assert.deepEqual(parseCsv("a\n\n  \nb\n"), [["a"], ["b"]]);
+  });
+
+  it("strips a byte order mark", () => {
+    assert.deepEqual(parseCsv("﻿a,b"), [["a", "b"]]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    assert.throws(() => parseCsv('a,"b\n1,2'), /unterminated quoted field/);
+  });
+
+  it("returns no rows for empty input", () => {
+    assert.deepEqual(parseCsv(""), []);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  const normalizeHeader = (header: string) =>
+    ({ customer: "customer", rider: "rider" })[header.toLowerCase()] ?? null;
+
+  it("maps cells to the normalized header names", () => {
+    assert.deepEqual(
+      parseCsvRecords(
+        " Customer ,RIDER\na@example.com, auto ",
+        normalizeHeader,
+      ),
+      [{ customer: "a@example.com", rider: "auto" }],
+    );
+  });
+
+  it("leaves out empty and missing cells", () => {
+    assert.deepEqual(
+      parseCsvRecords(
+        "customer,rider\na@example.com,\nb@example.com",
+        normalizeHeader,
+      ),
+      [{ customer: "a@example.com" }, { customer: "b@example.com" }],
+    );
+  });
+
+  it("rejects unknown columns", () => {
+    assert.throws(
+      () => parseCsvRecords("customer,colour\na,b", normalizeHeader),
+      /unknown column "colour"/,
+    );
+  });
+
+  it("rejects rows with more fields than the header", () => {
+    assert.throws(
+      () => parseCsvRecords("customer\na,b", normalizeHeader),
+      /a row has 2 fields but the header has 1/,
+    );
+  });
+
+  it("requires a header row", () => {
+    assert.throws(
+      () => parseCsvRecords("", normalizeHeader),
+      /missing header row/,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DispatchCandidate,
+  rankDispatchCandidates,
+} from "../../src/utils/dispatch-ranking.js";
+import { lineDistance } from "../helpers/geo.js";
+
+const pickup = { lat: 0, lng: 0 };
+
+const candidate = (
+  riderId: string,
+  overrides: Partial<DispatchCandidate> = {},
+): DispatchCandidate => ({
+  riderId,
+  name: null,
+  location: { lat: 0, lng: 1 },
+  vehicle: null,
+  activeOrders: 0,
+  isActive: true,
+  isSuspended: false,
+  ...overrides,
+});
+
+const ids = (ranked: { riderId: string }[]) =>
+  ranked.map((rider) => rider.riderId);
+
+describe("rankDispatchCandidates", () => {
+  it("puts the nearest rider first", () => {
+    const ranked = rankDispatchCandidates(
+      [
+        candidate("far", { location: { lat: 0, lng: 8 } }),
+        candidate("near", { location: { lat: 0, lng: 2 } }),
+      ],
+      pickup,
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(ranked), ["near", "far"]);
+    assert.equal(ranked[0].distanceKm, 2);
+    assert.equal(ranked[0].score, 2);
+  });
+
+  it("counts each active order as extra distance", () => {
+    const ranked = rankDispatchCandidates(
+      [
+        candidate("busy", { location: { lat: 0, lng: 1 }, activeOrders: 2 }),
+        candidate("free", { location: { lat: 0, lng: 5 } }),
+      ],
+      pickup,
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(ranked), ["free", "busy"]);
+    assert.equal(ranked[1].score, 7);
+  });
+
+  it("drops inactive and suspended riders", () => {
+    const ranked = rankDispatchCandidates(
+      [
+        candidate("off-duty", { isActive: false }),
+        candidate("suspended", { isSuspended: true }),
+        candidate("available"),
+      ],
+      pickup,
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(ranked), ["available"]);
+  });
+
+  it("ranks riders without a position as if they were far away", () => {
+    const ranked = rankDispatchCandidates(
+      [
+        candidate("unknown", { location: null }),
+        candidate("known", { location: { lat: 0, lng: 30 } }),
+      ],
+      pickup,
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(ranked), ["known", "unknown"]);
+    assert.equal(ranked[1].distanceKm, null);
+    assert.equal(ranked[1].score, 50);
+  });
+
+  it("scores on workload alone when the pickup is unknown", () => {
+    const ranked = rankDispatchCandidates(
+      [candidate("busy", { activeOrders: 1 }), candidate("free")],
+      null,
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(ranked), ["free", "busy"]);
+    assert.ok(ranked.every((rider) => rider.distanceKm === null));
+  });
+
+  it("breaks ties by rider ID whatever the input order", () => {
+    const riders = [candidate("b"), candidate("c"), candidate("a")];
+
+    assert.deepEqual(
+      ids(rankDispatchCandidates(riders, pickup, lineDistance)),
+      ["a", "b", "c"],
+    );
+    assert.deepEqual(
+      ids(rankDispatchCandidates([...riders].reverse(), pickup, lineDistance)),
+      ["a", "b", "c"],
+    );
+  });
+});
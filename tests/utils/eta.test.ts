@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EtaInput, estimateEta } from "../../src/utils/eta.js";
+import { lineDistance } from "../helpers/geo.js";
+
+const now = new Date("2026-01-01T12:00:00.000Z");
+
+// Rider 10 km from the customer at 30 km/h, with no trail yet
+const input = (overrides: Partial<EtaInput> = {}): EtaInput => ({
+  status: "in_transit",
+  riderLocation: { lat: 0, lng: 0 },
+  pickup: { lat: 0, lng: -5 },
+  destination: { lat: 0, lng: 10 },
+  averageSpeedKmh: 30,
+  recentSpeedKmh: null,
+  ...overrides,
+});
+
+describe("estimateEta", () => {
+  it("drives straight to the customer at the average speed", () => {
+    assert.deepEqual(estimateEta(input(), lineDistance, now), {
+      distanceKm: 10,
+      speedKmh: 30,
+      etaSeconds: 1200,
+      estimatedArrivalAt: "2026-01-01T12:20:00.000Z",
+      viaPickup: false,
+    });
+  });
+
+  it("goes through the pickup point while the order is confirmed", () => {
+    const eta = estimateEta(input({ status: "confirmed" }), lineDistance, now);
+
+    // 5 km back to the pickup, then 15 km on to the customer
+    assert.equal(eta?.distanceKm, 20);
+    assert.equal(eta?.etaSeconds, 2400);
+    assert.equal(eta?.viaPickup, true);
+  });
+
+  it("returns null for a confirmed order without a pickup point", () => {
+    const eta = estimateEta(
+      input({ status: "confirmed", pickup: null }),
+      lineDistance,
+      now,
+    );
+
+    assert.equal(eta, null);
+  });
+
+  it("blends the recent speed half and half with the average", () => {
+    const eta = estimateEta(input({ recentSpeedKmh: 40 }), lineDistance, now);
+
+    assert.equal(eta?.speedKmh, 35);
+  });
+
+  it("clamps the recent speed to half and one and a half times the average", () => {
+    const slow = estimateEta(input({ recentSpeedKmh: 2 }), lineDistance, now);
+    const fast = estimateEta(input({ recentSpeedKmh: 120 }), lineDistance, now);
+
+    // Clamped to 15 and 45 km/h before blending with 30
+    assert.equal(slow?.speedKmh, 22.5);
+    assert.equal(fast?.speedKmh, 37.5);
+  });
+
+  it("returns null without a rider position, a destination or an average speed", () => {
+    assert.equal(
+      estimateEta(input({ riderLocation: null }), lineDistance, now),
+      null,
+    );
+    assert.equal(
+      estimateEta(input({ destination: null }), lineDistance, now),
+      null,
+    );
+    assert.equal(
+      estimateEta(input({ averageSpeedKmh: 0 }), lineDistance, now),
+      null,
+    );
+  });
+
+  it("returns null for statuses without an ETA", () => {
+    for (const status of ["pending", "arrived_at_location", "delivered"]) {
+      assert.equal(
+        estimateEta(
+          input({ status: status as EtaInput["status"] }),
+          lineDistance,
+          now,
+        ),
+        null,
+      );
+    }
+  });
+});
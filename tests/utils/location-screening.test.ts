@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { GeoPoint } from "../../src/models/schema.js";
+import { screenLocationBatch } from "../../src/utils/location-screening.js";
+import { lineDistance } from "../helpers/geo.js";
+
+const now = new Date("2026-01-01T12:00:00.000Z");
+
+// A fix `km` along the line, `minutes` before now
+const point = (km: number, minutes: number): GeoPoint => ({
+  lat: 0,
+  lng: km,
+  accuracy: null,
+  heading: null,
+  speed: null,
+  recordedAt: new Date(now.getTime() - minutes * 60_000).toISOString(),
+});
+
+const screen = (
+  points: GeoPoint[],
+  options: { notBefore?: Date | null; lastKnown?: GeoPoint | null } = {},
+) =>
+  screenLocationBatch(
+    points,
+    {
+      notBefore: options.notBefore ?? null,
+      lastKnown: options.lastKnown ?? null,
+      now,
+    },
+    lineDistance,
+  );
+
+describe("screenLocationBatch", () => {
+  it("accepts plausible points oldest first", () => {
+    const { accepted, rejected } = screen([
+      point(2, 1),
+      point(0, 3),
+      point(1, 2),
+    ]);
+
+    assert.deepEqual(
+      accepted.map((p) => p.lng),
+      [0, 1, 2],
+    );
+    assert.deepEqual(rejected, []);
+  });
+
+  it("rejects repeated timestamps and the last known fix", () => {
+    const lastKnown = point(0, 5);
+    const { accepted, rejected } = screen(
+      [point(0, 5), point(1, 3), point(1.5, 3)],
+      { lastKnown },
+    );
+
+    assert.deepEqual(
+      accepted.map((p) => p.lng),
+      [1],
+    );
+    assert.deepEqual(
+      rejected.map((r) => r.reason),
+      ["duplicate", "duplicate"],
+    );
+  });
+
+  it("rejects fixes from before the order was confirmed", () => {
+    const { accepted, rejected } = screen([point(0, 10), point(1, 2)], {
+      notBefore: new Date(now.getTime() - 5 * 60_000),
+    });
+
+    assert.deepEqual(
+      accepted.map((p) => p.lng),
+      [1],
+    );
+    assert.deepEqual(rejected, [
+      { recordedAt: point(0, 10).recordedAt, reason: "before_confirmed" },
+    ]);
+  });
+
+  it("allows a little clock skew but rejects fixes from the future", () => {
+    const { accepted, rejected } = screen([point(0, -1), point(0.1, -5)]);
+
+    assert.deepEqual(
+      accepted.map((p) => p.lng),
+      [0],
+    );
+    assert.deepEqual(
+      rejected.map((r) => r.reason),
+      ["in_future"],
+    );
+  });
+
+  it("rejects jumps faster than a rider can travel", () => {
+    // 10 km in one minute is 600 km/h; the next fix is compared with the
+    // last accepted one, not with the glitch
+    const { accepted, rejected } = screen([
+      point(0, 3),
+      point(10, 2),
+      point(1, 1),
+    ]);
+
+    assert.deepEqual(
+      accepted.map((p) => p.lng),
+      [0, 1],
+    );
+    assert.deepEqual(
+      rejected.map((r) => r.reason),
+      ["implausible_speed"],
+    );
+  });
+
+  it("measures the first fix against the last known position", () => {
+    const { accepted, rejected } = screen([point(20, 2), point(21, 1)], {
+      lastKnown: point(0, 3),
+    });
+
+    assert.deepEqual(accepted, []);
+    assert.deepEqual(
+      rejected.map((r) => r.reason),
+      ["implausible_speed", "implausible_speed"],
+    );
+  });
+
+  it("ignores a last known position newer than the batch", () => {
+    const { accepted } = screen([point(0, 10), point(1, 9)], {
+      lastKnown: point(50, 1),
+    });
+
+    assert.deepEqual(
+      accepted.map((p) => p.lng),
+      [0, 1],
+    );
+  });
+});
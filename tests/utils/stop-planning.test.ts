@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PlannableStop,
+  planStopSequence,
+} from "../../src/utils/stop-planning.js";
+import { lineDistance } from "../helpers/geo.js";
+
+const stop = (orderId: string, km: number | null): PlannableStop => ({
+  orderId,
+  location: km === null ? null : { lat: 0, lng: km },
+});
+
+const ids = (stops: PlannableStop[]) => stops.map((s) => s.orderId);
+
+describe("planStopSequence", () => {
+  it("always drives on to the nearest stop not visited yet", () => {
+    const planned = planStopSequence(
+      { lat: 0, lng: 0 },
+      [stop("a", 10), stop("b", -3), stop("c", 2), stop("d", 4)],
+      lineDistance,
+    );
+
+    // From 4, 10 is 6 away and -3 is 7 away, so the run goes out to 10
+    // before coming back for -3
+    assert.deepEqual(ids(planned), ["c", "d", "a", "b"]);
+  });
+
+  it("starts at the first stop by order ID when the start is unknown", () => {
+    const planned = planStopSequence(
+      null,
+      [stop("b", 0), stop("a", 5), stop("c", 6)],
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(planned), ["a", "c", "b"]);
+  });
+
+  it("puts stops without a location last, by order ID", () => {
+    const planned = planStopSequence(
+      { lat: 0, lng: 0 },
+      [stop("z", null), stop("b", 1), stop("y", null), stop("a", 2)],
+      lineDistance,
+    );
+
+    assert.deepEqual(ids(planned), ["b", "a", "y", "z"]);
+  });
+
+  it("keeps the lower order ID on a tie whatever the input order", () => {
+    const stops = [stop("b", 1), stop("a", -1), stop("c", 3)];
+
+    assert.deepEqual(
+      ids(planStopSequence({ lat: 0, lng: 0 }, stops, lineDistance)),
+      ["a", "b", "c"],
+    );
+    assert.deepEqual(
+      ids(
+        planStopSequence(
+          { lat: 0, lng: 0 },
+          [...stops].reverse(),
+          lineDistance,
+        ),
+      ),
+      ["a", "b", "c"],
+    );
+  });
+
+  it("returns the stops it was given, with their extra fields", () => {
+    const stops = [
+      { ...stop("a", 1), orderNumber: "ORD-1" },
+      { ...stop("b", 2), orderNumber: "ORD-2" },
+    ];
+
+    const planned = planStopSequence({ lat: 0, lng: 0 }, stops, lineDistance);
+
+    assert.equal(planned[0], stops[0]);
+    assert.equal(planned[1].orderNumber, "ORD-2");
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RoomManager,
+  RoomRole,
+  RoomSocket,
+  orderRoom,
+  orgRoom,
+} from "../../src/websocket/room-manager.js";
+
+class FakeSocket implements RoomSocket {
+  readyState = 1;
+  sent: unknown[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+}
+
+const member = (socket: FakeSocket, userId: string, role: RoomRole) => ({
+  socket,
+  userId,
+  role,
+});
+
+describe("RoomManager", () => {
+  describe("join and leave", () => {
+    it("tracks members per room and role", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const rider = new FakeSocket();
+      const customer = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(rider, "u1", "rider"));
+      rooms.join(orderRoom("o1"), member(customer, "u2", "customer"));
+
+      assert.equal(rooms.members(orderRoom("o1")).length, 2);
+      assert.deepEqual(
+        rooms.members(orderRoom("o1"), "rider").map((m) => m.userId),
+        ["u1"],
+      );
+      assert.equal(rooms.roomCount(), 1);
+    });
+
+    it("drops a room once its last member leaves", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const socket = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(socket, "u1", "customer"));
+      rooms.leave(orderRoom("o1"), socket);
+
+      assert.equal(rooms.members(orderRoom("o1")).length, 0);
+      assert.equal(rooms.roomCount(), 0);
+    });
+
+    it("takes a socket out of every room with leaveAll", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const socket = new FakeSocket();
+      const other = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(socket, "u1", "owner"));
+      rooms.join(orgRoom("org1"), member(socket, "u1", "owner"));
+      rooms.join(orgRoom("org1"), member(other, "u2", "owner"));
+
+      assert.deepEqual(rooms.leaveAll(socket).sort(), [
+        orderRoom("o1"),
+        orgRoom("org1"),
+      ]);
+      assert.equal(rooms.roomCount(), 1);
+      assert.deepEqual(rooms.socketsOfUser("u1"), []);
+      assert.deepEqual(rooms.socketsOfUser("u2"), [other]);
+    });
+
+    it("finds every socket of a user once", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const phone = new FakeSocket();
+      const laptop = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(phone, "u1", "owner"));
+      rooms.join(orgRoom("org1"), member(phone, "u1", "owner"));
+      rooms.join(orgRoom("org1"), member(laptop, "u1", "owner"));
+
+      assert.equal(rooms.socketsOfUser("u1").length, 2);
+    });
+  });
+
+  describe("broadcast", () => {
+    it("reaches a socket in several of the rooms once", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const owner = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(owner, "u1", "owner"));
+      rooms.join(orgRoom("org1"), member(owner, "u1", "owner"));
+
+      const reached = rooms.broadcast([orderRoom("o1"), orgRoom("org1")], {
+        type: "status_update",
+        status: "in_transit",
+      });
+
+      assert.equal(reached, 1);
+      assert.deepEqual(owner.sent, [
+        { type: "status_update", status: "in_transit" },
+      ]);
+    });
+
+    it("only sends a message to roles that may receive it", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const rider = new FakeSocket();
+      const customer = new FakeSocket();
+      const owner = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(rider, "u1", "rider"));
+      rooms.join(orderRoom("o1"), member(customer, "u2", "customer"));
+      rooms.join(orderRoom("o1"), member(owner, "u3", "owner"));
+
+      const reached = rooms.broadcast([orderRoom("o1")], {
+        type: "geofence_prompt",
+      });
+
+      assert.equal(reached, 1);
+      assert.equal(rider.sent.length, 1);
+      assert.equal(customer.sent.length, 0);
+      assert.equal(owner.sent.length, 0);
+    });
+
+    it("skips sockets that are not open", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const open = new FakeSocket();
+      const closing = new FakeSocket();
+      closing.readyState = 2;
+
+      rooms.join(orderRoom("o1"), member(open, "u1", "customer"));
+      rooms.join(orderRoom("o1"), member(closing, "u2", "customer"));
+
+      assert.equal(
+        rooms.broadcast([orderRoom("o1")], { type: "eta_update" }),
+        1,
+      );
+      assert.equal(closing.sent.length, 0);
+    });
+
+    it("reaches nobody in an unknown room", () => {
+      const rooms = new RoomManager<FakeSocket>();
+
+      assert.equal(
+        rooms.broadcast([orderRoom("missing")], { type: "status_update" }),
+        0,
+      );
+    });
+  });
+
+  describe("sweepHeartbeats", () => {
+    it("expects an answer from every socket after it joins", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const socket = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(socket, "u1", "rider"));
+
+      assert.deepEqual(rooms.sweepHeartbeats(), {
+        dead: [],
+        pending: [socket],
+      });
+    });
+
+    it("reports sockets that did not answer since the last round", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const answering = new FakeSocket();
+      const silent = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(answering, "u1", "rider"));
+      rooms.join(orderRoom("o1"), member(silent, "u2", "customer"));
+      rooms.sweepHeartbeats();
+
+      rooms.markAlive(answering);
+
+      assert.deepEqual(rooms.sweepHeartbeats(), {
+        dead: [silent],
+        pending: [answering],
+      });
+    });
+
+    it("ignores pongs from sockets that left every room", () => {
+      const rooms = new RoomManager<FakeSocket>();
+      const socket = new FakeSocket();
+
+      rooms.join(orderRoom("o1"), member(socket, "u1", "rider"));
+      rooms.leaveAll(socket);
+      rooms.markAlive(socket);
+
+      assert.deepEqual(rooms.sweepHeartbeats(), { dead: [], pending: [] });
+    });
+  });
+});